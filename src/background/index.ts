@@ -1,8 +1,44 @@
 import { extensionBrowser } from '../shared/browser';
-import { TranslateVttMessage, TranslationResponse, TranslationSuccessResponse } from '../shared/messages';
-import { parseVttWithHeader, rebuildVttWithHeader, VttDocument } from '../shared/vtt';
+import {
+  GlossaryViolation,
+  TranslateVttMessage,
+  TranslationResponse,
+  TranslationSuccessResponse,
+  TranslationPartialResponse,
+  PlaybackPositionMessage,
+  VttTranslatedMessage,
+  VttTranslationProgressMessage
+} from '../shared/messages';
+import { parseVttWithHeader, rebuildVttWithHeader, VttDocument, vttTimestampToSeconds } from '../shared/vtt';
+import { computeBatchTiming, type CueTiming } from '../shared/batch-scheduler';
+import {
+  computeCueWeights,
+  groupCuesIntoSentences,
+  redistributeTranslation,
+  type SentenceGroup
+} from '../shared/sentence-reassembly';
 import { extractPlainText, replaceTextPreservingTags, convertVttToHtml } from '../shared/vtt-styling';
-import { translateTexts } from '../shared/translation-adapter';
+import { detectArteSubtitleLanguage } from '../shared/arte-languages';
+import {
+  loadTranslationSettings,
+  resolveTranslationModel,
+  translateTexts,
+  type TranslatedSegment
+} from '../shared/translation-adapter';
+import { computeTranslationCacheKey, createTranslationCache, type TranslationCache } from '../shared/translation-cache';
+import { createTranslationMemory } from '../shared/translation-memory';
+import { createUsageLedger, type TranslationUsage, type UsageLedger } from '../shared/usage-ledger';
+import { getErrorKind } from '../shared/translation-errors';
+import { findGlossaryViolations, resolveGlossary, type GlossaryEntry } from '../shared/glossary';
+import { extractArteProgramme, resolveProgrammeSettings, type ArteProgramme } from '../shared/translation-profiles';
+import {
+  computeCharacterBudget,
+  computeCharactersPerSecond,
+  countReadableCharacters,
+  wrapSubtitleLines
+} from '../shared/reading-speed';
+import { getTranslationProvider } from '../shared/providers/registry';
+import type { TranslationSettings } from '../shared/translation-settings';
 
 const log = (...args: unknown[]): void => {
   console.log('[Arte Subtitle Translator]', ...args);
@@ -22,14 +58,200 @@ type TranslationPipelineDeps = {
   parseVttFn?: (vttText: string) => VttDocument;
   rebuildVttFn?: (header: string, cues: VttDocument['cues']) => string;
   translateTextsFn?: typeof translateTexts;
+  loadSettingsFn?: () => Promise<TranslationSettings>;
+  cache?: TranslationCache;
+  usageLedger?: UsageLedger;
+  onProgress?: (progress: TranslationProgress) => void;
+  getPlaybackPosition?: () => number | undefined;
+};
+
+export type TranslationProgress = {
+  mapping: Record<string, string>;
+  translatedCount: number;
+  totalCount: number;
 };
 
 export type TranslationPipelineRequest = {
   url: string;
   sourceLanguage: string;
   targetLanguage: string;
+  /** Programme title from the tab playing the subtitles, offered to prompt templates. */
+  showTitle?: string;
+  /** IDs read from the tab; the programme ID in the subtitle URL takes precedence. */
+  programmeId?: string;
+  collectionId?: string;
+};
+
+// Arte tab titles end with the site name, e.g. "Les Papillons noirs - Regarder la série complète | ARTE"
+const ARTE_TITLE_SUFFIX = /\s*[|–-]\s*ARTE\s*$/i;
+
+const describeArteTab = (tab: chrome.tabs.Tab | undefined): ArteProgramme => {
+  const title = tab?.title?.replace(ARTE_TITLE_SUFFIX, '').trim();
+  return { ...extractArteProgramme(tab?.url ?? ''), ...(title ? { title } : {}) };
+};
+
+// Page details travel with the request so the pipeline can pick the matching translation profile
+const toProgrammeFields = (
+  programme: ArteProgramme
+): Pick<TranslationPipelineRequest, 'showTitle' | 'programmeId' | 'collectionId'> => ({
+  ...(programme.title ? { showTitle: programme.title } : {}),
+  ...(programme.programmeId ? { programmeId: programme.programmeId } : {}),
+  ...(programme.collectionId ? { collectionId: programme.collectionId } : {})
+});
+
+const describeRequestProgramme = (request: TranslationPipelineRequest): ArteProgramme => ({
+  programmeId: request.programmeId,
+  collectionId: request.collectionId,
+  title: request.showTitle,
+  ...extractArteProgramme(request.url)
+});
+
+const translationCache = createTranslationCache();
+const translationMemory = createTranslationMemory();
+const usageLedger = createUsageLedger();
+
+const translateWithMemory: typeof translateTexts = (request, deps = {}) =>
+  translateTexts(request, { translationMemory, ...deps });
+
+// The cache is an optimisation only: any storage or settings failure falls back to a fresh translation.
+const resolveCacheKey = async (
+  vttText: string,
+  targetLanguage: string,
+  loadSettingsFn: () => Promise<TranslationSettings>
+): Promise<string | null> => {
+  try {
+    const settings = await loadSettingsFn();
+    return await computeTranslationCacheKey({
+      vttText,
+      provider: settings.provider,
+      model: resolveTranslationModel(settings),
+      targetLanguage,
+      settings: {
+        contextWindowSize: settings.contextWindowSize,
+        promptPreset: settings.promptPreset,
+        // The custom template is kept while a preset is selected but only shapes the prompt of Custom
+        customPromptTemplate: settings.promptPreset === 'custom' ? settings.customPromptTemplate : undefined,
+        glossaries: settings.glossaries,
+        maxCharactersPerSecond: settings.maxCharactersPerSecond,
+        maxLineLength: settings.maxLineLength
+      }
+    });
+  } catch (error) {
+    log('Translation cache unavailable:', error);
+    return null;
+  }
 };
 
+const resolveRequestGlossary = async (
+  loadSettingsFn: () => Promise<TranslationSettings>,
+  showTitle: string | undefined
+): Promise<GlossaryEntry[]> => {
+  try {
+    const settings = await loadSettingsFn();
+    return resolveGlossary(settings.glossaries ?? [], showTitle);
+  } catch (error) {
+    log('Glossary unavailable:', error);
+    return [];
+  }
+};
+
+type ReadingLimits = {
+  maxCharactersPerSecond: number;
+  maxLineLength: number;
+  /** Whether the provider can be asked for condensed translations. */
+  canCondense: boolean;
+};
+
+// Reading limits only polish the result, so a settings failure leaves the translation as it is
+const resolveReadingLimits = async (
+  loadSettingsFn: () => Promise<TranslationSettings>
+): Promise<ReadingLimits | null> => {
+  try {
+    const settings = await loadSettingsFn();
+    return {
+      maxCharactersPerSecond: settings.maxCharactersPerSecond ?? 0,
+      maxLineLength: settings.maxLineLength ?? 0,
+      canCondense: getTranslationProvider(settings.provider).capabilities.supportsLengthLimits
+    };
+  } catch (error) {
+    log('Reading limits unavailable:', error);
+    return null;
+  }
+};
+
+/** Sentences with a cue too fast to read, and the characters their cues leave room for together. */
+const findFastSentences = (
+  sentences: SentenceGroup[],
+  translatedTexts: string[],
+  timings: Array<CueTiming | null>,
+  maxCharactersPerSecond: number,
+  skippedSentenceIndexes: number[]
+): Array<{ sentenceIndex: number; maxCharacters: number }> =>
+  sentences.flatMap(({ cueIndexes }, sentenceIndex) => {
+    if (skippedSentenceIndexes.includes(sentenceIndex)) {
+      return [];
+    }
+    const isFast = cueIndexes.some((cueIndex) => {
+      const speed = computeCharactersPerSecond(translatedTexts[cueIndex] ?? '', timings[cueIndex]);
+      return speed !== null && speed > maxCharactersPerSecond;
+    });
+    const budgets = cueIndexes.map((cueIndex) => computeCharacterBudget(timings[cueIndex], maxCharactersPerSecond));
+    if (!isFast || budgets.some((budget) => budget === null)) {
+      return [];
+    }
+    return [{ sentenceIndex, maxCharacters: budgets.reduce<number>((total, budget) => total + (budget ?? 0), 0) }];
+  });
+
+const readCachedTranslations = async (cache: TranslationCache, key: string | null): Promise<string[] | null> => {
+  if (!key) {
+    return null;
+  }
+
+  try {
+    return await cache.get(key);
+  } catch (error) {
+    log('Unable to read translation cache:', error);
+    return null;
+  }
+};
+
+const writeCachedTranslations = async (
+  cache: TranslationCache,
+  key: string | null,
+  translations: string[]
+): Promise<void> => {
+  if (!key) {
+    return;
+  }
+
+  try {
+    await cache.set(key, translations);
+  } catch (error) {
+    log('Unable to write translation cache:', error);
+  }
+};
+
+// Maps the normalized plain original text (what the DOM shows) to the translated cue as HTML,
+// so the content script can replace innerHTML while preserving styling.
+const addMappingEntry = (mapping: Record<string, string>, plainText: string, translatedCueText: string): void => {
+  const plainOriginal = plainText.replace(/\s+/g, ' ').trim();
+  const translatedHtml = convertVttToHtml(translatedCueText);
+
+  if (plainOriginal && translatedHtml) {
+    mapping[plainOriginal] = translatedHtml;
+  }
+};
+
+const toCueTiming = (cue: VttDocument['cues'][number]): CueTiming | null => {
+  const start = vttTimestampToSeconds(cue.start);
+  const end = vttTimestampToSeconds(cue.end);
+  return start === null || end === null ? null : { start, end };
+};
+
+// Budget refusals carry a message written for the user, so it is passed on without the error name
+const describeBudgetError = (error: unknown): string | null =>
+  getErrorKind(error) === 'budget' && error instanceof Error ? error.message : null;
+
 export const runTranslationPipeline = async (
   request: TranslationPipelineRequest,
   deps: TranslationPipelineDeps = {}
@@ -37,7 +259,13 @@ export const runTranslationPipeline = async (
   const fetchFn = deps.fetchFn ?? fetch;
   const parseVttFn = deps.parseVttFn ?? parseVttWithHeader;
   const rebuildVttFn = deps.rebuildVttFn ?? rebuildVttWithHeader;
-  const translateTextsFn = deps.translateTextsFn ?? translateTexts;
+  const translateTextsFn = deps.translateTextsFn ?? translateWithMemory;
+  const loadBaseSettingsFn = deps.loadSettingsFn ?? loadTranslationSettings;
+  const programme = describeRequestProgramme(request);
+  const loadSettingsFn = async (): Promise<TranslationSettings> =>
+    resolveProgrammeSettings(await loadBaseSettingsFn(), programme);
+  const cache = deps.cache ?? translationCache;
+  const ledger = deps.usageLedger ?? usageLedger;
 
   try {
     const response = await fetchFn(request.url);
@@ -54,16 +282,172 @@ export const runTranslationPipeline = async (
     const plainTexts = cues.map((cue) => extractPlainText(cue.text));
     log('Starting translation pipeline for', request.url, 'with', plainTexts.length, 'cues.');
 
-    const translatedTexts = await translateTextsFn({
-      texts: plainTexts,
-      sourceLanguage: request.sourceLanguage,
-      targetLanguage: request.targetLanguage
+    const cacheKey = await resolveCacheKey(vttText, request.targetLanguage, loadSettingsFn);
+    const glossary = await resolveRequestGlossary(loadSettingsFn, request.showTitle);
+    const readingLimits = await resolveReadingLimits(loadSettingsFn);
+    const cachedTexts = await readCachedTranslations(cache, cacheKey);
+    const isCacheHit = cachedTexts !== null && cachedTexts.length === cues.length;
+    if (isCacheHit) {
+      log('Using cached translation for', request.url);
+    }
+
+    // Sentences split over several cues are translated as one unit, then shared back over those cues
+    const timings = cues.map(toCueTiming);
+    const sentences = groupCuesIntoSentences(plainTexts, timings);
+    const expandSentence = (index: number, text: string): Array<{ index: number; text: string }> => {
+      const { cueIndexes } = sentences[index];
+      const parts = redistributeTranslation(text, computeCueWeights(cueIndexes, plainTexts, timings));
+      return cueIndexes.map((cueIndex, position) => ({ index: cueIndex, text: parts[position] }));
+    };
+
+    // Which provider produced each cue; stays null for cues that were blank, failed or came from the cache
+    const cueProviders: Array<string | null> = cues.map(() => null);
+    let translatedCount = 0;
+    const onBatchTranslated = (segments: TranslatedSegment[]): void => {
+      const partialMapping: Record<string, string> = {};
+      const cueSegments = segments.flatMap(({ index, text, provider }) =>
+        expandSentence(index, text).map((segment) => ({ ...segment, provider }))
+      );
+      cueSegments.forEach(({ index, text, provider }) => {
+        cueProviders[index] = provider;
+        addMappingEntry(partialMapping, plainTexts[index], replaceTextPreservingTags(cues[index].text, text));
+      });
+      translatedCount += cueSegments.length;
+      deps.onProgress?.({ mapping: partialMapping, translatedCount, totalCount: cues.length });
+    };
+
+    // Usage is booked against the subtitle file, whatever per-request query string the player added;
+    // accounting failures never affect the translation
+    const subtitleFile = request.url.split('?')[0];
+    const onUsage = (usage: TranslationUsage): void => {
+      ledger.record(subtitleFile, usage).catch((error) => log('Unable to record translation usage:', error));
+    };
+
+    let failedSentenceIndexes: number[] = [];
+    let budgetExceededMessage: string | null = null;
+    const onSegmentsFailed = (indexes: number[], error: unknown): void => {
+      failedSentenceIndexes = indexes;
+      budgetExceededMessage = describeBudgetError(error);
+    };
+
+    let budgetWarning: string | null = null;
+    const onBudgetWarning = (message: string): void => {
+      budgetWarning = message;
+    };
+
+    let translatedTexts = cachedTexts ?? [];
+    if (!isCacheHit) {
+      const sentenceTranslations = await translateTextsFn(
+        {
+          texts: sentences.map((sentence) => sentence.text),
+          sourceLanguage: request.sourceLanguage,
+          targetLanguage: request.targetLanguage,
+          timings: sentences.map((sentence) => computeBatchTiming(sentence.cueIndexes.map((index) => timings[index]))),
+          ...(request.showTitle ? { showTitle: request.showTitle } : {}),
+          ...(glossary.length > 0 ? { glossary } : {})
+        },
+        {
+          loadSettingsFn,
+          onBatchTranslated,
+          onSegmentsFailed,
+          onUsage,
+          usageLedger: ledger,
+          onBudgetWarning,
+          getPlaybackPosition: deps.getPlaybackPosition
+        }
+      );
+
+      if (sentenceTranslations.length !== sentences.length) {
+        const mismatchError = `Translation output count mismatch (expected ${sentences.length}, received ${sentenceTranslations.length}).`;
+        log(mismatchError, request.url);
+        return { status: 'error', message: mismatchError };
+      }
+
+      // Failed sentences keep each cue's own original text rather than a redistributed merge
+      translatedTexts = [...plainTexts];
+      sentenceTranslations.forEach((text, index) => {
+        if (!failedSentenceIndexes.includes(index)) {
+          expandSentence(index, text).forEach((segment) => {
+            translatedTexts[segment.index] = segment.text;
+          });
+        }
+      });
+
+      // Sentences with a cue too fast to read are translated again under a length limit and the
+      // shorter translation is kept. Condensing only polishes the result, so its failures are ignored.
+      const maxCharactersPerSecond = readingLimits?.canCondense ? readingLimits.maxCharactersPerSecond : 0;
+      const fastSentences =
+        maxCharactersPerSecond > 0
+          ? findFastSentences(sentences, translatedTexts, timings, maxCharactersPerSecond, failedSentenceIndexes)
+          : [];
+      if (fastSentences.length > 0) {
+        log('Condensing', fastSentences.length, 'sentences read faster than', maxCharactersPerSecond, 'characters per second.');
+        let failedCondensations: number[] = [];
+        try {
+          const condensed = await translateTextsFn(
+            {
+              texts: fastSentences.map(({ sentenceIndex }) => sentences[sentenceIndex].text),
+              sourceLanguage: request.sourceLanguage,
+              targetLanguage: request.targetLanguage,
+              maxCharacters: fastSentences.map(({ maxCharacters }) => maxCharacters),
+              ...(request.showTitle ? { showTitle: request.showTitle } : {}),
+              ...(glossary.length > 0 ? { glossary } : {})
+            },
+            {
+              loadSettingsFn,
+              onUsage,
+              usageLedger: ledger,
+              onSegmentsFailed: (indexes) => {
+                failedCondensations = indexes;
+              }
+            }
+          );
+          fastSentences.forEach(({ sentenceIndex }, position) => {
+            const { cueIndexes } = sentences[sentenceIndex];
+            const current = cueIndexes.map((cueIndex) => translatedTexts[cueIndex]).join(' ');
+            const text = condensed[position] ?? '';
+            const isShorter = countReadableCharacters(text) < countReadableCharacters(current);
+            if (failedCondensations.includes(position) || !isShorter) {
+              return;
+            }
+            expandSentence(sentenceIndex, text).forEach((segment) => {
+              translatedTexts[segment.index] = segment.text;
+            });
+          });
+        } catch (error) {
+          log('Unable to condense fast cues:', error);
+        }
+      }
+    }
+    const failedCueIndexes = failedSentenceIndexes.flatMap((index) => sentences[index].cueIndexes);
+    failedCueIndexes.forEach((index) => {
+      cueProviders[index] = null;
     });
 
-    if (translatedTexts.length !== cues.length) {
-      const mismatchError = `Translation output count mismatch (expected ${cues.length}, received ${translatedTexts.length}).`;
-      log(mismatchError, request.url);
-      return { status: 'error', message: mismatchError };
+    // Also applied to cached translations, so a narrower width takes effect without translating again
+    const maxLineLength = readingLimits?.maxLineLength ?? 0;
+    if (maxLineLength > 0) {
+      translatedTexts = translatedTexts.map((text, index) =>
+        failedCueIndexes.includes(index) ? text : wrapSubtitleLines(text, maxLineLength)
+      );
+    }
+
+    // Partial results are not cached so the failed cues get another chance on the next request
+    if (!isCacheHit && failedCueIndexes.length === 0) {
+      await writeCachedTranslations(cache, cacheKey, translatedTexts);
+    }
+
+    // Sentences are checked as a whole since redistribution may move a term into a neighbouring cue
+    const glossaryViolations: GlossaryViolation[] = sentences.flatMap((sentence, index) => {
+      if (failedSentenceIndexes.includes(index)) {
+        return [];
+      }
+      const translation = sentence.cueIndexes.map((cueIndex) => translatedTexts[cueIndex] ?? '').join(' ');
+      const terms = findGlossaryViolations(sentence.text, translation, glossary).map((entry) => entry.source);
+      return terms.length > 0 ? [{ cueIndexes: sentence.cueIndexes, terms }] : [];
+    });
+    if (glossaryViolations.length > 0) {
+      log('Glossary terms not respected in', glossaryViolations.length, 'sentences:', glossaryViolations);
     }
 
     // Replace text while preserving original VTT styling tags
@@ -72,18 +456,11 @@ export const runTranslationPipeline = async (
       text: replaceTextPreservingTags(cue.text, translatedTexts[index] ?? '')
     }));
 
-    // Create a mapping of Original Text -> Translated Text
-    // We normalize the original text (trim, collapse spaces) to match what we'll find in the DOM
+    // Create a mapping of Original Text -> Translated Text; failed cues keep showing the original
     const mapping: Record<string, string> = {};
-    cues.forEach((cue, index) => {
-      // Extract plain text for the key (since DOM might not have tags)
-      const plainOriginal = plainTexts[index].replace(/\s+/g, ' ').trim();
-      // The value should be the translated text converted to HTML with styling tags
-      // This allows us to replace innerHTML in the DOM while preserving styling
-      const translatedHtml = convertVttToHtml(translatedCues[index].text);
-
-      if (plainOriginal && translatedHtml) {
-        mapping[plainOriginal] = translatedHtml;
+    translatedCues.forEach((cue, index) => {
+      if (!failedCueIndexes.includes(index)) {
+        addMappingEntry(mapping, plainTexts[index], cue.text);
       }
     });
 
@@ -102,14 +479,38 @@ export const runTranslationPipeline = async (
     log('Header preview:', header.substring(0, 200));
     log('Translated VTT preview:', translatedVtt.substring(0, 500));
 
+    const warnings = {
+      ...(budgetWarning ? { budgetWarning } : {}),
+      ...(glossaryViolations.length > 0 ? { glossaryViolations } : {})
+    };
+    if (failedCueIndexes.length > 0) {
+      const partialMessage = [
+        `${failedCueIndexes.length} of ${cues.length} cues could not be translated.`,
+        ...(budgetExceededMessage ? [budgetExceededMessage] : [])
+      ].join(' ');
+      log(partialMessage, request.url);
+      return {
+        status: 'partial',
+        translatedVtt,
+        mapping,
+        failedCueIndexes,
+        cueProviders,
+        message: partialMessage,
+        ...(budgetExceededMessage ? { budgetExceeded: true } : {}),
+        ...warnings
+      };
+    }
+
     return {
       status: 'translated',
       translatedVtt,
-      mapping
+      mapping,
+      ...(isCacheHit ? {} : { cueProviders }),
+      ...warnings
     };
   } catch (error) {
     log('Translation pipeline failed:', error);
-    return { status: 'error', message: String(error) };
+    return { status: 'error', message: error instanceof Error ? error.message : String(error) };
   }
 };
 
@@ -126,6 +527,7 @@ export const createTranslateMessageHandler = (deps: TranslateMessageHandlerDeps
     }
 
     const { url, sourceLanguage, targetLanguage } = message as TranslateVttMessage;
+    const tabProgramme = describeArteTab(sender.tab);
     const hasRequiredFields = Boolean(url && sourceLanguage && targetLanguage);
     if (!hasRequiredFields) {
       log('Rejecting translation request due to missing parameters.', {
@@ -144,10 +546,15 @@ export const createTranslateMessageHandler = (deps: TranslateMessageHandlerDeps
       sender: sender.tab?.url
     });
 
-    pipeline({ url, sourceLanguage, targetLanguage })
+    pipeline({ url, sourceLanguage, targetLanguage, ...toProgrammeFields(tabProgramme) })
       .then((response) => {
+        if (response.status !== 'error' && response.budgetWarning) {
+          log('Translation budget warning for', url, response.budgetWarning);
+        }
         if (response.status === 'translated') {
           log('Translation ready for', url);
+        } else if (response.status === 'partial') {
+          log('Translation partially ready for', url, response.message);
         } else {
           log('Translation failed for', url, response.message);
         }
@@ -167,83 +574,184 @@ const translateMessageHandler = createTranslateMessageHandler();
 
 extensionBrowser.runtime.onMessage.addListener(translateMessageHandler);
 
-// Track active and completed translations to prevent duplicates
+// Latest reported playhead (in seconds) per tab, used to prioritise the batches being watched
+const playbackPositions = new Map<number, number>();
+
+export const createPlaybackPositionHandler = (positions: Map<number, number>) => {
+  return (message: unknown, sender: chrome.runtime.MessageSender) => {
+    const { type, currentTime } = (message ?? {}) as Partial<PlaybackPositionMessage>;
+    if (type !== 'PLAYBACK_POSITION') {
+      return undefined;
+    }
+
+    const tabId = sender.tab?.id;
+    if (tabId !== undefined && typeof currentTime === 'number' && Number.isFinite(currentTime)) {
+      positions.set(tabId, currentTime);
+    }
+    return false;
+  };
+};
+
+extensionBrowser.runtime.onMessage.addListener(createPlaybackPositionHandler(playbackPositions));
+
+// Track active and completed translations to prevent duplicates within this worker lifetime;
+// translations that survive suspension are served from the persistent translation cache.
 const translationPromises = new Map<string, Promise<TranslationResponse>>();
 
+const broadcastToArteTabs = (message: VttTranslatedMessage | VttTranslationProgressMessage): void => {
+  extensionBrowser.tabs.query({ url: 'https://www.arte.tv/*' }).then((tabs) => {
+    tabs.forEach((tab) => {
+      if (tab.id) {
+        extensionBrowser.tabs.sendMessage(tab.id, message).catch(() => {
+          // Content script might not be ready yet
+        });
+      }
+    });
+  });
+};
+
+const broadcastTranslatedVtt = (url: string, response: TranslationSuccessResponse | TranslationPartialResponse): void => {
+  broadcastToArteTabs({
+    type: 'VTT_TRANSLATED',
+    url: url,
+    translatedVtt: response.translatedVtt,
+    mapping: response.mapping
+  });
+};
+
+// Delay before each background retry of a partial translation. Retries re-run the whole pipeline:
+// cues that already succeeded are served from the translation memory, so only failed cues reach the
+// provider again. Timers do not survive worker suspension; the next subtitle request starts over then.
+const FAILED_CUE_RETRY_DELAYS_MS = [60_000, 5 * 60_000, 15 * 60_000];
+
+type SubtitleRequestDeps = {
+  loadSettingsFn?: () => Promise<TranslationSettings>;
+  pipeline?: (request: TranslationPipelineRequest, deps?: TranslationPipelineDeps) => Promise<TranslationResponse>;
+  getPlaybackPosition?: () => number | undefined;
+  getProgramme?: () => Promise<ArteProgramme | undefined>;
+  scheduleRetryFn?: (callback: () => void, delayMs: number) => void;
+};
+
+const readTabProgramme = async (tabId: number): Promise<ArteProgramme | undefined> =>
+  tabId < 0 ? undefined : describeArteTab(await extensionBrowser.tabs.get(tabId));
+
+// Page details only refine the settings and prompt, so failing to read them never holds up the translation
+const readProgramme = async (deps: SubtitleRequestDeps): Promise<ArteProgramme> => {
+  try {
+    return (await deps.getProgramme?.()) ?? {};
+  } catch (error) {
+    log('Unable to read the programme details:', error);
+    return {};
+  }
+};
+
+const startSubtitleTranslation = (
+  url: string,
+  request: TranslationPipelineRequest,
+  deps: SubtitleRequestDeps,
+  attempt: number
+): void => {
+  const pipeline = deps.pipeline ?? runTranslationPipeline;
+  const scheduleRetryFn = deps.scheduleRetryFn ?? setTimeout;
+  const baseUrl = url.split('?')[0];
+
+  // Create and store the translation promise, streaming partial mappings as batches complete
+  const promise = pipeline(request, {
+    onProgress: (progress) => {
+      broadcastToArteTabs({ type: 'VTT_TRANSLATION_PROGRESS', url, ...progress });
+    },
+    getPlaybackPosition: deps.getPlaybackPosition
+  });
+
+  translationPromises.set(baseUrl, promise);
+
+  promise.then((response) => {
+    if (response.status === 'error') {
+      // If failed, remove from cache so we can try again later
+      translationPromises.delete(baseUrl);
+      return;
+    }
+
+    log('Translation completed, sending to content script:', url);
+    broadcastTranslatedVtt(url, response);
+
+    if (response.status !== 'partial') {
+      return;
+    }
+
+    // Retrying within minutes cannot help once the budget is spent; a later request starts afresh
+    if (response.budgetExceeded) {
+      log('Not retrying failed cues, the spending budget is exhausted:', url, response.failedCueIndexes);
+      translationPromises.delete(baseUrl);
+      return;
+    }
+
+    const retryDelay = FAILED_CUE_RETRY_DELAYS_MS[attempt];
+    if (retryDelay === undefined) {
+      log('Giving up on failed cues after background retries:', url, response.failedCueIndexes);
+      translationPromises.delete(baseUrl);
+      return;
+    }
+
+    log('Scheduling retry of failed cues:', url, { failedCueIndexes: response.failedCueIndexes, retryDelay });
+    scheduleRetryFn(() => {
+      if (translationPromises.get(baseUrl) === promise) {
+        startSubtitleTranslation(url, request, deps, attempt + 1);
+      }
+    }, retryDelay);
+  }).catch((error) => {
+    log('Translation failed:', error);
+    translationPromises.delete(baseUrl);
+  });
+};
+
+export const handleSubtitleRequest = async (url: string, deps: SubtitleRequestDeps = {}): Promise<void> => {
+  const loadSettingsFn = deps.loadSettingsFn ?? loadTranslationSettings;
+
+  // Read before the duplicate check so nothing is awaited between the check and the registration
+  const tabProgramme = await readProgramme(deps);
+  const settings = resolveProgrammeSettings(await loadSettingsFn(), { ...tabProgramme, ...extractArteProgramme(url) });
+  const sourceLanguage = detectArteSubtitleLanguage(url, settings.sourceLanguages);
+  if (!sourceLanguage || sourceLanguage === settings.targetLanguage) {
+    return;
+  }
+
+  const baseUrl = url.split('?')[0];
+
+  // Check if we're already handling this URL
+  const existing = translationPromises.get(baseUrl);
+  if (existing) {
+    log('Request for already handled VTT:', baseUrl);
+    // If it's already done, resend the result to the tab
+    // in case the content script missed it (e.g. page reload)
+    existing.then((response) => {
+      if (response.status !== 'error') {
+        broadcastTranslatedVtt(url, response);
+      }
+    });
+    return;
+  }
+
+  log('Detected new subtitle request:', { url, sourceLanguage, targetLanguage: settings.targetLanguage, ...tabProgramme });
+  startSubtitleTranslation(
+    url,
+    { url, sourceLanguage, targetLanguage: settings.targetLanguage, ...toProgrammeFields(tabProgramme) },
+    deps,
+    0
+  );
+};
+
 // Intercept VTT subtitle requests and pre-translate them
 extensionBrowser.webRequest.onBeforeRequest.addListener(
   (details) => {
     const url = details.url;
 
-    // Check if this is a French VTT file from ARTE
     if (url.includes('.vtt') && url.includes('arte-cmafhls.akamaized.net')) {
-      // Check if it's a French subtitle (VF = Version Française)
-      if (url.includes('_st_VF') || url.includes('_VF-')) {
-        const baseUrl = url.split('?')[0];
-
-        // Check if we're already handling this URL
-        if (translationPromises.has(baseUrl)) {
-          log('Request for already handled VTT:', baseUrl);
-          // If it's already done, we might want to resend the result to the tab
-          // in case the content script missed it (e.g. page reload)
-          translationPromises.get(baseUrl)?.then((response) => {
-            if (response.status === 'translated') {
-              extensionBrowser.tabs.query({ url: 'https://www.arte.tv/*' }).then((tabs) => {
-                tabs.forEach((tab) => {
-                  if (tab.id) {
-                    extensionBrowser.tabs.sendMessage(tab.id, {
-                      type: 'VTT_TRANSLATED',
-                      url: url,
-                      translatedVtt: response.translatedVtt,
-                      mapping: response.mapping
-                    }).catch(() => { });
-                  }
-                });
-              });
-            }
-          });
-          return {};
-        }
-
-        log('Detected new French VTT request:', url);
-
-        // Create and store the translation promise
-        const promise = runTranslationPipeline({
-          url: url,
-          sourceLanguage: 'fr',
-          targetLanguage: 'en'
-        });
-
-        translationPromises.set(baseUrl, promise);
-
-        promise.then((response) => {
-          if (response.status === 'translated') {
-            log('Translation completed, sending to content script:', url);
-
-            // Send translated VTT to all ARTE tabs
-            extensionBrowser.tabs.query({ url: 'https://www.arte.tv/*' }).then((tabs) => {
-              tabs.forEach((tab) => {
-                if (tab.id) {
-                  extensionBrowser.tabs.sendMessage(tab.id, {
-                    type: 'VTT_TRANSLATED',
-                    url: url,
-                    translatedVtt: response.translatedVtt,
-                    mapping: response.mapping
-                  }).catch(() => {
-                    // Content script might not be ready yet
-                  });
-                }
-              });
-            });
-          } else {
-            // If failed, remove from cache so we can try again later
-            translationPromises.delete(baseUrl);
-          }
-        }).catch((error) => {
-          log('Translation failed:', error);
-          translationPromises.delete(baseUrl);
-        });
-      }
+      const getPlaybackPosition = () => playbackPositions.get(details.tabId);
+      const getProgramme = () => readTabProgramme(details.tabId);
+      handleSubtitleRequest(url, { getPlaybackPosition, getProgramme }).catch((error) => {
+        log('Unable to handle subtitle request:', error);
+      });
     }
 
     return {}; // Don't block the request
@@ -1,5 +1,11 @@
 import { sendRuntimeMessage } from '../shared/browser';
-import { TranslateVttMessage, TranslationResponse } from '../shared/messages';
+import {
+  PlaybackPositionMessage,
+  TranslateVttMessage,
+  TranslationResponse,
+  VttTranslatedMessage,
+  VttTranslationProgressMessage
+} from '../shared/messages';
 
 const log = (...args: unknown[]): void => {
   console.log('[Arte Subtitle Translator]', ...args);
@@ -26,25 +32,72 @@ const applyTranslationsToDocument = (): void => {
   processElementTree(document.body);
 };
 
-chrome.runtime.onMessage.addListener((message) => {
+// Merge a (possibly partial) mapping into the lookup table and re-apply it to visible subtitles
+const mergeTranslationMapping = (mapping: Record<string, string>): number => {
+  let count = 0;
+  for (const [original, translated] of Object.entries(mapping)) {
+    // Normalize keys for robust matching
+    const normalizedKey = original.replace(/\s+/g, ' ').trim();
+    translationMap.set(normalizedKey, translated);
+    count++;
+  }
+  applyTranslationsToDocument();
+  return count;
+};
+
+chrome.runtime.onMessage.addListener((message: VttTranslatedMessage | VttTranslationProgressMessage) => {
   if (message.type === 'VTT_TRANSLATED') {
     log('Received translated VTT with mapping');
 
     if (message.mapping) {
-      const mapping = message.mapping as Record<string, string>;
-      let count = 0;
-      for (const [original, translated] of Object.entries(mapping)) {
-        // Normalize keys for robust matching
-        const normalizedKey = original.replace(/\s+/g, ' ').trim();
-        translationMap.set(normalizedKey, translated);
-        count++;
-      }
+      const count = mergeTranslationMapping(message.mapping);
       log(`Loaded ${count} translation mappings`);
-      applyTranslationsToDocument();
     }
+  } else if (message.type === 'VTT_TRANSLATION_PROGRESS') {
+    mergeTranslationMapping(message.mapping);
+    log(`Translated ${message.translatedCount} of ${message.totalCount} cues`);
   }
 });
 
+// Report the playhead so the background translates the cues being watched first.
+// Regular playback is throttled; seeks are reported immediately to re-prioritise translation.
+const PLAYBACK_REPORT_INTERVAL_SECONDS = 5;
+let lastReportedTime: number | null = null;
+
+const reportPlaybackPosition = (video: HTMLVideoElement, force: boolean): void => {
+  const currentTime = video.currentTime;
+  if (!force && lastReportedTime !== null && Math.abs(currentTime - lastReportedTime) < PLAYBACK_REPORT_INTERVAL_SECONDS) {
+    return;
+  }
+
+  lastReportedTime = currentTime;
+  const message: PlaybackPositionMessage = { type: 'PLAYBACK_POSITION', currentTime };
+  sendRuntimeMessage(message).catch(() => {
+    // Background worker might be restarting
+  });
+};
+
+// Media events do not bubble, so listen during capture to also cover players inserted later
+document.addEventListener(
+  'timeupdate',
+  (event) => {
+    if (event.target instanceof HTMLVideoElement) {
+      reportPlaybackPosition(event.target, false);
+    }
+  },
+  true
+);
+
+document.addEventListener(
+  'seeked',
+  (event) => {
+    if (event.target instanceof HTMLVideoElement) {
+      reportPlaybackPosition(event.target, true);
+    }
+  },
+  true
+);
+
 // MutationObserver to watch for subtitles in the DOM
 const observer = new MutationObserver((mutations) => {
   mutations.forEach((mutation) => {
@@ -1,35 +1,116 @@
+import { isSupportedLanguage } from '../shared/arte-languages';
 import { extensionBrowser } from '../shared/browser';
+import type { StorageAreaLike } from '../shared/storage';
 import {
   DEFAULT_TRANSLATION_SETTINGS,
-  SUPPORTED_TRANSLATION_PROVIDERS,
+  migrateStoredSettings,
+  splitSettingsByArea,
+  type TranslationProviderConfig,
   type TranslationSettings
 } from '../shared/translation-settings';
+import { getTranslationProvider, isSupportedProvider, listTranslationProviders } from '../shared/providers/registry';
+import { DEEPL_FORMALITIES, type DeeplFormality } from '../shared/providers/deepl';
+import { listProviderModels } from '../shared/translation-adapter';
+import {
+  computeHitRate,
+  createTranslationMemory,
+  type TranslationMemoryStats
+} from '../shared/translation-memory';
+import { createUsageLedger, type UsageCostLine, type UsageSummary } from '../shared/usage-ledger';
+import { isPriceTable } from '../shared/usage-pricing';
+import {
+  PROMPT_PRESETS,
+  findUnknownPromptVariables,
+  isPromptTemplateChoice,
+  type PromptTemplateChoice
+} from '../shared/providers/prompt-templates';
+import { buildSystemPrompt, buildUserPayload } from '../shared/providers/llm-json';
+import type { ProviderBatch } from '../shared/providers/types';
+import { formatGlossaryText, parseGlossaryText } from '../shared/glossary';
+import { findTranslationProfileError, type TranslationProfile } from '../shared/translation-profiles';
+import {
+  BUDGET_PERIODS,
+  BUDGET_UNITS,
+  formatBudgetAmount,
+  measureSpending,
+  type BudgetPeriod,
+  type BudgetSettings,
+  type BudgetUnit
+} from '../shared/spending-budget';
 
 type OptionsFormValues = TranslationSettings;
 
 const DEFAULT_OPTIONS: OptionsFormValues = { ...DEFAULT_TRANSLATION_SETTINGS };
 
-const isSupportedProvider = (value: string): value is OptionsFormValues['provider'] => {
-  return SUPPORTED_TRANSLATION_PROVIDERS.includes(value as OptionsFormValues['provider']);
+const translationMemory = createTranslationMemory();
+const usageLedger = createUsageLedger();
+
+const MAX_LISTED_VIDEOS = 5;
+
+// Fractions of a cent matter for single episodes, so small amounts keep four decimals
+const formatCost = (cost: number): string => `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+
+const formatUsageLine = (label: string, line: UsageCostLine): string => {
+  const { inputTokens, outputTokens, characters, requests } = line.totals;
+  return `${label}: ${formatCost(line.cost)} (${requests} requests, ${inputTokens} input and ${outputTokens} output tokens, ${characters} characters)`;
+};
+
+const getProviderLabel = (providerId: string): string =>
+  isSupportedProvider(providerId) ? getTranslationProvider(providerId).label : providerId;
+
+// Empty fields fall back to the default; anything else must be a positive whole number
+const readWholeNumber = (value: ReturnType<FormData['get']>, fallback: number, min = 1): number | null => {
+  const text = String(value ?? '').trim();
+  if (text === '') {
+    return fallback;
+  }
+
+  const parsed = Number(text);
+  return Number.isInteger(parsed) && parsed >= min ? parsed : null;
 };
 
-const getSyncStorage = async (): Promise<OptionsFormValues> => {
+// Empty fields fall back to the default; anything else must be a number of zero or more
+const readNonNegativeNumber = (value: ReturnType<FormData['get']>, fallback: number): number | null => {
+  const text = String(value ?? '').trim();
+  if (text === '') {
+    return fallback;
+  }
+
+  const parsed = Number(text);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+// Sample cues the prompt preview is rendered against; languages follow the form
+const PROMPT_PREVIEW_BATCH: ProviderBatch = {
+  segments: ['Tu as vu Lucie ce matin ?', 'Non, elle était déjà partie pour Marseille.'],
+  contextBefore: ['On frappe à la porte.'],
+  contextAfter: ['Elle revient quand ?'],
+  sourceLanguage: 'fr',
+  targetLanguage: 'en',
+  showTitle: 'Les Papillons noirs',
+  glossary: [{ source: 'Lucie', target: 'Lucie' }]
+};
+
+const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = { day: 'Today', month: 'This month' };
+
+const readStorageArea = async (
+  storageArea: StorageAreaLike,
+  defaults: Partial<OptionsFormValues>
+): Promise<Partial<OptionsFormValues>> => {
   return new Promise((resolve, reject) => {
-    const storageArea = extensionBrowser.storage.sync ?? extensionBrowser.storage.local;
-    storageArea.get(DEFAULT_OPTIONS, (items) => {
+    storageArea.get(defaults, (items) => {
       const error = extensionBrowser.runtime.lastError;
       if (error) {
         reject(error);
         return;
       }
-      resolve(items as OptionsFormValues);
+      resolve(items as Partial<OptionsFormValues>);
     });
   });
 };
 
-const setSyncStorage = async (values: OptionsFormValues): Promise<void> => {
+const writeStorageArea = async (storageArea: StorageAreaLike, values: Partial<OptionsFormValues>): Promise<void> => {
   return new Promise((resolve, reject) => {
-    const storageArea = extensionBrowser.storage.sync ?? extensionBrowser.storage.local;
     storageArea.set(values, () => {
       const error = extensionBrowser.runtime.lastError;
       if (error) {
@@ -41,10 +122,31 @@ const setSyncStorage = async (values: OptionsFormValues): Promise<void> => {
   });
 };
 
+// Most options are synced; the lists that can outgrow a sync item stay in local storage
+const getStoredOptions = async (): Promise<OptionsFormValues> => {
+  const { sync, local } = extensionBrowser.storage;
+  const synced = await readStorageArea(sync ?? local, DEFAULT_OPTIONS);
+  // Lists saved in sync storage by earlier versions are shown until the options are saved again
+  const { local: localDefaults } = splitSettingsByArea({ ...DEFAULT_OPTIONS, ...synced });
+  return migrateStoredSettings({ ...synced, ...(await readStorageArea(local, localDefaults)) }) as OptionsFormValues;
+};
+
+const setStoredOptions = async (values: OptionsFormValues): Promise<void> => {
+  const { sync, local } = extensionBrowser.storage;
+  const { synced, local: localValues } = splitSettingsByArea(values);
+  await writeStorageArea(sync ?? local, synced);
+  await writeStorageArea(local, localValues);
+};
+
 export class OptionsPage {
+  // Last custom template, kept while a preset is shown in the read-only editor
+  private customPromptTemplate = '';
+
   constructor(
     private formEl: HTMLFormElement | null,
-    private statusEl: HTMLElement | null
+    private statusEl: HTMLElement | null,
+    private memoryStatsEl: HTMLElement | null = null,
+    private usageSummaryEl: HTMLElement | null = null
   ) { }
 
   renderStatus(message: string, isError = false): void {
@@ -56,23 +158,263 @@ export class OptionsPage {
     this.statusEl.dataset.state = isError ? 'error' : 'success';
   }
 
+  renderProviderOptions(): void {
+    const select = this.formEl?.querySelector<HTMLSelectElement>('select[name="provider"]');
+    if (!select) {
+      return;
+    }
+
+    const selected = select.value;
+    select.replaceChildren(
+      ...listTranslationProviders().map((provider) => new Option(provider.label, provider.id, false, provider.id === selected))
+    );
+
+    this.formEl!.querySelectorAll<HTMLSelectElement>('select[name="fallbackProvider"]').forEach((fallbackSelect) => {
+      const fallbackSelected = fallbackSelect.value;
+      fallbackSelect.replaceChildren(
+        new Option('None', ''),
+        ...listTranslationProviders().map(
+          (provider) => new Option(provider.label, provider.id, false, provider.id === fallbackSelected)
+        )
+      );
+    });
+  }
+
+  renderPromptPresets(): void {
+    const select = this.formEl?.querySelector<HTMLSelectElement>('select[name="promptPreset"]');
+    if (!select) {
+      return;
+    }
+
+    const selected = select.value || DEFAULT_OPTIONS.promptPreset;
+    select.replaceChildren(
+      ...Object.entries(PROMPT_PRESETS).map(
+        ([id, preset]) => new Option(preset.label, id, false, id === selected)
+      ),
+      new Option('Custom', 'custom', false, selected === 'custom')
+    );
+  }
+
+  // Presets are shown read-only; switching to Custom keeps the shown text as a starting point
+  // unless a custom template was already written.
+  renderPromptEditor(): void {
+    const preset = this.formEl?.querySelector<HTMLSelectElement>('select[name="promptPreset"]')?.value ?? '';
+    const editor = this.formEl?.querySelector<HTMLTextAreaElement>('[name="customPromptTemplate"]');
+    if (!editor || !isPromptTemplateChoice(preset)) {
+      return;
+    }
+
+    editor.readOnly = preset !== 'custom';
+    if (preset === 'custom') {
+      editor.value = this.customPromptTemplate || editor.value;
+      this.customPromptTemplate = editor.value;
+    } else {
+      editor.value = PROMPT_PRESETS[preset].template;
+    }
+    this.renderPromptPreview();
+  }
+
+  renderPromptPreview(): void {
+    const previewEl = this.formEl?.querySelector<HTMLElement>('[data-prompt-preview]');
+    const editor = this.formEl?.querySelector<HTMLTextAreaElement>('[name="customPromptTemplate"]');
+    if (!previewEl || !editor) {
+      return;
+    }
+
+    const unknownVariables = findUnknownPromptVariables(editor.value);
+    const batch: ProviderBatch = {
+      ...PROMPT_PREVIEW_BATCH,
+      sourceLanguage:
+        this.formEl!.querySelector<HTMLInputElement>('[name="sourceLanguages"]:checked')?.value ??
+        PROMPT_PREVIEW_BATCH.sourceLanguage,
+      targetLanguage:
+        this.formEl!.querySelector<HTMLSelectElement>('[name="targetLanguage"]')?.value ||
+        PROMPT_PREVIEW_BATCH.targetLanguage
+    };
+    const systemPrompt = buildSystemPrompt(batch, { promptPreset: 'custom', customPromptTemplate: editor.value });
+    previewEl.textContent = [
+      ...(unknownVariables.length > 0 ? [`Unknown variables: ${unknownVariables.join(', ')}`] : []),
+      systemPrompt,
+      JSON.stringify(buildUserPayload(batch), null, 2)
+    ].join('\n\n');
+  }
+
+  // Fills the fallback slots in order; slots beyond the saved chain are cleared
+  populateFallbackProviders(configs: TranslationProviderConfig[]): void {
+    this.formEl?.querySelectorAll<HTMLElement>('[data-fallback-provider]').forEach((slot, position) => {
+      const config = configs[position];
+      const setValue = (name: string, value: string | undefined): void => {
+        const input = slot.querySelector<HTMLInputElement | HTMLSelectElement>(`[name="${name}"]`);
+        if (input) {
+          input.value = value ?? '';
+        }
+      };
+      setValue('fallbackProvider', config?.provider);
+      setValue('fallbackApiBaseUrl', config?.apiBaseUrl);
+      setValue('fallbackApiKey', config?.apiKey);
+      setValue('fallbackModel', config?.model);
+    });
+  }
+
+  // Reflects the selected provider's capabilities in the key and model fields. Fields stay enabled so
+  // values saved for another provider are kept when switching back and forth.
+  renderProviderHints(): void {
+    const providerId = this.formEl?.querySelector<HTMLSelectElement>('select[name="provider"]')?.value ?? '';
+    if (!isSupportedProvider(providerId)) {
+      return;
+    }
+
+    const provider = getTranslationProvider(providerId);
+    const apiKeyInput = this.formEl!.querySelector<HTMLInputElement>('[name="apiKey"]');
+    if (apiKeyInput) {
+      apiKeyInput.required = provider.capabilities.requiresApiKey;
+      apiKeyInput.placeholder = provider.capabilities.requiresApiKey ? 'Secret token' : `Not needed for ${provider.label}`;
+    }
+    const modelInput = this.formEl!.querySelector<HTMLInputElement>('[name="model"]');
+    if (modelInput) {
+      modelInput.placeholder = provider.capabilities.supportsModelSelection ? provider.defaultModel : 'Not configurable';
+    }
+    const apiBaseUrlInput = this.formEl!.querySelector<HTMLInputElement>('[name="apiBaseUrl"]');
+    if (apiBaseUrlInput) {
+      apiBaseUrlInput.placeholder = provider.defaultBaseUrl || 'Not needed';
+    }
+    this.formEl!.querySelectorAll<HTMLElement>('[data-provider-settings]').forEach((section) => {
+      section.hidden = section.dataset.providerSettings !== provider.id;
+    });
+    const connectionTestButton = this.formEl!.querySelector<HTMLButtonElement>('[data-connection-test]');
+    if (connectionTestButton) {
+      connectionTestButton.hidden = !provider.modelListing;
+    }
+  }
+
+  // Lists the models the configured server offers, using the unsaved form values
+  async testConnection(fetchFn: typeof fetch = fetch): Promise<void> {
+    const resultEl = this.formEl?.querySelector<HTMLElement>('[data-connection-status]');
+    const values = this.readFormValues();
+    if (!resultEl || !values) {
+      return;
+    }
+
+    resultEl.textContent = 'Testing connection…';
+    delete resultEl.dataset.state;
+    try {
+      const models = await listProviderModels(values, fetchFn);
+      resultEl.textContent =
+        models.length > 0 ? `Connected. Available: ${models.join(', ')}` : 'Connected, but nothing is installed yet';
+      resultEl.dataset.state = 'success';
+    } catch (error) {
+      resultEl.textContent = error instanceof Error ? error.message : String(error);
+      resultEl.dataset.state = 'error';
+    }
+  }
+
+  renderMemoryStats(stats: TranslationMemoryStats): void {
+    if (!this.memoryStatsEl) {
+      return;
+    }
+
+    const lookups = stats.hits + stats.misses;
+    const hitRate = Math.round(computeHitRate(stats) * 100);
+    this.memoryStatsEl.textContent = `${stats.hits} of ${lookups} cues reused (${hitRate}% hit rate)`;
+  }
+
+  async loadMemoryStats(): Promise<void> {
+    if (!this.memoryStatsEl) {
+      return;
+    }
+
+    try {
+      this.renderMemoryStats(await translationMemory.getStats());
+    } catch (error) {
+      this.memoryStatsEl.textContent = `Unable to load translation memory statistics: ${String(error)}`;
+    }
+  }
+
+  renderUsageSummary(summary: UsageSummary, budgetLine: string | null = null): void {
+    if (!this.usageSummaryEl) {
+      return;
+    }
+
+    const lines = [
+      ...(budgetLine ? [budgetLine] : []),
+      formatUsageLine('Today', summary.today),
+      ...summary.providers.map((line) => formatUsageLine(getProviderLabel(line.key), line)),
+      ...summary.videos.slice(0, MAX_LISTED_VIDEOS).map((line) => formatUsageLine(line.key, line))
+    ];
+    const list = document.createElement('ul');
+    list.replaceChildren(
+      ...lines.map((line) => {
+        const item = document.createElement('li');
+        item.textContent = line;
+        return item;
+      })
+    );
+    this.usageSummaryEl.replaceChildren(list);
+  }
+
+  async loadUsageSummary(settings: Pick<OptionsFormValues, 'priceTable'> & BudgetSettings): Promise<void> {
+    if (!this.usageSummaryEl) {
+      return;
+    }
+
+    try {
+      const summary = await usageLedger.getSummary(settings.priceTable);
+      let budgetLine: string | null = null;
+      if (settings.budgetLimit > 0) {
+        const spending = await usageLedger.getSpending(settings.budgetPeriod, settings.priceTable);
+        const spent = formatBudgetAmount(measureSpending(spending, settings.budgetUnit), settings.budgetUnit);
+        const limit = formatBudgetAmount(settings.budgetLimit, settings.budgetUnit);
+        budgetLine = `${BUDGET_PERIOD_LABELS[settings.budgetPeriod]}: ${spent} of the ${limit} budget used`;
+      }
+      this.renderUsageSummary(summary, budgetLine);
+    } catch (error) {
+      this.usageSummaryEl.textContent = `Unable to load usage: ${String(error)}`;
+    }
+  }
+
   populateForm(values: OptionsFormValues): void {
     if (!this.formEl) {
       return;
     }
 
+    this.populateFallbackProviders(values.fallbackProviders ?? []);
+    this.customPromptTemplate = values.customPromptTemplate ?? '';
+    const glossaryInput = this.formEl.querySelector<HTMLTextAreaElement>('[name="glossary"]');
+    if (glossaryInput) {
+      glossaryInput.value = formatGlossaryText(values.glossaries ?? []);
+    }
+    const profilesInput = this.formEl.querySelector<HTMLTextAreaElement>('[name="translationProfiles"]');
+    if (profilesInput) {
+      profilesInput.value = values.translationProfiles?.length ? JSON.stringify(values.translationProfiles, null, 2) : '';
+    }
+    const priceTableInput = this.formEl.querySelector<HTMLTextAreaElement>('[name="priceTable"]');
+    if (priceTableInput && values.priceTable) {
+      priceTableInput.value = JSON.stringify(values.priceTable, null, 2);
+    }
     Object.entries(values).forEach(([key, value]) => {
-      if (typeof value !== 'string') {
+      if (Array.isArray(value)) {
+        this.formEl!.querySelectorAll<HTMLInputElement>(`input[type="checkbox"][name="${key}"]`).forEach(
+          (checkbox) => {
+            checkbox.checked = (value as unknown[]).includes(checkbox.value);
+          }
+        );
+        return;
+      }
+
+      if (typeof value !== 'string' && typeof value !== 'number') {
         return;
       }
 
       const input = this.formEl!.querySelector<HTMLInputElement | HTMLSelectElement>(
         `[name="${key}"]`
       );
-      if (input) {
-        input.value = value;
+      if (!input || (typeof value === 'number' && input.type !== 'number')) {
+        return;
       }
+
+      input.value = String(value);
     });
+    this.renderPromptEditor();
   }
 
   readFormValues(): OptionsFormValues | null {
@@ -85,13 +427,196 @@ export class OptionsPage {
     const apiBaseUrl = String(formData.get('apiBaseUrl') ?? '').trim();
     const apiKey = String(formData.get('apiKey') ?? '').trim();
     const model = String(formData.get('model') ?? '').trim();
+    const sourceLanguages = formData.getAll('sourceLanguages').map(String).filter(isSupportedLanguage);
+    const targetLanguage = String(formData.get('targetLanguage') ?? '').trim();
+    const maxConcurrentRequests = readWholeNumber(
+      formData.get('maxConcurrentRequests'),
+      DEFAULT_OPTIONS.maxConcurrentRequests
+    );
+    const requestsPerMinute = readWholeNumber(formData.get('requestsPerMinute'), DEFAULT_OPTIONS.requestsPerMinute);
+    const contextWindowSize = readWholeNumber(formData.get('contextWindowSize'), DEFAULT_OPTIONS.contextWindowSize, 0);
+    const maxCharactersPerSecond = readNonNegativeNumber(
+      formData.get('maxCharactersPerSecond'),
+      DEFAULT_OPTIONS.maxCharactersPerSecond
+    );
+    const maxLineLength = readWholeNumber(formData.get('maxLineLength'), DEFAULT_OPTIONS.maxLineLength, 0);
+    const deeplFormality = String(formData.get('deeplFormality') ?? DEFAULT_OPTIONS.deeplFormality);
+    const deeplGlossaryId = String(formData.get('deeplGlossaryId') ?? '').trim();
+    const googleProjectId = String(formData.get('googleProjectId') ?? '').trim();
+    const googleLocation = String(formData.get('googleLocation') ?? '').trim() || DEFAULT_OPTIONS.googleLocation;
+    const azureRegion = String(formData.get('azureRegion') ?? '').trim();
+    const readAll = (name: string): string[] => formData.getAll(name).map((value) => String(value).trim());
+    const fallbackApiBaseUrls = readAll('fallbackApiBaseUrl');
+    const fallbackApiKeys = readAll('fallbackApiKey');
+    const fallbackModels = readAll('fallbackModel');
+    const fallbackProviderInputs = readAll('fallbackProvider');
+    const priceTableInput = String(formData.get('priceTable') ?? '').trim();
+    const profilesInput = String(formData.get('translationProfiles') ?? '').trim();
+    const defaultTranslationProfile = String(formData.get('defaultTranslationProfile') ?? '').trim();
+    const { glossaries, errors: glossaryErrors } = parseGlossaryText(String(formData.get('glossary') ?? ''));
+    const promptPreset = String(formData.get('promptPreset') ?? DEFAULT_OPTIONS.promptPreset);
+    const customPromptTemplate =
+      promptPreset === 'custom' ? String(formData.get('customPromptTemplate') ?? '') : this.customPromptTemplate;
+    const budgetLimit = readNonNegativeNumber(formData.get('budgetLimit'), DEFAULT_OPTIONS.budgetLimit);
+    const budgetPeriod = String(formData.get('budgetPeriod') ?? DEFAULT_OPTIONS.budgetPeriod);
+    const budgetUnit = String(formData.get('budgetUnit') ?? DEFAULT_OPTIONS.budgetUnit);
+    const budgetWarningPercent = readWholeNumber(
+      formData.get('budgetWarningPercent'),
+      DEFAULT_OPTIONS.budgetWarningPercent
+    );
 
     if (!isSupportedProvider(providerInput)) {
       this.renderStatus('Provider is required', true);
       return null;
     }
 
-    return { provider: providerInput, apiBaseUrl, apiKey, model };
+    if (sourceLanguages.length === 0) {
+      this.renderStatus('Select at least one subtitle language to translate', true);
+      return null;
+    }
+
+    if (!isSupportedLanguage(targetLanguage)) {
+      this.renderStatus('Target language is required', true);
+      return null;
+    }
+
+    if (maxConcurrentRequests === null || requestsPerMinute === null) {
+      this.renderStatus('Concurrency and rate limit must be positive whole numbers', true);
+      return null;
+    }
+
+    if (contextWindowSize === null) {
+      this.renderStatus('Context cues must be a whole number of zero or more', true);
+      return null;
+    }
+
+    if (maxCharactersPerSecond === null) {
+      this.renderStatus('Reading speed must be a number of zero or more', true);
+      return null;
+    }
+
+    if (maxLineLength === null) {
+      this.renderStatus('Line width must be a whole number of zero or more', true);
+      return null;
+    }
+
+    if (!DEEPL_FORMALITIES.includes(deeplFormality as DeeplFormality)) {
+      this.renderStatus('DeepL formality is not supported', true);
+      return null;
+    }
+
+    if (!isPromptTemplateChoice(promptPreset)) {
+      this.renderStatus('Translation style is not supported', true);
+      return null;
+    }
+
+    if (promptPreset === 'custom' && !customPromptTemplate.trim()) {
+      this.renderStatus('Custom prompt template cannot be empty', true);
+      return null;
+    }
+
+    const unknownVariables = findUnknownPromptVariables(customPromptTemplate);
+    if (promptPreset === 'custom' && unknownVariables.length > 0) {
+      this.renderStatus(`Unknown prompt template variables: ${unknownVariables.join(', ')}`, true);
+      return null;
+    }
+
+    if (glossaryErrors.length > 0) {
+      this.renderStatus(`Glossary: ${glossaryErrors[0]}`, true);
+      return null;
+    }
+
+    let translationProfiles: unknown = [];
+    try {
+      translationProfiles = profilesInput ? JSON.parse(profilesInput) : [];
+    } catch {
+      translationProfiles = null;
+    }
+    const profileError = findTranslationProfileError(translationProfiles);
+    if (profileError) {
+      this.renderStatus(profileError, true);
+      return null;
+    }
+
+    const profiles = translationProfiles as TranslationProfile[];
+    if (defaultTranslationProfile && !profiles.some((profile) => profile.name === defaultTranslationProfile)) {
+      this.renderStatus('Default profile must be the name of one of the profiles', true);
+      return null;
+    }
+
+    let priceTable: unknown = DEFAULT_OPTIONS.priceTable;
+    try {
+      priceTable = priceTableInput ? JSON.parse(priceTableInput) : DEFAULT_OPTIONS.priceTable;
+    } catch {
+      priceTable = null;
+    }
+    if (!isPriceTable(priceTable)) {
+      this.renderStatus('Prices must be a JSON object mapping providers to their prices', true);
+      return null;
+    }
+
+    if (budgetLimit === null) {
+      this.renderStatus('Budget must be a number of zero or more', true);
+      return null;
+    }
+
+    if (!BUDGET_PERIODS.includes(budgetPeriod as BudgetPeriod) || !BUDGET_UNITS.includes(budgetUnit as BudgetUnit)) {
+      this.renderStatus('Budget period or unit is not supported', true);
+      return null;
+    }
+
+    if (budgetWarningPercent === null || budgetWarningPercent > 100) {
+      this.renderStatus('Budget warning must be a whole percentage between 1 and 100', true);
+      return null;
+    }
+
+    // Slots left on "None" are dropped; the remaining ones keep their order
+    const fallbackProviders: TranslationProviderConfig[] = [];
+    for (const [position, fallbackProvider] of fallbackProviderInputs.entries()) {
+      if (fallbackProvider === '') {
+        continue;
+      }
+      if (!isSupportedProvider(fallbackProvider)) {
+        this.renderStatus('Fallback provider is not supported', true);
+        return null;
+      }
+      fallbackProviders.push({
+        provider: fallbackProvider,
+        apiBaseUrl: fallbackApiBaseUrls[position] ?? '',
+        apiKey: fallbackApiKeys[position] ?? '',
+        model: fallbackModels[position] ?? ''
+      });
+    }
+
+    return {
+      provider: providerInput,
+      apiBaseUrl,
+      apiKey,
+      model,
+      sourceLanguages,
+      targetLanguage,
+      maxConcurrentRequests,
+      requestsPerMinute,
+      contextWindowSize,
+      maxCharactersPerSecond,
+      maxLineLength,
+      deeplFormality: deeplFormality as DeeplFormality,
+      deeplGlossaryId,
+      googleProjectId,
+      googleLocation,
+      azureRegion,
+      fallbackProviders,
+      promptPreset: promptPreset as PromptTemplateChoice,
+      customPromptTemplate,
+      glossaries,
+      translationProfiles: profiles,
+      defaultTranslationProfile,
+      priceTable,
+      budgetLimit,
+      budgetPeriod: budgetPeriod as BudgetPeriod,
+      budgetUnit: budgetUnit as BudgetUnit,
+      budgetWarningPercent
+    };
   }
 
   async handleSubmit(event: SubmitEvent): Promise<void> {
@@ -102,8 +627,9 @@ export class OptionsPage {
     }
 
     try {
-      await setSyncStorage(values);
+      await setStoredOptions(values);
       this.renderStatus('Saved translation preferences');
+      await this.loadUsageSummary(values);
     } catch (error) {
       this.renderStatus(`Failed to save options: ${String(error)}`, true);
     }
@@ -117,17 +643,45 @@ export class OptionsPage {
     this.formEl.addEventListener('submit', (event) => {
       void this.handleSubmit(event);
     });
+    this.renderProviderOptions();
+    this.renderPromptPresets();
+    this.formEl.querySelector('select[name="promptPreset"]')?.addEventListener('change', () => this.renderPromptEditor());
+    this.formEl.querySelector('[name="customPromptTemplate"]')?.addEventListener('input', (event) => {
+      this.customPromptTemplate = (event.target as HTMLTextAreaElement).value;
+      this.renderPromptPreview();
+    });
+    this.formEl.querySelector('select[name="targetLanguage"]')?.addEventListener('change', () => this.renderPromptPreview());
+    // A base URL belongs to one provider's server, so switching providers starts from the new one's endpoint
+    this.formEl.querySelector('select[name="provider"]')?.addEventListener('change', () => {
+      const apiBaseUrlInput = this.formEl?.querySelector<HTMLInputElement>('[name="apiBaseUrl"]');
+      if (apiBaseUrlInput) {
+        apiBaseUrlInput.value = '';
+      }
+      this.renderProviderHints();
+    });
+    this.formEl.querySelector('[data-connection-test]')?.addEventListener('click', () => {
+      void this.testConnection();
+    });
 
+    let savedValues = DEFAULT_OPTIONS;
     try {
-      const values = await getSyncStorage();
+      const values = await getStoredOptions();
       this.populateForm(values);
+      savedValues = { ...DEFAULT_OPTIONS, ...values };
     } catch (error) {
       this.renderStatus(`Unable to load saved options: ${String(error)}`, true);
     }
+    this.renderProviderHints();
+    this.renderPromptEditor();
+
+    await this.loadMemoryStats();
+    await this.loadUsageSummary(savedValues);
   }
 }
 
 const statusEl = document.querySelector<HTMLElement>('[data-status]');
 const formEl = document.querySelector<HTMLFormElement>('#options-form');
-const page = new OptionsPage(formEl, statusEl);
+const memoryStatsEl = document.querySelector<HTMLElement>('[data-memory-stats]');
+const usageSummaryEl = document.querySelector<HTMLElement>('[data-usage-summary]');
+const page = new OptionsPage(formEl, statusEl, memoryStatsEl, usageSummaryEl);
 void page.init();
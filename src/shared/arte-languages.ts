@@ -0,0 +1,50 @@
+export type ArteLanguage = {
+  code: string;
+  label: string;
+  /** Version codes Arte uses in subtitle file names, e.g. `..._st_VF-MAL.vtt` for French. */
+  trackCodes: string[];
+};
+
+export const ARTE_LANGUAGES: ArteLanguage[] = [
+  { code: 'fr', label: 'French', trackCodes: ['VF', 'VOF'] },
+  { code: 'de', label: 'German', trackCodes: ['VA', 'VOA'] },
+  { code: 'en', label: 'English', trackCodes: ['VE', 'VE[ANG]', 'VEANG', 'VANG'] },
+  { code: 'es', label: 'Spanish', trackCodes: ['VE[ESP]', 'VEESP', 'VESP'] },
+  { code: 'pl', label: 'Polish', trackCodes: ['VE[POL]', 'VEPOL', 'VPOL'] },
+  { code: 'it', label: 'Italian', trackCodes: ['VE[ITA]', 'VEITA', 'VITA'] }
+];
+
+export const SUPPORTED_LANGUAGE_CODES = ARTE_LANGUAGES.map((language) => language.code);
+
+export const isSupportedLanguage = (code: string): boolean => SUPPORTED_LANGUAGE_CODES.includes(code);
+
+export const getLanguageLabel = (code: string): string =>
+  ARTE_LANGUAGES.find((language) => language.code === code)?.label ?? code;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const buildTrackCodePattern = (trackCode: string): RegExp =>
+  new RegExp(`_(?:st_)?${escapeRegExp(trackCode)}(?=[-_.])`);
+
+const decodeUrlPath = (url: string): string => {
+  const path = url.split('?')[0];
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return path;
+  }
+};
+
+/**
+ * Returns the language of an Arte subtitle URL when it is one of the configured source languages,
+ * or null when the file belongs to a language the user does not want translated.
+ */
+export const detectArteSubtitleLanguage = (url: string, sourceLanguages: string[]): string | null => {
+  const path = decodeUrlPath(url);
+  const match = ARTE_LANGUAGES.find(
+    (language) =>
+      sourceLanguages.includes(language.code) &&
+      language.trackCodes.some((trackCode) => buildTrackCodePattern(trackCode).test(path))
+  );
+  return match?.code ?? null;
+};
@@ -0,0 +1,57 @@
+export type CueTiming = {
+  start: number;
+  end: number;
+};
+
+/** Spans every timed cue in a batch; null when none of its cues carry usable timings. */
+export const computeBatchTiming = (timings: Array<CueTiming | null | undefined>): CueTiming | null => {
+  const known = timings.filter((timing): timing is CueTiming => Boolean(timing));
+  if (known.length === 0) {
+    return null;
+  }
+
+  return {
+    start: Math.min(...known.map((timing) => timing.start)),
+    end: Math.max(...known.map((timing) => timing.end))
+  };
+};
+
+// Batches around or ahead of the playhead come first, nearest first; batches entirely behind it
+// were most likely already watched, so they are only translated once everything ahead is done.
+const rankBatch = (timing: CueTiming | null, playhead: number): [number, number] => {
+  if (!timing) {
+    return [2, 0];
+  }
+
+  if (timing.end < playhead) {
+    return [1, playhead - timing.end];
+  }
+
+  return [0, Math.max(0, timing.start - playhead)];
+};
+
+/**
+ * Picks the pending batch to translate next. Without a playhead, batches run in cue order;
+ * with one, the batch nearest to it wins. Ties keep cue order so the choice is deterministic.
+ */
+export const pickNextBatch = (
+  pendingBatchIndexes: number[],
+  batchTimings: Array<CueTiming | null>,
+  playhead?: number
+): number => {
+  if (playhead === undefined || !Number.isFinite(playhead)) {
+    return Math.min(...pendingBatchIndexes);
+  }
+
+  return pendingBatchIndexes.reduce((best, candidate) => {
+    const [bestGroup, bestDistance] = rankBatch(batchTimings[best], playhead);
+    const [candidateGroup, candidateDistance] = rankBatch(batchTimings[candidate], playhead);
+    if (candidateGroup !== bestGroup) {
+      return candidateGroup < bestGroup ? candidate : best;
+    }
+    if (candidateDistance !== bestDistance) {
+      return candidateDistance < bestDistance ? candidate : best;
+    }
+    return candidate < best ? candidate : best;
+  });
+};
@@ -0,0 +1,123 @@
+/** A term and the translation every cue must use for it; a term kept as is has itself as target. */
+export type GlossaryEntry = {
+  source: string;
+  target: string;
+};
+
+/** Terms for every programme (`series` empty) or for programmes whose title contains `series`. */
+export type TranslationGlossary = {
+  series: string;
+  entries: GlossaryEntry[];
+};
+
+export type GlossaryParseResult = { glossaries: TranslationGlossary[]; errors: string[] };
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const normalizeTerm = (value: string): string => value.replace(/\s+/g, ' ').trim();
+
+// Terms match whole words only, ignoring case, so "Marc" does not match inside "Marcel"
+export const buildTermPattern = (terms: string[]): RegExp | null => {
+  const alternatives = terms
+    .map(normalizeTerm)
+    .filter(Boolean)
+    .sort((left, right) => right.length - left.length)
+    .map(escapeRegExp);
+  if (alternatives.length === 0) {
+    return null;
+  }
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+};
+
+export const containsTerm = (text: string, term: string): boolean => {
+  const pattern = buildTermPattern([term]);
+  return pattern !== null && pattern.test(text);
+};
+
+/** Entries whose term appears in any of the texts. */
+export const findGlossaryTerms = (texts: string[], entries: GlossaryEntry[]): GlossaryEntry[] =>
+  entries.filter((entry) => texts.some((text) => containsTerm(text, entry.source)));
+
+/** Entries whose term appears in the source but whose expected translation is missing from the translation. */
+export const findGlossaryViolations = (
+  sourceText: string,
+  translatedText: string,
+  entries: GlossaryEntry[]
+): GlossaryEntry[] =>
+  findGlossaryTerms([sourceText], entries).filter((entry) => !containsTerm(translatedText, entry.target));
+
+const matchesSeries = (series: string, showTitle: string): boolean =>
+  series === '' || (showTitle !== '' && showTitle.toLocaleLowerCase().includes(series.toLocaleLowerCase()));
+
+/**
+ * The global terms plus those of every series matching the programme title; a series entry replaces a
+ * global entry for the same term.
+ */
+export const resolveGlossary = (glossaries: TranslationGlossary[], showTitle = ''): GlossaryEntry[] => {
+  const bySource = new Map<string, GlossaryEntry>();
+  [...glossaries]
+    .sort((left, right) => Number(left.series !== '') - Number(right.series !== ''))
+    .filter((glossary) => matchesSeries(normalizeTerm(glossary.series), normalizeTerm(showTitle)))
+    .forEach((glossary) => {
+      glossary.entries.forEach((entry) => bySource.set(entry.source.toLocaleLowerCase(), entry));
+    });
+  return Array.from(bySource.values());
+};
+
+const SERIES_HEADER = /^\[(.*)\]$/;
+
+/**
+ * Reads the options page format: one `term = translation` per line, a bare `term` to keep it as is,
+ * `[Series title]` to start the terms of one series and `#` for comments. Lines before the first
+ * header are global.
+ */
+export const parseGlossaryText = (text: string): GlossaryParseResult => {
+  const glossaries: TranslationGlossary[] = [];
+  const errors: string[] = [];
+  let current: TranslationGlossary = { series: '', entries: [] };
+
+  text.split('\n').forEach((rawLine, lineIndex) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      return;
+    }
+
+    const header = SERIES_HEADER.exec(line);
+    if (header) {
+      if (current.entries.length > 0 || current.series !== '') {
+        glossaries.push(current);
+      }
+      const series = normalizeTerm(header[1]);
+      if (!series) {
+        errors.push(`Line ${lineIndex + 1}: the series title is empty`);
+      }
+      current = { series, entries: [] };
+      return;
+    }
+
+    const separator = line.indexOf('=');
+    const source = normalizeTerm(separator === -1 ? line : line.slice(0, separator));
+    const target = separator === -1 ? source : normalizeTerm(line.slice(separator + 1));
+    if (!source || !target) {
+      errors.push(`Line ${lineIndex + 1}: expected "term = translation" or a single term`);
+      return;
+    }
+    current.entries.push({ source, target });
+  });
+
+  if (current.entries.length > 0 || current.series !== '') {
+    glossaries.push(current);
+  }
+  return { glossaries, errors };
+};
+
+export const formatGlossaryText = (glossaries: TranslationGlossary[]): string =>
+  glossaries
+    .map((glossary) => {
+      const lines = glossary.entries.map((entry) =>
+        entry.source === entry.target ? entry.source : `${entry.source} = ${entry.target}`
+      );
+      return (glossary.series ? [`[${glossary.series}]`, ...lines] : lines).join('\n');
+    })
+    .filter(Boolean)
+    .join('\n\n');
@@ -5,10 +5,57 @@ export type TranslateVttMessage = {
   targetLanguage: string;
 };
 
+export type VttTranslatedMessage = {
+  type: 'VTT_TRANSLATED';
+  url: string;
+  translatedVtt: string;
+  mapping?: Record<string, string>;
+};
+
+/** Incremental update pushed while a subtitle file is still being translated. */
+export type VttTranslationProgressMessage = {
+  type: 'VTT_TRANSLATION_PROGRESS';
+  url: string;
+  mapping: Record<string, string>;
+  translatedCount: number;
+  totalCount: number;
+};
+
+/** Sent by the content script whenever the Arte player's playhead moves notably (playback or seek). */
+export type PlaybackPositionMessage = {
+  type: 'PLAYBACK_POSITION';
+  currentTime: number;
+};
+
+/** Cues of one translated sentence where listed glossary terms were not translated as listed. */
+export type GlossaryViolation = {
+  cueIndexes: number[];
+  terms: string[];
+};
+
 export type TranslationSuccessResponse = {
   status: 'translated';
   translatedVtt: string;
   mapping?: Record<string, string>;
+  /** Id of the provider that produced each cue, null for blank cues; absent when served from the cache. */
+  cueProviders?: Array<string | null>;
+  /** Set when spending has passed the warning threshold of the configured budget. */
+  budgetWarning?: string;
+  glossaryViolations?: GlossaryViolation[];
+};
+
+/** Some cues could not be translated: they keep their original text and are retried in the background. */
+export type TranslationPartialResponse = {
+  status: 'partial';
+  translatedVtt: string;
+  mapping: Record<string, string>;
+  failedCueIndexes: number[];
+  cueProviders: Array<string | null>;
+  message: string;
+  /** Set when the cues failed because the spending budget ran out; they are not retried in the background. */
+  budgetExceeded?: boolean;
+  budgetWarning?: string;
+  glossaryViolations?: GlossaryViolation[];
 };
 
 export type TranslationErrorResponse = {
@@ -16,4 +63,4 @@ export type TranslationErrorResponse = {
   message: string;
 };
 
-export type TranslationResponse = TranslationSuccessResponse | TranslationErrorResponse;
+export type TranslationResponse = TranslationSuccessResponse | TranslationPartialResponse | TranslationErrorResponse;
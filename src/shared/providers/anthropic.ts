@@ -0,0 +1,91 @@
+import { TranslationProviderError } from '../translation-errors';
+import {
+  TRANSLATIONS_JSON_SCHEMA,
+  buildSystemPrompt,
+  buildUserPayload,
+  readTokenUsage,
+  readTranslations
+} from './llm-json';
+import type { RemoteProviderDefinition } from './types';
+
+const MESSAGES_PATH = '/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+const MAX_OUTPUT_TOKENS = 4096;
+// Every current Claude model accepts 200k tokens; replies are capped by the `max_tokens` we request
+const CONTEXT_TOKENS = 200_000;
+const TRANSLATIONS_TOOL = 'record_translations';
+
+type AnthropicMessagesPayload = {
+  model: string;
+  max_tokens: number;
+  temperature: number;
+  system: string;
+  messages: Array<{ role: 'user'; content: string }>;
+  tools: Array<{ name: string; description: string; input_schema: Record<string, unknown> }>;
+  tool_choice: { type: 'tool'; name: string };
+};
+
+type AnthropicContentBlock = { type?: string; name?: string; input?: unknown };
+
+/**
+ * Anthropic's Messages API. JSON output is enforced by forcing a single tool call whose input schema
+ * is the id-tagged translations reply, the Messages equivalent of a `json_schema` response format.
+ */
+export const anthropicProvider: RemoteProviderDefinition = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  defaultBaseUrl: 'https://api.anthropic.com/v1',
+  defaultModel: 'claude-3-5-haiku-latest',
+  capabilities: { requiresApiKey: true, supportsModelSelection: true, supportsContext: true, supportsLengthLimits: true },
+  auth: { type: 'header', name: 'x-api-key' },
+  resolveTokenLimits: () => ({ contextTokens: CONTEXT_TOKENS, outputTokens: MAX_OUTPUT_TOKENS }),
+  buildRequest: (batch, endpoint) => {
+    const payload: AnthropicMessagesPayload = {
+      model: endpoint.model,
+      max_tokens: MAX_OUTPUT_TOKENS,
+      temperature: 0.2,
+      system: buildSystemPrompt(batch, endpoint.settings),
+      messages: [{ role: 'user', content: JSON.stringify(buildUserPayload(batch)) }],
+      tools: [
+        {
+          name: TRANSLATIONS_TOOL,
+          description: 'Records one translation per cue in segments, tagged with the cue id.',
+          input_schema: TRANSLATIONS_JSON_SCHEMA
+        }
+      ],
+      tool_choice: { type: 'tool', name: TRANSLATIONS_TOOL }
+    };
+
+    return {
+      url: endpoint.baseUrl.endsWith(MESSAGES_PATH) ? endpoint.baseUrl : `${endpoint.baseUrl}${MESSAGES_PATH}`,
+      headers: {
+        'Content-Type': 'application/json',
+        'anthropic-version': ANTHROPIC_VERSION,
+        // Required for requests that carry an Origin header, such as those from the extension
+        'anthropic-dangerous-direct-browser-access': 'true'
+      },
+      body: JSON.stringify(payload)
+    };
+  },
+  parseResponse: (json, expectedLength) => {
+    const content = (json as { content?: unknown })?.content;
+    if (!Array.isArray(content) || content.length === 0) {
+      throw new TranslationProviderError('Translation provider returned an empty response.', 'malformed');
+    }
+
+    const toolUse = (content as AnthropicContentBlock[]).find(
+      (block) => block?.type === 'tool_use' && block.name === TRANSLATIONS_TOOL
+    );
+    if (!toolUse) {
+      throw new TranslationProviderError('Translation provider returned an unsupported response payload.', 'malformed');
+    }
+
+    return readTranslations(toolUse.input, expectedLength);
+  },
+  readUsage: (json) => {
+    const usage = (json as { usage?: { input_tokens?: unknown; output_tokens?: unknown } })?.usage;
+    return readTokenUsage(usage?.input_tokens, usage?.output_tokens);
+  },
+  describeHttpError: (status) =>
+    status === 529 ? { message: 'Anthropic is temporarily overloaded (529).', kind: 'transient' } : null
+};
@@ -0,0 +1,81 @@
+import { TranslationProviderError } from '../translation-errors';
+import { buildTermPattern, type GlossaryEntry } from '../glossary';
+import type { RemoteProviderDefinition } from './types';
+
+const TRANSLATE_PATH = '/translate';
+const API_VERSION = '3.0';
+// Azure caps each request at 50,000 characters across all array elements.
+const AZURE_MAX_CHARACTERS_PER_REQUEST = 50_000;
+
+// Azure's dynamic dictionary: marked-up terms come back translated exactly as the markup says
+const applyDynamicDictionary = (text: string, entries: GlossaryEntry[]): string => {
+  const pattern = buildTermPattern(entries.map((entry) => entry.source));
+  if (!pattern) {
+    return text;
+  }
+  const targets = new Map(entries.map((entry) => [entry.source.toLocaleLowerCase(), entry.target.replace(/"/g, '')]));
+  return text.replace(pattern, (term) => {
+    const target = targets.get(term.replace(/\s+/g, ' ').toLocaleLowerCase());
+    return target ? `<mstrans:dictionary translation="${target}">${term}</mstrans:dictionary>` : term;
+  });
+};
+
+type AzureTranslationResult = { translations?: Array<{ text?: unknown }> };
+
+/** Azure AI Translator v3; custom and regional endpoints are set through the API base URL. */
+export const azureProvider: RemoteProviderDefinition = {
+  id: 'azure',
+  label: 'Azure Translator',
+  defaultBaseUrl: 'https://api.cognitive.microsofttranslator.com',
+  defaultModel: 'general',
+  capabilities: {
+    requiresApiKey: true,
+    supportsModelSelection: false,
+    supportsContext: false,
+    supportsLengthLimits: false,
+    maxCharactersPerRequest: AZURE_MAX_CHARACTERS_PER_REQUEST
+  },
+  auth: { type: 'header', name: 'Ocp-Apim-Subscription-Key' },
+  buildRequest: (batch, endpoint) => {
+    const base = endpoint.baseUrl.endsWith(TRANSLATE_PATH) ? endpoint.baseUrl : `${endpoint.baseUrl}${TRANSLATE_PATH}`;
+    const query = new URLSearchParams({ 'api-version': API_VERSION, from: batch.sourceLanguage, to: batch.targetLanguage });
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const region = endpoint.settings.azureRegion.trim();
+    if (region) {
+      headers['Ocp-Apim-Subscription-Region'] = region;
+    }
+
+    return {
+      url: `${base}?${query.toString()}`,
+      headers,
+      body: JSON.stringify(batch.segments.map((text) => ({ Text: applyDynamicDictionary(text, batch.glossary ?? []) })))
+    };
+  },
+  parseResponse: (json, expectedLength) => {
+    if (!Array.isArray(json)) {
+      throw new TranslationProviderError('Azure Translator response is not an array of results.', 'malformed');
+    }
+
+    const texts = (json as AzureTranslationResult[]).map((result) => result?.translations?.[0]?.text);
+    if (texts.length !== expectedLength || texts.some((text) => typeof text !== 'string')) {
+      throw new TranslationProviderError(
+        `Azure Translator returned ${texts.length} translations for ${expectedLength} segments.`,
+        'malformed'
+      );
+    }
+    return texts as string[];
+  },
+  describeHttpError: (status) => {
+    switch (status) {
+      case 401:
+        return {
+          message: 'Azure Translator rejected the key (401). Check the key and, for regional resources, the region.',
+          kind: 'auth'
+        };
+      case 403:
+        return { message: 'Azure Translator quota for this resource is exhausted (403).', kind: 'quota' };
+      default:
+        return null;
+    }
+  }
+};
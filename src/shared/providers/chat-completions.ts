@@ -0,0 +1,102 @@
+import { TranslationProviderError } from '../translation-errors';
+import {
+  TRANSLATIONS_JSON_SCHEMA,
+  buildSystemPrompt,
+  buildUserPayload,
+  parseTranslationsJson,
+  readTokenUsage
+} from './llm-json';
+import { lookupModelTokenLimits } from './token-limits';
+import type { ProviderCapabilities, ProviderTokenLimits, RemoteProviderDefinition } from './types';
+
+const CHAT_COMPLETIONS_PATH = '/chat/completions';
+// Conservative enough for the smaller models OpenAI-compatible servers tend to host
+const DEFAULT_TOKEN_LIMITS: ProviderTokenLimits = { contextTokens: 16_000, outputTokens: 4_096 };
+
+type ChatCompletionsPayload = {
+  model: string;
+  temperature: number;
+  response_format:
+    | { type: 'json_object' }
+    | { type: 'json_schema'; json_schema: { name: string; strict: true; schema: Record<string, unknown> } };
+  messages: Array<{ role: 'system' | 'user'; content: string }>;
+};
+
+const normalizeMessageContent = (content: unknown): string => {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  if (Array.isArray(content)) {
+    const textPart = content.find((part) => typeof part?.text === 'string');
+    if (textPart && typeof textPart.text === 'string') {
+      return textPart.text;
+    }
+  }
+
+  throw new TranslationProviderError('Translation provider returned an unsupported response payload.', 'malformed');
+};
+
+type ChatCompletionsProviderOptions = {
+  id: string;
+  label: string;
+  defaultBaseUrl: string;
+  defaultModel: string;
+  capabilities?: Partial<ProviderCapabilities>;
+  /** Used for models missing from the known model table. */
+  tokenLimits?: ProviderTokenLimits;
+  /** Whether the API enforces `json_schema` response formats; otherwise only JSON mode is requested. */
+  supportsJsonSchema?: boolean;
+};
+
+/** Providers speaking the OpenAI-compatible `/chat/completions` API with a JSON reply. */
+export const createChatCompletionsProvider = (options: ChatCompletionsProviderOptions): RemoteProviderDefinition => ({
+  id: options.id,
+  label: options.label,
+  defaultBaseUrl: options.defaultBaseUrl,
+  defaultModel: options.defaultModel,
+  capabilities: {
+    requiresApiKey: true,
+    supportsModelSelection: true,
+    supportsContext: true,
+    supportsLengthLimits: true,
+    ...options.capabilities
+  },
+  auth: { type: 'header', name: 'Authorization', prefix: 'Bearer ' },
+  resolveTokenLimits: (model) => lookupModelTokenLimits(model) ?? options.tokenLimits ?? DEFAULT_TOKEN_LIMITS,
+  buildRequest: (batch, endpoint) => {
+    const payload: ChatCompletionsPayload = {
+      model: endpoint.model,
+      temperature: 0.2,
+      response_format: options.supportsJsonSchema
+        ? {
+            type: 'json_schema',
+            json_schema: { name: 'subtitle_translations', strict: true, schema: TRANSLATIONS_JSON_SCHEMA }
+          }
+        : { type: 'json_object' },
+      messages: [
+        { role: 'system', content: buildSystemPrompt(batch, endpoint.settings) },
+        { role: 'user', content: JSON.stringify(buildUserPayload(batch)) }
+      ]
+    };
+
+    return {
+      url: endpoint.baseUrl.endsWith(CHAT_COMPLETIONS_PATH) ? endpoint.baseUrl : `${endpoint.baseUrl}${CHAT_COMPLETIONS_PATH}`,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload)
+    };
+  },
+  parseResponse: (json, expectedLength) => {
+    const messageContent = (json as { choices?: Array<{ message?: { content?: unknown } }> })?.choices?.[0]?.message
+      ?.content;
+    if (!messageContent) {
+      throw new TranslationProviderError('Translation provider returned an empty response.', 'malformed');
+    }
+
+    return parseTranslationsJson(normalizeMessageContent(messageContent), expectedLength);
+  },
+  readUsage: (json) => {
+    const usage = (json as { usage?: { prompt_tokens?: unknown; completion_tokens?: unknown } })?.usage;
+    return readTokenUsage(usage?.prompt_tokens, usage?.completion_tokens);
+  }
+});
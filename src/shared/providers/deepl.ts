@@ -0,0 +1,125 @@
+import { TranslationProviderError } from '../translation-errors';
+import type { RemoteProviderDefinition } from './types';
+
+export const DEEPL_FORMALITIES = ['default', 'prefer_more', 'prefer_less'] as const;
+
+export type DeeplFormality = (typeof DEEPL_FORMALITIES)[number];
+
+const DEEPL_FREE_BASE_URL = 'https://api-free.deepl.com/v2';
+const DEEPL_PRO_BASE_URL = 'https://api.deepl.com/v2';
+const TRANSLATE_PATH = '/translate';
+
+// DeepL wants a regional variant for English targets; every other Arte language maps one to one.
+const DEEPL_TARGET_LANGUAGES: Record<string, string> = { en: 'EN-GB' };
+
+const toDeeplSourceLanguage = (code: string): string => code.toUpperCase();
+
+const toDeeplTargetLanguage = (code: string): string => DEEPL_TARGET_LANGUAGES[code] ?? code.toUpperCase();
+
+type DeeplTranslateBody = {
+  text: string[];
+  source_lang: string;
+  target_lang: string;
+  context?: string;
+  formality?: DeeplFormality;
+  glossary_id?: string;
+};
+
+type DeeplGlossaryBody = {
+  name: string;
+  source_lang: string;
+  target_lang: string;
+  entries: string;
+  entries_format: 'tsv';
+};
+
+// Tabs and line breaks would break the TSV rows
+const toTsvField = (value: string): string => value.replace(/[\t\r\n]+/g, ' ').trim();
+
+/** DeepL's native `/v2/translate` endpoint; Free keys end in `:fx` and live on a separate host. */
+export const deeplProvider: RemoteProviderDefinition = {
+  id: 'deepl',
+  label: 'DeepL',
+  defaultBaseUrl: DEEPL_PRO_BASE_URL,
+  defaultModel: 'deepl',
+  capabilities: { requiresApiKey: true, supportsModelSelection: false, supportsContext: true, supportsLengthLimits: false },
+  auth: { type: 'header', name: 'Authorization', prefix: 'DeepL-Auth-Key ' },
+  resolveDefaultBaseUrl: (apiKey) => (apiKey.trim().endsWith(':fx') ? DEEPL_FREE_BASE_URL : DEEPL_PRO_BASE_URL),
+  // Glossaries take plain language codes, without the regional variant translations use
+  glossaryStore: {
+    path: '/glossaries',
+    buildBody: (entries, sourceLanguage, targetLanguage) => {
+      const body: DeeplGlossaryBody = {
+        name: 'Arte Subtitle Translator',
+        source_lang: sourceLanguage.toLowerCase(),
+        target_lang: targetLanguage.toLowerCase(),
+        entries: entries.map((entry) => `${toTsvField(entry.source)}\t${toTsvField(entry.target)}`).join('\n'),
+        entries_format: 'tsv'
+      };
+      return JSON.stringify(body);
+    },
+    parseId: (json) => {
+      const id = (json as { glossary_id?: unknown })?.glossary_id;
+      return typeof id === 'string' && id ? id : null;
+    }
+  },
+  buildRequest: (batch, endpoint) => {
+    const { deeplFormality, deeplGlossaryId } = endpoint.settings;
+    const body: DeeplTranslateBody = {
+      text: batch.segments,
+      source_lang: toDeeplSourceLanguage(batch.sourceLanguage),
+      target_lang: toDeeplTargetLanguage(batch.targetLanguage)
+    };
+
+    // DeepL reads `context` to disambiguate but never translates or bills it
+    const context = [...batch.contextBefore, ...batch.contextAfter].join('\n');
+    if (context) {
+      body.context = context;
+    }
+    if (deeplFormality && deeplFormality !== 'default') {
+      body.formality = deeplFormality;
+    }
+    // A glossary configured by id takes precedence over the one created from the glossary terms
+    const glossaryId = deeplGlossaryId?.trim() || batch.glossaryId;
+    if (glossaryId) {
+      body.glossary_id = glossaryId;
+    }
+
+    return {
+      url: endpoint.baseUrl.endsWith(TRANSLATE_PATH) ? endpoint.baseUrl : `${endpoint.baseUrl}${TRANSLATE_PATH}`,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    };
+  },
+  parseResponse: (json, expectedLength) => {
+    const translations = (json as { translations?: unknown })?.translations;
+    if (!Array.isArray(translations)) {
+      throw new TranslationProviderError('DeepL response is missing the translations array.', 'malformed');
+    }
+
+    const texts = translations.map((entry) => (entry as { text?: unknown })?.text);
+    if (texts.length !== expectedLength || texts.some((text) => typeof text !== 'string')) {
+      throw new TranslationProviderError(
+        `DeepL returned ${texts.length} translations for ${expectedLength} segments.`,
+        'malformed'
+      );
+    }
+
+    return texts as string[];
+  },
+  describeHttpError: (status) => {
+    switch (status) {
+      case 403:
+        return {
+          message: 'DeepL rejected the API key (403). Check the key, and that Free keys (ending in :fx) use the Free API.',
+          kind: 'auth'
+        };
+      case 456:
+        return { message: 'DeepL character quota for this billing period is exhausted (456).', kind: 'quota' };
+      case 429:
+        return { message: 'DeepL is receiving too many requests (429); lower the requests per minute.', kind: 'quota' };
+      default:
+        return null;
+    }
+  }
+};
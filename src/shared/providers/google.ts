@@ -0,0 +1,104 @@
+import { TranslationProviderError } from '../translation-errors';
+import type { ProviderHttpError, RemoteProviderDefinition } from './types';
+
+// Google recommends keeping each request under 5,000 characters for both API versions.
+const GOOGLE_MAX_CHARACTERS_PER_REQUEST = 5000;
+const V2_TRANSLATE_PATH = '/language/translate/v2';
+
+const readTranslatedTexts = (translations: unknown, expectedLength: number): string[] => {
+  if (!Array.isArray(translations)) {
+    throw new TranslationProviderError('Google Cloud Translation response is missing the translations array.', 'malformed');
+  }
+
+  const texts = translations.map((entry) => (entry as { translatedText?: unknown })?.translatedText);
+  if (texts.length !== expectedLength || texts.some((text) => typeof text !== 'string')) {
+    throw new TranslationProviderError(
+      `Google Cloud Translation returned ${texts.length} translations for ${expectedLength} segments.`,
+      'malformed'
+    );
+  }
+  return texts as string[];
+};
+
+const describeGoogleError = (status: number): ProviderHttpError | null =>
+  status === 403
+    ? {
+        message:
+          'Google Cloud Translation denied the request (403). Check that the API is enabled and the credentials may call it.',
+        kind: 'auth'
+      }
+    : null;
+
+/** Cloud Translation Basic (v2), authenticated with an API key in the query string. */
+export const googleProvider: RemoteProviderDefinition = {
+  id: 'google',
+  label: 'Google Cloud Translation (v2)',
+  defaultBaseUrl: 'https://translation.googleapis.com',
+  defaultModel: 'nmt',
+  capabilities: {
+    requiresApiKey: true,
+    supportsModelSelection: false,
+    supportsContext: false,
+    supportsLengthLimits: false,
+    maxCharactersPerRequest: GOOGLE_MAX_CHARACTERS_PER_REQUEST
+  },
+  auth: { type: 'query', name: 'key' },
+  buildRequest: (batch, endpoint) => ({
+    url: endpoint.baseUrl.endsWith(V2_TRANSLATE_PATH) ? endpoint.baseUrl : `${endpoint.baseUrl}${V2_TRANSLATE_PATH}`,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      q: batch.segments,
+      source: batch.sourceLanguage,
+      target: batch.targetLanguage,
+      format: 'text'
+    })
+  }),
+  parseResponse: (json, expectedLength) =>
+    readTranslatedTexts((json as { data?: { translations?: unknown } })?.data?.translations, expectedLength),
+  describeHttpError: describeGoogleError
+};
+
+/**
+ * Cloud Translation Advanced (v3). The API key field holds an OAuth access token, and requests are
+ * scoped to the configured project and location.
+ */
+export const googleV3Provider: RemoteProviderDefinition = {
+  id: 'google-v3',
+  label: 'Google Cloud Translation (v3)',
+  defaultBaseUrl: 'https://translation.googleapis.com/v3',
+  defaultModel: 'general/nmt',
+  capabilities: {
+    requiresApiKey: true,
+    supportsModelSelection: true,
+    supportsContext: false,
+    supportsLengthLimits: false,
+    maxCharactersPerRequest: GOOGLE_MAX_CHARACTERS_PER_REQUEST
+  },
+  auth: { type: 'header', name: 'Authorization', prefix: 'Bearer ' },
+  buildRequest: (batch, endpoint) => {
+    const projectId = endpoint.settings.googleProjectId.trim();
+    if (!projectId) {
+      throw new TranslationProviderError('A Google Cloud project ID is required for Translation v3.', 'fatal');
+    }
+    const location = endpoint.settings.googleLocation.trim() || 'global';
+    const parent = `projects/${encodeURIComponent(projectId)}/locations/${encodeURIComponent(location)}`;
+
+    return {
+      url: `${endpoint.baseUrl}/${parent}:translateText`,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents: batch.segments,
+        sourceLanguageCode: batch.sourceLanguage,
+        targetLanguageCode: batch.targetLanguage,
+        mimeType: 'text/plain',
+        model: `${parent}/models/${endpoint.model}`
+      })
+    };
+  },
+  parseResponse: (json, expectedLength) =>
+    readTranslatedTexts((json as { translations?: unknown })?.translations, expectedLength),
+  describeHttpError: (status) =>
+    status === 401
+      ? { message: 'Google Cloud rejected the access token (401); tokens expire after an hour.', kind: 'auth' }
+      : describeGoogleError(status)
+};
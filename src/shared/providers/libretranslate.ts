@@ -0,0 +1,60 @@
+import { TranslationProviderError } from '../translation-errors';
+import type { RemoteProviderDefinition } from './types';
+
+const TRANSLATE_PATH = '/translate';
+
+type LibreTranslateBody = {
+  q: string[];
+  source: string;
+  target: string;
+  format: 'text';
+  api_key?: string;
+};
+
+/**
+ * A self-hosted LibreTranslate server. Its API key is optional and travels in the request body,
+ * so it is attached here rather than through an auth scheme.
+ */
+export const libreTranslateProvider: RemoteProviderDefinition = {
+  id: 'libretranslate',
+  label: 'LibreTranslate (local)',
+  defaultBaseUrl: 'http://localhost:5000',
+  defaultModel: 'libretranslate',
+  capabilities: { requiresApiKey: false, supportsModelSelection: false, supportsContext: false, supportsLengthLimits: false },
+  auth: { type: 'none' },
+  buildRequest: (batch, endpoint) => {
+    const body: LibreTranslateBody = {
+      q: batch.segments,
+      source: batch.sourceLanguage,
+      target: batch.targetLanguage,
+      format: 'text'
+    };
+    const apiKey = endpoint.settings.apiKey.trim();
+    if (apiKey) {
+      body.api_key = apiKey;
+    }
+
+    return {
+      url: endpoint.baseUrl.endsWith(TRANSLATE_PATH) ? endpoint.baseUrl : `${endpoint.baseUrl}${TRANSLATE_PATH}`,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    };
+  },
+  parseResponse: (json, expectedLength) => {
+    const translated = (json as { translatedText?: unknown })?.translatedText;
+    if (!Array.isArray(translated) || translated.length !== expectedLength || translated.some((text) => typeof text !== 'string')) {
+      throw new TranslationProviderError('LibreTranslate response does not hold one translation per segment.', 'malformed');
+    }
+    return translated as string[];
+  },
+  describeHttpError: (status) =>
+    status === 403 ? { message: 'LibreTranslate requires a valid API key on this server (403).', kind: 'auth' } : null,
+  // LibreTranslate has no models; the installed language pairs are what the connection test lists
+  modelListing: {
+    path: '/languages',
+    parse: (json) =>
+      Array.isArray(json)
+        ? json.map((language) => (language as { code?: unknown })?.code).filter((code): code is string => typeof code === 'string')
+        : []
+  }
+};
@@ -0,0 +1,127 @@
+import { TranslationProviderError } from '../translation-errors';
+import type { TranslationSettings } from '../translation-settings';
+import { buildPromptVariables, renderPromptTemplate, resolvePromptTemplate } from './prompt-templates';
+import type { ProviderBatch, ProviderUsage } from './types';
+
+// Prompt and reply format shared by the LLM providers: cues go out as a JSON payload tagged with
+// ids and come back as {"translations": [{"id": 1, "text": "..."}]}. Replies are matched by id, never
+// by position, so a dropped or extra entry cannot shift the following cues.
+
+const log = (message: string, details: Record<string, unknown> = {}): void => {
+  console.log('[Arte Subtitle Translator][translation]', message, details);
+};
+
+/** JSON schema of the reply, for providers that enforce structured output. */
+export const TRANSLATIONS_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    translations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { id: { type: 'integer' }, text: { type: 'string' } },
+        required: ['id', 'text'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['translations'],
+  additionalProperties: false
+};
+
+// Appended to every template: the reply format the parser depends on
+const REPLY_FORMAT_INSTRUCTIONS = [
+  'Return exactly one translation per cue, tagged with the id of the cue it translates.',
+  'Cues in contextBefore and contextAfter are only there to follow sentences across cues; never translate or return them.',
+  'Reply with JSON: {"translations":[{"id":1,"text":"string"}]}.'
+].join(' ');
+
+// Added for condensed retranslations, whose segments carry the length they must fit in
+const LENGTH_LIMIT_INSTRUCTIONS =
+  'Each cue carries maxCharacters: keep its translation within that many characters so it can be read in time, dropping filler words, repetitions and secondary details before any of the meaning.';
+
+/** The selected prompt template rendered for the batch, followed by the reply format. */
+export const buildSystemPrompt = (
+  batch: ProviderBatch,
+  settings: Pick<TranslationSettings, 'promptPreset' | 'customPromptTemplate'>
+): string =>
+  [
+    renderPromptTemplate(resolvePromptTemplate(settings), buildPromptVariables(batch)),
+    ...(batch.maxCharacters ? [LENGTH_LIMIT_INSTRUCTIONS] : []),
+    REPLY_FORMAT_INSTRUCTIONS
+  ].join('\n');
+
+// Ids are 1-based positions within the batch
+export const buildUserPayload = (batch: ProviderBatch) => ({
+  sourceLanguage: batch.sourceLanguage,
+  targetLanguage: batch.targetLanguage,
+  instruction: 'Translate the text of each cue in segments and return it with the same id. contextBefore and contextAfter are read-only.',
+  contextBefore: batch.contextBefore,
+  segments: batch.segments.map((text, index) => ({
+    id: index + 1,
+    text,
+    ...(batch.maxCharacters ? { maxCharacters: batch.maxCharacters[index] } : {})
+  })),
+  contextAfter: batch.contextAfter
+});
+
+const readSegmentId = (value: unknown): number | null => {
+  const id = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value;
+  return typeof id === 'number' && Number.isInteger(id) ? id : null;
+};
+
+/**
+ * Reads the translations from an already parsed reply, e.g. a tool call's input. Cues whose id is
+ * missing, repeated or paired with a non-string text come back as null so they can be re-requested;
+ * entries with unknown ids are ignored.
+ */
+export const readTranslations = (parsed: unknown, expectedLength: number): Array<string | null> => {
+  const translations = (parsed as { translations?: unknown })?.translations;
+  if (!Array.isArray(translations)) {
+    throw new TranslationProviderError(
+      'Translation provider response is missing the translations array.',
+      'malformed'
+    );
+  }
+
+  // null marks an id answered more than once, which cannot be trusted either way
+  const textsById = new Map<number, string | null>();
+  translations.forEach((entry) => {
+    const id = readSegmentId((entry as { id?: unknown })?.id);
+    const text = (entry as { text?: unknown })?.text;
+    if (id === null || id < 1 || id > expectedLength || typeof text !== 'string') {
+      return;
+    }
+    textsById.set(id, textsById.has(id) ? null : text);
+  });
+
+  const result = Array.from({ length: expectedLength }, (_value, index) => textsById.get(index + 1) ?? null);
+  const answered = result.filter((text) => text !== null).length;
+  if (expectedLength > 0 && answered === 0) {
+    throw new TranslationProviderError('Translation provider response does not match any requested cue id.', 'malformed');
+  }
+  if (answered < expectedLength) {
+    log('Translation provider response is missing cue ids.', { expected: expectedLength, received: answered });
+  }
+  return result;
+};
+
+export const parseTranslationsJson = (content: string, expectedLength: number): Array<string | null> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new TranslationProviderError('Translation provider returned malformed JSON.', 'malformed');
+  }
+
+  return readTranslations(parsed, expectedLength);
+};
+
+/** Builds token usage from a response's counters; null when the provider reported neither. */
+export const readTokenUsage = (inputTokens: unknown, outputTokens: unknown): ProviderUsage | null => {
+  const toCount = (value: unknown): number | null =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : null;
+  const input = toCount(inputTokens);
+  const output = toCount(outputTokens);
+  return input === null && output === null ? null : { inputTokens: input ?? 0, outputTokens: output ?? 0 };
+};
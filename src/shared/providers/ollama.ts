@@ -0,0 +1,85 @@
+import { TranslationProviderError } from '../translation-errors';
+import {
+  TRANSLATIONS_JSON_SCHEMA,
+  buildSystemPrompt,
+  buildUserPayload,
+  parseTranslationsJson,
+  readTokenUsage
+} from './llm-json';
+import type { RemoteProviderDefinition } from './types';
+
+const CHAT_PATH = '/api/chat';
+// Requested explicitly because Ollama's own default window is small enough to silently truncate prompts
+const CONTEXT_TOKENS = 8192;
+const MAX_OUTPUT_TOKENS = 4096;
+
+type OllamaChatPayload = {
+  model: string;
+  stream: false;
+  // A JSON schema constrains the output on Ollama 0.5 and later
+  format: Record<string, unknown>;
+  options: { temperature: number; num_ctx: number; num_predict: number };
+  messages: Array<{ role: 'system' | 'user'; content: string }>;
+};
+
+/** A local Ollama server through its native `/api/chat` endpoint; nothing leaves the machine. */
+export const ollamaProvider: RemoteProviderDefinition = {
+  id: 'ollama',
+  label: 'Ollama (local)',
+  defaultBaseUrl: 'http://localhost:11434',
+  defaultModel: 'llama3.1',
+  capabilities: { requiresApiKey: false, supportsModelSelection: true, supportsContext: true, supportsLengthLimits: true },
+  auth: { type: 'none' },
+  resolveTokenLimits: () => ({ contextTokens: CONTEXT_TOKENS, outputTokens: MAX_OUTPUT_TOKENS }),
+  buildRequest: (batch, endpoint) => {
+    const payload: OllamaChatPayload = {
+      model: endpoint.model,
+      stream: false,
+      format: TRANSLATIONS_JSON_SCHEMA,
+      options: { temperature: 0.2, num_ctx: CONTEXT_TOKENS, num_predict: MAX_OUTPUT_TOKENS },
+      messages: [
+        { role: 'system', content: buildSystemPrompt(batch, endpoint.settings) },
+        { role: 'user', content: JSON.stringify(buildUserPayload(batch)) }
+      ]
+    };
+
+    return {
+      url: endpoint.baseUrl.endsWith(CHAT_PATH) ? endpoint.baseUrl : `${endpoint.baseUrl}${CHAT_PATH}`,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload)
+    };
+  },
+  parseResponse: (json, expectedLength) => {
+    const content = (json as { message?: { content?: unknown } })?.message?.content;
+    if (typeof content !== 'string' || !content) {
+      throw new TranslationProviderError('Translation provider returned an empty response.', 'malformed');
+    }
+    return parseTranslationsJson(content, expectedLength);
+  },
+  readUsage: (json) => {
+    const counts = json as { prompt_eval_count?: unknown; eval_count?: unknown };
+    return readTokenUsage(counts?.prompt_eval_count, counts?.eval_count);
+  },
+  describeHttpError: (status) => {
+    switch (status) {
+      case 403:
+        return {
+          message: 'Ollama refused the extension origin (403). Allow it with OLLAMA_ORIGINS=chrome-extension://*.',
+          kind: 'auth'
+        };
+      case 404:
+        return { message: 'Ollama does not have this model (404). Pull it first or pick a listed model.', kind: 'fatal' };
+      default:
+        return null;
+    }
+  },
+  modelListing: {
+    path: '/api/tags',
+    parse: (json) => {
+      const models = (json as { models?: Array<{ name?: unknown }> })?.models;
+      return Array.isArray(models)
+        ? models.map((model) => model?.name).filter((name): name is string => typeof name === 'string')
+        : [];
+    }
+  }
+};
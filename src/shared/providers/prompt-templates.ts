@@ -0,0 +1,106 @@
+import type { ProviderBatch } from './types';
+
+// Templates only set the translation style. The reply format (ids, JSON shape, read-only context) is
+// appended by the LLM providers after the template, so no template can break reply parsing.
+
+/** Variables a template may use as `{{name}}`; `{{#name}}…{{/name}}` is kept only when the value is not empty. */
+export const PROMPT_VARIABLES = ['sourceLanguage', 'targetLanguage', 'showTitle', 'glossary', 'context'] as const;
+
+export type PromptVariable = (typeof PROMPT_VARIABLES)[number];
+
+export type PromptVariables = Record<PromptVariable, string>;
+
+const BASE_INSTRUCTIONS = [
+  'You are a subtitle translation engine.',
+  'Translate every cue from {{sourceLanguage}} to {{targetLanguage}}.',
+  'Do not summarise, merge, or annotate the cues.',
+  '{{#showTitle}}The subtitles belong to "{{showTitle}}".{{/showTitle}}',
+  '{{#glossary}}Always translate these terms as listed:\n{{glossary}}{{/glossary}}'
+];
+
+const withStyle = (style: string): string => [...BASE_INSTRUCTIONS, style].join('\n');
+
+export const PROMPT_PRESETS = {
+  standard: { label: 'Standard', template: BASE_INSTRUCTIONS.join('\n') },
+  formal: {
+    label: 'Formal register',
+    template: withStyle('Use a formal register: polite forms of address and no slang or contractions.')
+  },
+  casual: {
+    label: 'Casual register',
+    template: withStyle('Use a casual, conversational register that sounds natural when spoken aloud.')
+  },
+  british: {
+    label: 'British English',
+    template: withStyle('Use British English spelling, vocabulary and punctuation.')
+  },
+  american: {
+    label: 'American English',
+    template: withStyle('Use American English spelling, vocabulary and punctuation.')
+  },
+  concise: {
+    label: 'Short for reading speed',
+    template: withStyle(
+      'Keep each translation as short as the meaning allows so it can be read at the cue duration; drop filler words and repetitions.'
+    )
+  }
+} satisfies Record<string, { label: string; template: string }>;
+
+export type PromptPresetId = keyof typeof PROMPT_PRESETS;
+
+/** `custom` selects the user's own template instead of a preset. */
+export type PromptTemplateChoice = PromptPresetId | 'custom';
+
+const isPromptPreset = (value: string): value is PromptPresetId =>
+  Object.prototype.hasOwnProperty.call(PROMPT_PRESETS, value);
+
+export const isPromptTemplateChoice = (value: string): value is PromptTemplateChoice =>
+  value === 'custom' || isPromptPreset(value);
+
+/** The selected template; an empty custom template or an unknown preset falls back to the standard one. */
+export const resolvePromptTemplate = (settings: { promptPreset: string; customPromptTemplate: string }): string => {
+  if (settings.promptPreset === 'custom' && settings.customPromptTemplate.trim()) {
+    return settings.customPromptTemplate;
+  }
+  return isPromptPreset(settings.promptPreset)
+    ? PROMPT_PRESETS[settings.promptPreset].template
+    : PROMPT_PRESETS.standard.template;
+};
+
+const SECTION_PATTERN = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const VARIABLE_PATTERN = /\{\{\s*([#/]?)(\w+)\s*\}\}/g;
+
+/** Variables the template refers to that do not exist; empty when the template is usable. */
+export const findUnknownPromptVariables = (template: string): string[] =>
+  Array.from(
+    new Set(
+      Array.from(template.matchAll(VARIABLE_PATTERN), (match) => match[2]).filter(
+        (name) => !PROMPT_VARIABLES.includes(name as PromptVariable)
+      )
+    )
+  );
+
+// Unknown variables are left in place so a typo shows up in the preview instead of vanishing. Lines
+// left empty, e.g. by a section whose variable is empty, are dropped.
+export const renderPromptTemplate = (template: string, variables: PromptVariables): string =>
+  template
+    .replace(SECTION_PATTERN, (section, name: string, body: string) => {
+      if (!PROMPT_VARIABLES.includes(name as PromptVariable)) {
+        return section;
+      }
+      return variables[name as PromptVariable].trim() ? body : '';
+    })
+    .replace(VARIABLE_PATTERN, (placeholder, marker: string, name: string) =>
+      marker === '' && PROMPT_VARIABLES.includes(name as PromptVariable) ? variables[name as PromptVariable] : placeholder
+    )
+    .split('\n')
+    .filter((line) => line.trim() !== '')
+    .join('\n');
+
+export const buildPromptVariables = (batch: ProviderBatch): PromptVariables => ({
+  sourceLanguage: batch.sourceLanguage,
+  targetLanguage: batch.targetLanguage,
+  showTitle: batch.showTitle ?? '',
+  glossary: (batch.glossary ?? []).map((entry) => `${entry.source} → ${entry.target}`).join('\n'),
+  context: [...batch.contextBefore, ...batch.contextAfter].join('\n')
+});
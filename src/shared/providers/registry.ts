@@ -0,0 +1,60 @@
+import { anthropicProvider } from './anthropic';
+import { azureProvider } from './azure';
+import { createChatCompletionsProvider } from './chat-completions';
+import { deeplProvider } from './deepl';
+import { googleProvider, googleV3Provider } from './google';
+import { libreTranslateProvider } from './libretranslate';
+import { ollamaProvider } from './ollama';
+import type { TranslationProviderDefinition } from './types';
+
+const demoProvider: TranslationProviderDefinition = {
+  id: 'demo',
+  label: 'Demo',
+  defaultBaseUrl: '',
+  defaultModel: 'demo-model',
+  capabilities: { requiresApiKey: false, supportsModelSelection: false, supportsContext: false, supportsLengthLimits: false },
+  auth: { type: 'none' },
+  translateLocally: (batch) => batch.segments.map((text) => `DEMO TRANSLATION: ${text.toUpperCase()}`)
+};
+
+// Registration order is the order providers are offered on the options page.
+const TRANSLATION_PROVIDERS = {
+  openai: createChatCompletionsProvider({
+    id: 'openai',
+    label: 'OpenAI',
+    defaultBaseUrl: 'https://api.openai.com/v1',
+    defaultModel: 'gpt-4o-mini-translate',
+    supportsJsonSchema: true
+  }),
+  mistral: createChatCompletionsProvider({
+    id: 'mistral',
+    label: 'Mistral',
+    defaultBaseUrl: 'https://api.mistral.ai/v1',
+    defaultModel: 'mistral-large-latest',
+    supportsJsonSchema: true
+  }),
+  anthropic: anthropicProvider,
+  deepl: deeplProvider,
+  google: googleProvider,
+  'google-v3': googleV3Provider,
+  azure: azureProvider,
+  ollama: ollamaProvider,
+  libretranslate: libreTranslateProvider,
+  demo: demoProvider
+} satisfies Record<string, TranslationProviderDefinition>;
+
+export type TranslationProvider = keyof typeof TRANSLATION_PROVIDERS;
+
+export const SUPPORTED_TRANSLATION_PROVIDERS = Object.keys(TRANSLATION_PROVIDERS) as TranslationProvider[];
+
+export const isSupportedProvider = (value: string): value is TranslationProvider =>
+  Object.prototype.hasOwnProperty.call(TRANSLATION_PROVIDERS, value);
+
+export const listTranslationProviders = (): TranslationProviderDefinition[] => Object.values(TRANSLATION_PROVIDERS);
+
+export const getTranslationProvider = (id: string): TranslationProviderDefinition => {
+  if (!isSupportedProvider(id)) {
+    throw new Error(`Unsupported translation provider: ${id}`);
+  }
+  return TRANSLATION_PROVIDERS[id];
+};
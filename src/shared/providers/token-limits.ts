@@ -0,0 +1,17 @@
+import type { ProviderTokenLimits } from './types';
+
+// Most specific prefix first; unknown models fall back to the provider's default limits.
+const KNOWN_MODEL_LIMITS: Array<[prefix: string, limits: ProviderTokenLimits]> = [
+  ['gpt-4.1', { contextTokens: 1_047_576, outputTokens: 32_768 }],
+  ['gpt-4o', { contextTokens: 128_000, outputTokens: 16_384 }],
+  ['gpt-4-turbo', { contextTokens: 128_000, outputTokens: 4_096 }],
+  ['gpt-3.5-turbo', { contextTokens: 16_385, outputTokens: 4_096 }],
+  ['mistral-large', { contextTokens: 128_000, outputTokens: 8_192 }],
+  ['mistral-medium', { contextTokens: 128_000, outputTokens: 8_192 }],
+  ['mistral-small', { contextTokens: 32_000, outputTokens: 8_192 }],
+  ['open-mistral-nemo', { contextTokens: 128_000, outputTokens: 8_192 }]
+];
+
+/** Limits for a model name as published by its vendor, matched by prefix so dated snapshots resolve too. */
+export const lookupModelTokenLimits = (model: string): ProviderTokenLimits | null =>
+  KNOWN_MODEL_LIMITS.find(([prefix]) => model.startsWith(prefix))?.[1] ?? null;
@@ -0,0 +1,120 @@
+import type { TranslationErrorKind } from '../translation-errors';
+import type { TranslationSettings } from '../translation-settings';
+import type { GlossaryEntry } from '../glossary';
+
+/** One batch of cues as handed to a provider, with read-only neighbouring cues for context. */
+export type ProviderBatch = {
+  segments: string[];
+  contextBefore: string[];
+  contextAfter: string[];
+  sourceLanguage: string;
+  targetLanguage: string;
+  /** Title of the programme being watched, when known. */
+  showTitle?: string;
+  /** Glossary terms that occur in the batch, for providers that take them inline or in the prompt. */
+  glossary?: GlossaryEntry[];
+  /** Id of the glossary stored with the provider through its `glossaryStore`, when one was created. */
+  glossaryId?: string;
+  /** Longest translation each segment may have, for condensed retranslations of cues read too fast. */
+  maxCharacters?: number[];
+};
+
+/** Connection details resolved from the user's settings and the provider defaults. */
+export type ProviderEndpoint = {
+  baseUrl: string;
+  model: string;
+  /** The full settings, for provider-specific options such as DeepL formality. */
+  settings: TranslationSettings;
+};
+
+/** A provider-specific explanation of an HTTP error status. */
+export type ProviderHttpError = {
+  message: string;
+  kind: TranslationErrorKind;
+};
+
+export type ProviderHttpRequest = {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+};
+
+/** How the API key is attached to each request; applied by the adapter, never by providers. */
+export type ProviderAuthScheme =
+  | { type: 'none' }
+  | { type: 'header'; name: string; prefix?: string }
+  | { type: 'query'; name: string };
+
+export type ProviderCapabilities = {
+  requiresApiKey: boolean;
+  /** Whether the user can pick a model; providers without one ignore the model setting. */
+  supportsModelSelection: boolean;
+  /** Whether neighbouring cues are sent along with each batch. */
+  supportsContext: boolean;
+  /** Whether the provider can be asked to keep translations under `maxCharacters`. */
+  supportsLengthLimits: boolean;
+  /** Upper bound on the source characters sent in one request; batches are cut to stay below it. */
+  maxCharactersPerRequest?: number;
+};
+
+/** What a model accepts per request; token counts are estimated, so limits should not be padded. */
+export type ProviderTokenLimits = {
+  /** Prompt and reply together. */
+  contextTokens: number;
+  /** Longest reply the model produces, or the `max_tokens` the provider requests. */
+  outputTokens: number;
+};
+
+type ProviderDescription = {
+  id: string;
+  label: string;
+  defaultBaseUrl: string;
+  defaultModel: string;
+  capabilities: ProviderCapabilities;
+  auth: ProviderAuthScheme;
+  /** Overrides `defaultBaseUrl` when the right host depends on the key, e.g. DeepL Free vs Pro. */
+  resolveDefaultBaseUrl?: (apiKey: string) => string;
+  /** Token limits of the given model, for providers billed and bounded by tokens rather than characters. */
+  resolveTokenLimits?: (model: string) => ProviderTokenLimits;
+  /** Clearer messages for statuses the provider uses in its own way; others get a generic message. */
+  describeHttpError?: (status: number) => ProviderHttpError | null;
+  /**
+   * Server-side glossaries, created by the adapter once per term list and language pair and then
+   * referenced by id in every request.
+   */
+  glossaryStore?: {
+    /** POST endpoint, relative to the base URL; a glossary is deleted with DELETE `{path}/{id}`. */
+    path: string;
+    buildBody: (entries: GlossaryEntry[], sourceLanguage: string, targetLanguage: string) => string;
+    parseId: (json: unknown) => string | null;
+  };
+  /** GET endpoint, relative to the base URL, that lists what the server can translate with. */
+  modelListing?: {
+    path: string;
+    parse: (json: unknown) => string[];
+  };
+};
+
+/** Tokens a request consumed, as reported by the provider. */
+export type ProviderUsage = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+export type RemoteProviderDefinition = ProviderDescription & {
+  buildRequest: (batch: ProviderBatch, endpoint: ProviderEndpoint) => ProviderHttpRequest;
+  /**
+   * Returns one entry per segment, or throws a `TranslationProviderError`. A null entry marks a segment
+   * the reply left out; the adapter requests it again on its own.
+   */
+  parseResponse: (json: unknown, expectedLength: number) => Array<string | null>;
+  /** Reads the token usage block of a response; null when the response carries none. */
+  readUsage?: (json: unknown) => ProviderUsage | null;
+};
+
+/** Providers that answer without a network round trip, such as the demo provider. */
+export type LocalProviderDefinition = ProviderDescription & {
+  translateLocally: (batch: ProviderBatch) => string[];
+};
+
+export type TranslationProviderDefinition = RemoteProviderDefinition | LocalProviderDefinition;
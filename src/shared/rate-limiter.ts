@@ -0,0 +1,75 @@
+export type RateLimiter = {
+  /** Takes a token and returns how many milliseconds the caller must wait before sending. */
+  reserve: () => number;
+  /** Blocks every caller for the given duration, e.g. after a provider answered HTTP 429. */
+  pause: (durationMs: number) => void;
+};
+
+export type TokenBucketOptions = {
+  requestsPerMinute: number;
+  burst?: number;
+  now?: () => number;
+};
+
+/**
+ * Token bucket refilled continuously at `requestsPerMinute`. Tokens may go negative: each caller
+ * reserves its slot immediately and waits out the deficit, so concurrent callers queue fairly.
+ */
+export const createTokenBucket = (options: TokenBucketOptions): RateLimiter => {
+  const now = options.now ?? Date.now;
+  const capacity = Math.max(1, options.burst ?? options.requestsPerMinute);
+  const refillPerMs = options.requestsPerMinute / 60_000;
+  let tokens = capacity;
+  let lastRefillAt = now();
+  let blockedUntil = 0;
+
+  const refill = (timestamp: number): void => {
+    tokens = Math.min(capacity, tokens + (timestamp - lastRefillAt) * refillPerMs);
+    lastRefillAt = timestamp;
+  };
+
+  return {
+    reserve: () => {
+      const timestamp = now();
+      refill(timestamp);
+      tokens -= 1;
+      const deficitWait = tokens < 0 ? Math.ceil(-tokens / refillPerMs) : 0;
+      return Math.max(deficitWait, blockedUntil - timestamp, 0);
+    },
+    pause: (durationMs) => {
+      blockedUntil = Math.max(blockedUntil, now() + durationMs);
+    }
+  };
+};
+
+const providerLimiters = new Map<string, { requestsPerMinute: number; limiter: RateLimiter }>();
+
+/** Returns the limiter shared by every translation sent to the same provider. */
+export const getProviderRateLimiter = (provider: string, requestsPerMinute: number): RateLimiter => {
+  const existing = providerLimiters.get(provider);
+  if (existing && existing.requestsPerMinute === requestsPerMinute) {
+    return existing.limiter;
+  }
+
+  const limiter = createTokenBucket({ requestsPerMinute });
+  providerLimiters.set(provider, { requestsPerMinute, limiter });
+  return limiter;
+};
+
+/** Parses a `Retry-After` header (delay in seconds or an HTTP date) into milliseconds. */
+export const parseRetryAfter = (value: string | null, now: number = Date.now()): number | null => {
+  if (!value) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return null;
+  }
+  return Math.max(0, date - now);
+};
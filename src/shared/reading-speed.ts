@@ -0,0 +1,48 @@
+import type { CueTiming } from './batch-scheduler';
+
+/** What the viewer reads: runs of whitespace, line breaks included, count as one character. */
+export const countReadableCharacters = (text: string): number => text.replace(/\s+/g, ' ').trim().length;
+
+const getDuration = (timing: CueTiming | null | undefined): number | null =>
+  timing && timing.end > timing.start ? timing.end - timing.start : null;
+
+/** Reading speed a cue demands; null when its timing is unknown or empty. */
+export const computeCharactersPerSecond = (text: string, timing: CueTiming | null | undefined): number | null => {
+  const duration = getDuration(timing);
+  return duration === null ? null : countReadableCharacters(text) / duration;
+};
+
+/** Longest text readable within the cue at the given speed; null when its timing is unknown. */
+export const computeCharacterBudget = (timing: CueTiming | null | undefined, maxCharactersPerSecond: number): number | null => {
+  const duration = getDuration(timing);
+  return duration === null ? null : Math.max(1, Math.floor(duration * maxCharactersPerSecond));
+};
+
+/**
+ * Re-wraps a cue whose lines exceed the width, filling each line with as many words as fit. Cues
+ * that already fit keep their own line breaks; a word longer than the width gets a line of its own.
+ */
+export const wrapSubtitleLines = (text: string, maxLineLength: number): string => {
+  const lines = text.split('\n');
+  if (maxLineLength <= 0 || lines.every((line) => line.trim().length <= maxLineLength)) {
+    return text;
+  }
+
+  const wrapped: string[] = [];
+  let current = '';
+  text
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach((word) => {
+      if (current && current.length + 1 + word.length > maxLineLength) {
+        wrapped.push(current);
+        current = word;
+        return;
+      }
+      current = current ? `${current} ${word}` : word;
+    });
+  if (current) {
+    wrapped.push(current);
+  }
+  return wrapped.join('\n');
+};
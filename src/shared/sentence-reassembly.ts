@@ -0,0 +1,151 @@
+import type { CueTiming } from './batch-scheduler';
+
+/** Consecutive cues that together hold one sentence, translated as a single unit. */
+export type SentenceGroup = {
+  cueIndexes: number[];
+  text: string;
+};
+
+const MAX_CUES_PER_SENTENCE = 4;
+// A longer silence between two cues is treated as a sentence break even without punctuation.
+const MAX_SENTENCE_GAP_SECONDS = 2;
+
+const ELLIPSIS_END = /(?:\.\.\.|…)$/;
+const ELLIPSIS_START = /^(?:\.\.\.|…)\s*/;
+const TERMINAL_PUNCTUATION = /[.!?»"”]$/;
+const DIALOGUE_LINE = /^\s*[-–—]/m;
+
+const normalizeWhitespace = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const startsLowercase = (text: string): boolean => {
+  const first = text.trim().charAt(0);
+  return first !== first.toUpperCase();
+};
+
+// French subtitles mark a sentence running on into the next cue with a trailing "..." (often
+// echoed at the start of the next cue) or simply leave the cue without terminal punctuation.
+const continuesInto = (current: string, next: string, gapSeconds: number | null): boolean => {
+  const text = current.trim();
+  const following = next.trim();
+  if (!text || !following || DIALOGUE_LINE.test(text) || DIALOGUE_LINE.test(following)) {
+    return false;
+  }
+
+  if (gapSeconds !== null && gapSeconds > MAX_SENTENCE_GAP_SECONDS) {
+    return false;
+  }
+
+  if (ELLIPSIS_END.test(text)) {
+    return ELLIPSIS_START.test(following) || startsLowercase(following);
+  }
+
+  return !TERMINAL_PUNCTUATION.test(text);
+};
+
+const joinSentence = (texts: string[]): string =>
+  texts
+    .map((text, position) => {
+      let part = normalizeWhitespace(text);
+      if (position > 0) {
+        part = part.replace(ELLIPSIS_START, '');
+      }
+      if (position < texts.length - 1) {
+        part = part.replace(ELLIPSIS_END, '');
+      }
+      return part;
+    })
+    .join(' ');
+
+/**
+ * Groups consecutive cues into sentences. Cues that already stand alone form single-cue groups and
+ * keep their text untouched, so only genuinely split sentences change what the provider sees.
+ */
+export const groupCuesIntoSentences = (texts: string[], timings: Array<CueTiming | null> = []): SentenceGroup[] => {
+  const groups: SentenceGroup[] = [];
+  let current: number[] = [];
+
+  const flush = (): void => {
+    if (current.length === 0) {
+      return;
+    }
+    const text = current.length === 1 ? texts[current[0]] : joinSentence(current.map((index) => texts[index]));
+    groups.push({ cueIndexes: current, text });
+    current = [];
+  };
+
+  texts.forEach((text, index) => {
+    current.push(index);
+    const next = texts[index + 1];
+    const currentTiming = timings[index];
+    const nextTiming = timings[index + 1];
+    const gapSeconds = currentTiming && nextTiming ? nextTiming.start - currentTiming.end : null;
+
+    if (next === undefined || current.length >= MAX_CUES_PER_SENTENCE || !continuesInto(text, next, gapSeconds)) {
+      flush();
+    }
+  });
+
+  return groups;
+};
+
+/** Cue durations used to share out a sentence; falls back to source text length when timings are missing. */
+export const computeCueWeights = (cueIndexes: number[], texts: string[], timings: Array<CueTiming | null> = []): number[] => {
+  const durations = cueIndexes.map((index) => {
+    const timing = timings[index];
+    return timing ? timing.end - timing.start : null;
+  });
+
+  if (durations.every((duration): duration is number => duration !== null && duration > 0)) {
+    return durations;
+  }
+  return cueIndexes.map((index) => Math.max(1, texts[index].trim().length));
+};
+
+/**
+ * Splits a translated sentence back over its cues on word boundaries, giving each cue a share of the
+ * characters proportional to its weight. Every cue receives at least one word when there are enough.
+ */
+export const redistributeTranslation = (translation: string, weights: number[]): string[] => {
+  if (weights.length <= 1) {
+    return [translation];
+  }
+
+  const words = normalizeWhitespace(translation).split(' ').filter(Boolean);
+  if (words.length <= weights.length) {
+    return weights.map((_weight, index) => words[index] ?? '');
+  }
+
+  const wordEnds: number[] = [];
+  words.reduce((length, word, index) => {
+    const end = length + (index > 0 ? 1 : 0) + word.length;
+    wordEnds.push(end);
+    return end;
+  }, 0);
+  const totalLength = wordEnds[wordEnds.length - 1];
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  const parts: string[] = [];
+  let start = 0;
+  let cumulativeWeight = 0;
+  weights.forEach((weight, cueIndex) => {
+    if (cueIndex === weights.length - 1) {
+      parts.push(words.slice(start).join(' '));
+      return;
+    }
+
+    cumulativeWeight += weight;
+    const target = (cumulativeWeight / totalWeight) * totalLength;
+    // Leave at least one word for each remaining cue
+    const lastAllowed = words.length - (weights.length - cueIndex);
+    let end = start;
+    for (let candidate = start + 1; candidate <= lastAllowed; candidate += 1) {
+      if (Math.abs(wordEnds[candidate] - target) < Math.abs(wordEnds[end] - target)) {
+        end = candidate;
+      }
+    }
+    parts.push(words.slice(start, end + 1).join(' '));
+    start = end + 1;
+  });
+
+  return parts;
+};
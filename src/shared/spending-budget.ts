@@ -0,0 +1,65 @@
+import type { TranslationSettings } from './translation-settings';
+import type { UsageCostLine } from './usage-ledger';
+
+export const BUDGET_PERIODS = ['day', 'month'] as const;
+
+export type BudgetPeriod = (typeof BUDGET_PERIODS)[number];
+
+/** Token budgets count LLM tokens only; character-billed providers are capped by a dollar budget. */
+export const BUDGET_UNITS = ['usd', 'tokens'] as const;
+
+export type BudgetUnit = (typeof BUDGET_UNITS)[number];
+
+export type BudgetSettings = Pick<
+  TranslationSettings,
+  'budgetLimit' | 'budgetPeriod' | 'budgetUnit' | 'budgetWarningPercent'
+>;
+
+export type BudgetStatus =
+  | { state: 'unlimited' }
+  | { state: 'ok'; spent: number; limit: number }
+  | { state: 'warning' | 'exceeded'; spent: number; limit: number; message: string };
+
+export const formatBudgetAmount = (amount: number, unit: BudgetUnit): string =>
+  unit === 'usd' ? `$${amount.toFixed(2)}` : `${Math.round(amount).toLocaleString('en-US')} tokens`;
+
+const PERIOD_LABELS: Record<BudgetPeriod, { adjective: string; reset: string }> = {
+  day: { adjective: 'daily', reset: 'tomorrow' },
+  month: { adjective: 'monthly', reset: 'next month' }
+};
+
+export const measureSpending = (spending: UsageCostLine, unit: BudgetUnit): number =>
+  unit === 'usd' ? spending.cost : spending.totals.inputTokens + spending.totals.outputTokens;
+
+/** Compares what was spent in the current period with the cap; a limit of 0 disables the cap. */
+export const evaluateBudget = (budget: BudgetSettings, spending: UsageCostLine): BudgetStatus => {
+  if (!(budget.budgetLimit > 0)) {
+    return { state: 'unlimited' };
+  }
+
+  const limit = budget.budgetLimit;
+  const spent = measureSpending(spending, budget.budgetUnit);
+  const { adjective, reset } = PERIOD_LABELS[budget.budgetPeriod];
+  const limitText = formatBudgetAmount(limit, budget.budgetUnit);
+  const spentText = formatBudgetAmount(spent, budget.budgetUnit);
+
+  if (spent >= limit) {
+    return {
+      state: 'exceeded',
+      spent,
+      limit,
+      message: `The ${adjective} translation budget of ${limitText} is used up (${spentText} spent). Raise it on the options page or wait until ${reset}.`
+    };
+  }
+
+  if (spent >= (limit * budget.budgetWarningPercent) / 100) {
+    return {
+      state: 'warning',
+      spent,
+      limit,
+      message: `${Math.floor((spent / limit) * 100)}% of the ${adjective} translation budget is used (${spentText} of ${limitText}).`
+    };
+  }
+
+  return { state: 'ok', spent, limit };
+};
@@ -0,0 +1,47 @@
+import { extensionBrowser } from './browser';
+
+export type StorageAreaLike = Pick<chrome.storage.StorageArea, 'get' | 'set'>;
+
+export const getLocalStorageArea = (): StorageAreaLike => {
+  const storageArea = extensionBrowser.storage?.local;
+  if (!storageArea) {
+    throw new Error('Extension local storage is unavailable.');
+  }
+  return storageArea;
+};
+
+export const readStorageValue = async <T>(
+  storageArea: StorageAreaLike,
+  key: string,
+  fallback: T
+): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    storageArea.get({ [key]: fallback }, (items) => {
+      const error = extensionBrowser.runtime.lastError;
+      if (error) {
+        reject(new Error(error.message ?? `Unable to read ${key} from storage.`));
+        return;
+      }
+
+      const value = (items as Record<string, unknown>)?.[key];
+      resolve(value === undefined ? fallback : (value as T));
+    });
+  });
+};
+
+export const writeStorageValue = async <T>(
+  storageArea: StorageAreaLike,
+  key: string,
+  value: T
+): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    storageArea.set({ [key]: value }, () => {
+      const error = extensionBrowser.runtime.lastError;
+      if (error) {
+        reject(new Error(error.message ?? `Unable to write ${key} to storage.`));
+        return;
+      }
+      resolve();
+    });
+  });
+};
@@ -1,32 +1,69 @@
 import { extensionBrowser } from './browser';
 import {
   DEFAULT_TRANSLATION_SETTINGS,
-  SUPPORTED_TRANSLATION_PROVIDERS,
-  type TranslationProvider,
+  migrateStoredSettings,
+  splitSettingsByArea,
+  type TranslationProviderConfig,
   type TranslationSettings
 } from './translation-settings';
+import { getTranslationProvider } from './providers/registry';
+import { resolvePromptTemplate } from './providers/prompt-templates';
+import type {
+  ProviderAuthScheme,
+  ProviderBatch,
+  RemoteProviderDefinition,
+  TranslationProviderDefinition
+} from './providers/types';
+import type { TranslationMemory, TranslationMemoryScope } from './translation-memory';
+import { hashText } from './translation-cache';
+import { getLocalStorageArea, readStorageValue, writeStorageValue, type StorageAreaLike } from './storage';
+import type { TranslationUsage, UsageLedger } from './usage-ledger';
+import { evaluateBudget } from './spending-budget';
+import { findGlossaryTerms, type GlossaryEntry } from './glossary';
+import { computeBatchTiming, pickNextBatch, type CueTiming } from './batch-scheduler';
+import { getProviderRateLimiter, parseRetryAfter, type RateLimiter } from './rate-limiter';
+import { TranslationProviderError, classifyHttpStatus, getErrorKind } from './translation-errors';
 
 export type TranslationRequest = {
   texts: string[];
   sourceLanguage: string;
   targetLanguage: string;
+  /** Cue timings aligned with `texts`, used to translate the cues nearest the playhead first. */
+  timings?: Array<CueTiming | null>;
+  /** Title of the programme, offered to prompt templates. */
+  showTitle?: string;
+  /** Terms every cue must translate as listed. */
+  glossary?: GlossaryEntry[];
+  /**
+   * Longest translation each text may have, aligned with `texts`; set for condensed retranslations,
+   * which bypass the translation memory.
+   */
+  maxCharacters?: number[];
 };
 
 type TranslationSegment = { index: number; text: string };
 
-const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
-const MISTRAL_DEFAULT_BASE_URL = 'https://api.mistral.ai/v1';
-const CHAT_COMPLETIONS_PATH = '/chat/completions';
+/** `provider` is the id of the provider whose translation filled the cue. */
+export type TranslatedSegment = { index: number; text: string; provider: string };
 
-const PROVIDER_DEFAULT_MODELS: Record<TranslationProvider, string> = {
-  openai: 'gpt-4o-mini-translate',
-  mistral: 'mistral-large-latest',
-  demo: 'demo-model'
-};
-
-const MAX_SEGMENTS_PER_BATCH = 20;
+// Secondary to the character and token budgets, which decide batch size for most providers
+const MAX_SEGMENTS_PER_BATCH = 40;
 const MIN_BATCH_SIZE = 1;
 const MAX_BATCH_OVERRIDE = 50;
+const MAX_CONCURRENT_REQUESTS = 8;
+const MAX_REQUESTS_PER_MINUTE = 1000;
+const MAX_CONTEXT_WINDOW_SIZE = 10;
+const MAX_RATE_LIMIT_RETRIES = 3;
+const DEFAULT_RATE_LIMIT_DELAY_MS = 1000;
+const MAX_TRANSIENT_RETRIES = 3;
+const MAX_MALFORMED_ATTEMPTS = 2;
+const RETRY_BASE_DELAY_MS = 500;
+// Token estimates err on the high side: about three characters per token across European languages,
+// replies up to half again as long as their source, and a fixed allowance for the prompt and JSON.
+const CHARACTERS_PER_TOKEN = 3;
+const OUTPUT_EXPANSION = 1.5;
+const PROMPT_OVERHEAD_TOKENS = 300;
+const SEGMENT_OVERHEAD_TOKENS = 3;
 
 const log = (message: string, details: Record<string, unknown> = {}): void => {
   console.log('[Arte Subtitle Translator][translation]', message, details);
@@ -43,48 +80,162 @@ const sanitizeBatchSize = (value?: number): number => {
   return clamped;
 };
 
-const chunkSegments = (segments: TranslationSegment[], batchSize: number): TranslationSegment[][] => {
+const clampSetting = (value: number | undefined, fallback: number, max: number): number => {
+  if (value === undefined || !Number.isFinite(value) || value < 1) {
+    return fallback;
+  }
+  return Math.min(max, Math.floor(value));
+};
+
+const defaultSleep = (durationMs: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, durationMs));
+
+type ProviderRequestInit = NonNullable<Parameters<typeof fetch>[1]>;
+
+type ProviderTransport = {
+  fetchFn: typeof fetch;
+  limiter: RateLimiter;
+  sleepFn: (durationMs: number) => Promise<void>;
+  onUsage?: (usage: TranslationUsage) => void;
+  /** Where the ids of created provider glossaries are kept; without it they last as long as the worker. */
+  glossaryStorage?: StorageAreaLike;
+};
+
+// Waits for the provider's token bucket before every request and honours HTTP 429 responses by
+// pausing the whole bucket for the Retry-After delay, so parallel batches back off together.
+const fetchWithRateLimit = async (
+  transport: ProviderTransport,
+  url: string,
+  init: ProviderRequestInit
+): Promise<Response> => {
+  for (let attempt = 0; ; attempt += 1) {
+    await transport.sleepFn(transport.limiter.reserve());
+    let response: Response;
+    try {
+      response = await transport.fetchFn(url, init);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new TranslationProviderError(`Translation provider request failed: ${message}`, 'transient');
+    }
+    if (response.status !== 429 || attempt >= MAX_RATE_LIMIT_RETRIES) {
+      return response;
+    }
+
+    const retryAfterMs =
+      parseRetryAfter(response.headers?.get('Retry-After') ?? null) ?? DEFAULT_RATE_LIMIT_DELAY_MS * 2 ** attempt;
+    log('Translation provider rate limited the request.', { status: response.status, retryAfterMs });
+    transport.limiter.pause(retryAfterMs);
+  }
+};
+
+// Fills batches up to `batchSize` segments and, for providers that bill or cap by characters, up to
+// `maxCharacters`; a single segment longer than the limit still gets a batch of its own.
+const estimateTokens = (text: string): number => Math.ceil(text.length / CHARACTERS_PER_TOKEN);
+
+/** An additive per-request limit: the summed `cost` of a batch's segments must stay within `max`. */
+type BatchLimit = {
+  max: number;
+  cost: (segment: TranslationSegment) => number;
+};
+
+// A segment that exceeds a limit on its own still gets a batch of its own.
+const chunkSegments = (
+  segments: TranslationSegment[],
+  batchSize: number,
+  limits: BatchLimit[] = []
+): TranslationSegment[][] => {
   const batches: TranslationSegment[][] = [];
-  for (let index = 0; index < segments.length; index += batchSize) {
-    batches.push(segments.slice(index, index + batchSize));
+  let current: TranslationSegment[] = [];
+  let totals = limits.map(() => 0);
+
+  segments.forEach((segment) => {
+    const costs = limits.map((limit) => limit.cost(segment));
+    const exceedsLimit = limits.some((limit, index) => totals[index] + costs[index] > limit.max);
+    if (current.length > 0 && (current.length >= batchSize || exceedsLimit)) {
+      batches.push(current);
+      current = [];
+      totals = limits.map(() => 0);
+    }
+    current.push(segment);
+    totals = totals.map((total, index) => total + costs[index]);
+  });
+
+  if (current.length > 0) {
+    batches.push(current);
   }
   return batches;
 };
 
-const buildSystemPrompt = (sourceLanguage: string, targetLanguage: string): string => {
-  return [
-    'You are a subtitle translation engine.',
-    `Translate every cue from ${sourceLanguage} to ${targetLanguage}.`,
-    'Do not summarise, merge, or annotate the cues.',
-    'Keep the same number of cues and their order.',
-    'Reply with JSON: {"translations":["string"]} matching the provided order.'
-  ].join(' ');
+const resolveContextWindowSize = (settings: TranslationSettings): number => {
+  const value = settings.contextWindowSize;
+  if (value === undefined || !Number.isFinite(value) || value < 0) {
+    return DEFAULT_TRANSLATION_SETTINGS.contextWindowSize;
+  }
+  return Math.min(MAX_CONTEXT_WINDOW_SIZE, Math.floor(value));
+};
+
+// Providers that cannot take context cues are sent none, whatever the setting.
+const resolveProviderContextSize = (provider: TranslationProviderDefinition, settings: TranslationSettings): number =>
+  provider.capabilities.supportsContext ? resolveContextWindowSize(settings) : 0;
+
+// Collects up to `size` non-blank cues outside the batch, walking away from it in `step` direction.
+const collectContext = (texts: string[], from: number, step: 1 | -1, size: number, batchIndexes: Set<number>): string[] => {
+  const context: string[] = [];
+  for (let index = from; index >= 0 && index < texts.length && context.length < size; index += step) {
+    if (!batchIndexes.has(index) && !shouldSkipTranslation(texts[index])) {
+      context.push(texts[index]);
+    }
+  }
+  return step === -1 ? context.reverse() : context;
 };
 
-const buildUserPayload = (segments: TranslationSegment[], request: TranslationRequest) => ({
-  sourceLanguage: request.sourceLanguage,
-  targetLanguage: request.targetLanguage,
-  instruction: 'Translate each cue and keep the same order.',
-  segments: segments.map((segment) => segment.text)
-});
+const buildProviderBatch = (
+  segments: TranslationSegment[],
+  request: TranslationRequest,
+  contextWindowSize: number
+): ProviderBatch => {
+  const batchIndexes = new Set(segments.map((segment) => segment.index));
+  const { maxCharacters } = request;
+  const firstIndex = Math.min(...batchIndexes);
+  const lastIndex = Math.max(...batchIndexes);
 
-const getProviderBaseUrl = (provider: TranslationProvider, apiBaseUrl: string): string => {
-  const provided = apiBaseUrl.trim();
+  return {
+    segments: segments.map((segment) => segment.text),
+    contextBefore: collectContext(request.texts, firstIndex - 1, -1, contextWindowSize, batchIndexes),
+    contextAfter: collectContext(request.texts, lastIndex + 1, 1, contextWindowSize, batchIndexes),
+    sourceLanguage: request.sourceLanguage,
+    targetLanguage: request.targetLanguage,
+    ...(request.showTitle ? { showTitle: request.showTitle } : {}),
+    glossary: findGlossaryTerms(
+      segments.map((segment) => segment.text),
+      request.glossary ?? []
+    ),
+    ...(maxCharacters ? { maxCharacters: segments.map((segment) => maxCharacters[segment.index]) } : {})
+  };
+};
+
+const getProviderBaseUrl = (provider: TranslationProviderDefinition, settings: TranslationSettings): string => {
+  const provided = settings.apiBaseUrl.trim();
   if (provided.length > 0) {
     return stripTrailingSlash(provided);
   }
-  return provider === 'openai' ? OPENAI_DEFAULT_BASE_URL : MISTRAL_DEFAULT_BASE_URL;
+  return provider.resolveDefaultBaseUrl?.(settings.apiKey) ?? provider.defaultBaseUrl;
 };
 
-const ensureProvider = (provider: string): TranslationProvider => {
-  if (SUPPORTED_TRANSLATION_PROVIDERS.includes(provider as TranslationProvider)) {
-    return provider as TranslationProvider;
+const buildAuthHeaders = (auth: ProviderAuthScheme, apiKey: string): Record<string, string> =>
+  auth.type === 'header' ? { [auth.name]: `${auth.prefix ?? ''}${apiKey}` } : {};
+
+const applyAuthQuery = (url: string, auth: ProviderAuthScheme, apiKey: string): string => {
+  if (auth.type !== 'query') {
+    return url;
   }
-  throw new Error(`Unsupported translation provider: ${provider}`);
+  const withKey = new URL(url);
+  withKey.searchParams.set(auth.name, apiKey);
+  return withKey.toString();
 };
 
-const ensureApiKey = (settings: TranslationSettings): void => {
-  if (settings.provider === 'demo') {
+const ensureApiKey = (provider: TranslationProviderDefinition, settings: TranslationSettings): void => {
+  if (!provider.capabilities.requiresApiKey) {
     return;
   }
 
@@ -93,152 +244,602 @@ const ensureApiKey = (settings: TranslationSettings): void => {
   }
 };
 
-const loadTranslationSettings = async (): Promise<TranslationSettings> => {
-  const storageArea = extensionBrowser.storage.sync ?? extensionBrowser.storage.local;
-  if (!storageArea) {
-    throw new Error('Translation preferences storage is unavailable.');
+type ProviderChainEntry = {
+  provider: TranslationProviderDefinition;
+  settings: TranslationSettings;
+  transport: ProviderTransport;
+};
+
+const FALLBACK_ERROR_KINDS = new Set(['auth', 'quota', 'transient']);
+
+// The primary provider followed by the configured fallbacks. Entries that cannot be used (an unknown
+// provider or a missing key) are skipped; the primary provider's error surfaces when none are usable.
+const resolveProviderChain = (
+  settings: TranslationSettings,
+  buildTransport: (provider: TranslationProviderDefinition, settings: TranslationSettings) => ProviderTransport
+): ProviderChainEntry[] => {
+  const configs: TranslationProviderConfig[] = [settings, ...(settings.fallbackProviders ?? [])];
+  const chain: ProviderChainEntry[] = [];
+  let primaryError: unknown = null;
+
+  configs.forEach((config, position) => {
+    const entrySettings: TranslationSettings = {
+      ...settings,
+      provider: config.provider,
+      apiBaseUrl: config.apiBaseUrl ?? '',
+      apiKey: config.apiKey ?? '',
+      model: config.model ?? ''
+    };
+    try {
+      const provider = getTranslationProvider(entrySettings.provider);
+      ensureApiKey(provider, entrySettings);
+      chain.push({ provider, settings: entrySettings, transport: buildTransport(provider, entrySettings) });
+    } catch (error) {
+      if (position === 0) {
+        primaryError = error;
+      }
+      log('Skipping unusable translation provider.', { provider: config.provider, error: String(error) });
+    }
+  });
+
+  if (chain.length === 0) {
+    throw primaryError;
   }
+  return chain;
+};
+
+const estimateOutputTokens = (segment: TranslationSegment): number =>
+  Math.ceil(estimateTokens(segment.text) * OUTPUT_EXPANSION) + SEGMENT_OVERHEAD_TOKENS;
 
-  return new Promise((resolve, reject) => {
-    storageArea.get(DEFAULT_TRANSLATION_SETTINGS, (items) => {
+// Character-bound providers cap the source text; token-bound ones cap the reply and the whole
+// exchange, less room for the context cues sent on each side of the batch at `contextCueTokens` apiece.
+const buildBatchLimits = (entry: ProviderChainEntry, contextCueTokens: number): BatchLimit[] => {
+  const limits: BatchLimit[] = [];
+  const { maxCharactersPerRequest } = entry.provider.capabilities;
+  if (maxCharactersPerRequest) {
+    limits.push({ max: maxCharactersPerRequest, cost: (segment) => segment.text.length });
+  }
+
+  const tokenLimits = entry.provider.resolveTokenLimits?.(resolveTranslationModel(entry.settings));
+  if (tokenLimits) {
+    limits.push({ max: tokenLimits.outputTokens, cost: estimateOutputTokens });
+    limits.push({
+      max:
+        tokenLimits.contextTokens -
+        PROMPT_OVERHEAD_TOKENS -
+        2 * resolveProviderContextSize(entry.provider, entry.settings) * contextCueTokens,
+      cost: (segment) => estimateTokens(segment.text) + SEGMENT_OVERHEAD_TOKENS + estimateOutputTokens(segment)
+    });
+  }
+  return limits;
+};
+
+const readSettingsArea = async (
+  storageArea: StorageAreaLike,
+  defaults: Partial<TranslationSettings>
+): Promise<Partial<TranslationSettings>> =>
+  new Promise((resolve, reject) => {
+    storageArea.get(defaults, (items) => {
       const error = extensionBrowser.runtime.lastError;
       if (error) {
         reject(new Error(error.message ?? 'Unable to read translation preferences.'));
         return;
       }
 
-      resolve({ ...DEFAULT_TRANSLATION_SETTINGS, ...(items as Partial<TranslationSettings>) });
+      resolve(items as Partial<TranslationSettings>);
     });
   });
+
+export const loadTranslationSettings = async (): Promise<TranslationSettings> => {
+  const { sync, local } = extensionBrowser.storage;
+  const storageArea = sync ?? local;
+  if (!storageArea) {
+    throw new Error('Translation preferences storage is unavailable.');
+  }
+
+  const synced = await readSettingsArea(storageArea, DEFAULT_TRANSLATION_SETTINGS);
+  // Lists saved in sync storage by earlier versions apply until the options are saved again
+  const { local: localDefaults } = splitSettingsByArea({ ...DEFAULT_TRANSLATION_SETTINGS, ...synced });
+  const localSettings = local ? await readSettingsArea(local, localDefaults) : {};
+  return migrateStoredSettings({ ...DEFAULT_TRANSLATION_SETTINGS, ...synced, ...localSettings });
 };
 
-type ChatCompletionsPayload = {
-  model: string;
-  temperature: number;
-  response_format: { type: 'json_object' };
-  messages: Array<{ role: 'system' | 'user'; content: string }>;
+export const resolveTranslationModel = (settings: TranslationSettings): string => {
+  const provider = getTranslationProvider(settings.provider);
+  return (provider.capabilities.supportsModelSelection && settings.model) || provider.defaultModel;
 };
 
-const buildChatCompletionsPayload = (
-  batch: TranslationSegment[],
-  request: TranslationRequest,
-  settings: TranslationSettings
-): ChatCompletionsPayload => {
-  const model = settings.model || PROVIDER_DEFAULT_MODELS[ensureProvider(settings.provider)];
-  return {
-    model,
-    temperature: 0.2,
-    response_format: { type: 'json_object' },
-    messages: [
-      { role: 'system', content: buildSystemPrompt(request.sourceLanguage, request.targetLanguage) },
-      { role: 'user', content: JSON.stringify(buildUserPayload(batch, request)) }
-    ]
-  };
+// Token-bound providers that omit a usage block are estimated from the request and reply sizes;
+// character-bound providers are billed on the source characters alone.
+const estimateUsage = (
+  provider: RemoteProviderDefinition,
+  requestBody: string,
+  json: unknown
+): { inputTokens: number; outputTokens: number } => {
+  const reported = provider.readUsage?.(json);
+  if (reported) {
+    return reported;
+  }
+  if (!provider.resolveTokenLimits) {
+    return { inputTokens: 0, outputTokens: 0 };
+  }
+  return { inputTokens: estimateTokens(requestBody), outputTokens: estimateTokens(JSON.stringify(json)) };
 };
 
-const normalizeMessageContent = (content: unknown): string => {
-  if (typeof content === 'string') {
-    return content;
+const reportUsage = (transport: ProviderTransport, usage: TranslationUsage): void => {
+  try {
+    transport.onUsage?.(usage);
+  } catch (error) {
+    log('Usage listener failed.', { error: String(error) });
   }
+};
 
-  if (Array.isArray(content)) {
-    const textPart = content.find((part) => typeof part?.text === 'string');
-    if (textPart && typeof textPart.text === 'string') {
-      return textPart.text;
-    }
+export const PROVIDER_GLOSSARIES_STORAGE_KEY = 'providerGlossaries';
+
+/** The glossary created for one provider endpoint, key and language pair, and the terms it holds. */
+type ProviderGlossaryRecord = { termsHash: string; glossaryId: string };
+
+type ProviderGlossaryRecords = Record<string, ProviderGlossaryRecord>;
+
+// Created glossaries per provider endpoint, key, language pair and term list, shared by concurrent
+// batches. Only transient failures are forgotten; otherwise the glossary is left out for the rest of
+// the worker's life.
+const storedGlossaries = new Map<string, Promise<string | null>>();
+// Glossary records are read, replaced and written back one creation at a time
+let pendingGlossaryUpdate: Promise<unknown> = Promise.resolve();
+
+// Glossaries still work without extension storage, they are just created again by the next worker
+const findGlossaryStorage = (): StorageAreaLike | undefined => {
+  try {
+    return getLocalStorageArea();
+  } catch {
+    return undefined;
   }
+};
 
-  throw new Error('Translation provider returned an unsupported response payload.');
+const readGlossaryRecords = async (storageArea: StorageAreaLike | undefined): Promise<ProviderGlossaryRecords> => {
+  if (!storageArea) {
+    return {};
+  }
+
+  try {
+    return await readStorageValue<ProviderGlossaryRecords>(storageArea, PROVIDER_GLOSSARIES_STORAGE_KEY, {});
+  } catch (error) {
+    log('Unable to read the stored provider glossaries.', { error: String(error) });
+    return {};
+  }
 };
 
-const normalizeTranslationCount = (translations: unknown[], expectedLength: number): string[] => {
-  const sanitized = translations.map((entry) => (typeof entry === 'string' ? entry : ''));
-  if (sanitized.length === expectedLength) {
-    return sanitized;
+const saveGlossaryRecord = async (
+  storageArea: StorageAreaLike | undefined,
+  slot: string,
+  record: ProviderGlossaryRecord
+): Promise<void> => {
+  if (!storageArea) {
+    return;
   }
 
-  log('Translation provider returned a mismatched translation count.', {
-    expected: expectedLength,
-    received: sanitized.length
-  });
+  try {
+    const records = await readGlossaryRecords(storageArea);
+    await writeStorageValue(storageArea, PROVIDER_GLOSSARIES_STORAGE_KEY, { ...records, [slot]: record });
+  } catch (error) {
+    log('Unable to remember the provider glossary.', { error: String(error) });
+  }
+};
 
-  if (sanitized.length > expectedLength) {
-    return sanitized.slice(0, expectedLength);
+const createStoredGlossary = async (
+  provider: RemoteProviderDefinition,
+  store: NonNullable<RemoteProviderDefinition['glossaryStore']>,
+  request: TranslationRequest & { glossary: GlossaryEntry[] },
+  settings: TranslationSettings,
+  transport: ProviderTransport
+): Promise<string> => {
+  const url = applyAuthQuery(`${getProviderBaseUrl(provider, settings)}${store.path}`, provider.auth, settings.apiKey);
+  const response = await fetchWithRateLimit(transport, url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...buildAuthHeaders(provider.auth, settings.apiKey) },
+    body: store.buildBody(request.glossary, request.sourceLanguage, request.targetLanguage)
+  });
+  if (!response.ok) {
+    throw new TranslationProviderError(
+      `Glossary creation responded with status ${response.status}.`,
+      classifyHttpStatus(response.status),
+      response.status
+    );
   }
 
-  return sanitized.concat(Array.from({ length: expectedLength - sanitized.length }, () => ''));
+  const id = store.parseId(await response.json());
+  if (!id) {
+    throw new TranslationProviderError('Glossary creation response is missing the glossary id.', 'malformed');
+  }
+  log('Created provider glossary.', { provider: provider.id, entries: request.glossary.length });
+  return id;
 };
 
-const parseTranslationsJson = (content: string, expectedLength: number): string[] => {
-  let parsed: unknown;
+// Replaced glossaries only take up room on the user's account, so a failed deletion is logged and left
+const deleteStoredGlossary = async (
+  provider: RemoteProviderDefinition,
+  store: NonNullable<RemoteProviderDefinition['glossaryStore']>,
+  glossaryId: string,
+  settings: TranslationSettings,
+  transport: ProviderTransport
+): Promise<void> => {
+  const url = applyAuthQuery(
+    `${getProviderBaseUrl(provider, settings)}${store.path}/${encodeURIComponent(glossaryId)}`,
+    provider.auth,
+    settings.apiKey
+  );
   try {
-    parsed = JSON.parse(content);
+    const response = await fetchWithRateLimit(transport, url, {
+      method: 'DELETE',
+      headers: buildAuthHeaders(provider.auth, settings.apiKey)
+    });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Glossary deletion responded with status ${response.status}.`);
+    }
+    log('Deleted replaced provider glossary.', { provider: provider.id });
   } catch (error) {
-    throw new Error('Translation provider returned malformed JSON.');
+    log('Unable to delete the replaced provider glossary.', { error: String(error) });
   }
+};
 
-  const translations = (parsed as { translations?: unknown })?.translations;
-  if (!Array.isArray(translations)) {
-    throw new Error('Translation provider response is missing the translations array.');
+// Reuses the glossary saved for the language pair while its terms are unchanged; otherwise creates one
+// with the new terms, saves it in place of the old one and deletes the old one from the provider
+const obtainStoredGlossary = async (
+  provider: RemoteProviderDefinition,
+  store: NonNullable<RemoteProviderDefinition['glossaryStore']>,
+  request: TranslationRequest & { glossary: GlossaryEntry[] },
+  settings: TranslationSettings,
+  transport: ProviderTransport,
+  { slot, termsHash }: { slot: string; termsHash: string }
+): Promise<string> => {
+  const saved = (await readGlossaryRecords(transport.glossaryStorage))[slot];
+  if (saved?.termsHash === termsHash) {
+    return saved.glossaryId;
   }
 
-  return normalizeTranslationCount(translations, expectedLength);
+  const glossaryId = await createStoredGlossary(provider, store, request, settings, transport);
+  await saveGlossaryRecord(transport.glossaryStorage, slot, { termsHash, glossaryId });
+  if (saved) {
+    storedGlossaries.delete(`${slot}:${saved.termsHash}`);
+    await deleteStoredGlossary(provider, store, saved.glossaryId, settings, transport);
+  }
+  return glossaryId;
 };
 
-const translateBatch = async (
-  provider: TranslationProvider,
-  batch: TranslationSegment[],
+// The glossary only improves consistency, so translation goes ahead without it when it cannot be created
+const resolveStoredGlossary = async (
+  provider: RemoteProviderDefinition,
   request: TranslationRequest,
   settings: TranslationSettings,
-  fetchFn: typeof fetch
-): Promise<string[]> => {
-  if (provider === 'demo') {
-    return batch.map((segment) => `DEMO TRANSLATION: ${segment.text.toUpperCase()}`);
+  transport: ProviderTransport
+): Promise<string | undefined> => {
+  const store = provider.glossaryStore;
+  const glossary = request.glossary ?? [];
+  if (!store || glossary.length === 0) {
+    return undefined;
   }
 
-  const baseUrl = getProviderBaseUrl(provider, settings.apiBaseUrl);
-  const payload = buildChatCompletionsPayload(batch, request, settings);
+  const slot = await hashText(
+    JSON.stringify([
+      provider.id,
+      getProviderBaseUrl(provider, settings),
+      settings.apiKey,
+      request.sourceLanguage,
+      request.targetLanguage
+    ])
+  );
+  const termsHash = await hashText(JSON.stringify(glossary));
+  const key = `${slot}:${termsHash}`;
+  let pending = storedGlossaries.get(key);
+  if (!pending) {
+    const update = pendingGlossaryUpdate.then(() =>
+      obtainStoredGlossary(provider, store, { ...request, glossary }, settings, transport, { slot, termsHash })
+    );
+    pendingGlossaryUpdate = update.catch(() => undefined);
+    pending = update.catch((error) => {
+      log('Unable to create the provider glossary; translating without it.', { error: String(error) });
+      if (getErrorKind(error) === 'transient') {
+        storedGlossaries.delete(key);
+      }
+      return null;
+    });
+    storedGlossaries.set(key, pending);
+  }
+  return (await pending) ?? undefined;
+};
 
-  let url = baseUrl;
-  if (!url.endsWith(CHAT_COMPLETIONS_PATH)) {
-    url = `${baseUrl}${CHAT_COMPLETIONS_PATH}`;
+const translateBatch = async (
+  provider: TranslationProviderDefinition,
+  batch: TranslationSegment[],
+  request: TranslationRequest,
+  settings: TranslationSettings,
+  transport: ProviderTransport
+): Promise<Array<string | null>> => {
+  const providerBatch = buildProviderBatch(batch, request, resolveProviderContextSize(provider, settings));
+  if ('translateLocally' in provider) {
+    return provider.translateLocally(providerBatch);
   }
 
-  const response = await fetchFn(url, {
+  const glossaryId = await resolveStoredGlossary(provider, request, settings, transport);
+  const providerRequest = provider.buildRequest(glossaryId ? { ...providerBatch, glossaryId } : providerBatch, {
+    baseUrl: getProviderBaseUrl(provider, settings),
+    model: resolveTranslationModel(settings),
+    settings
+  });
+
+  const url = applyAuthQuery(providerRequest.url, provider.auth, settings.apiKey);
+  const response = await fetchWithRateLimit(transport, url, {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${settings.apiKey}`
-    },
-    body: JSON.stringify(payload)
+    headers: { ...providerRequest.headers, ...buildAuthHeaders(provider.auth, settings.apiKey) },
+    body: providerRequest.body
   });
 
   log('Translation provider response received.', {
-    provider,
+    provider: provider.id,
     status: response.status,
     batchSize: batch.length
   });
 
   if (!response.ok) {
-    throw new Error(`Translation provider responded with status ${response.status}.`);
+    const described = provider.describeHttpError?.(response.status);
+    throw new TranslationProviderError(
+      described?.message ?? `Translation provider responded with status ${response.status}.`,
+      described?.kind ?? classifyHttpStatus(response.status),
+      response.status
+    );
+  }
+
+  const json: unknown = await response.json();
+  // Recorded before parsing: a reply that turns out unusable is billed all the same
+  reportUsage(transport, {
+    provider: provider.id,
+    model: resolveTranslationModel(settings),
+    ...estimateUsage(provider, providerRequest.body, json),
+    characters: batch.reduce((total, segment) => total + segment.text.length, 0)
+  });
+
+  const translations = provider.parseResponse(json, batch.length);
+  if (batch.length === 1 && translations[0] === null) {
+    throw new TranslationProviderError('Translation provider did not return the requested cue.', 'malformed');
   }
+  return translations;
+};
 
-  const json = await response.json();
-  const messageContent = json?.choices?.[0]?.message?.content;
-  if (!messageContent) {
-    throw new Error('Translation provider returned an empty response.');
+/**
+ * Connection test for providers that can list their models (or, for LibreTranslate, languages).
+ * Throws with a readable message when the server cannot be reached or refuses the request.
+ */
+export const listProviderModels = async (
+  settings: TranslationSettings,
+  fetchFn: typeof fetch = fetch
+): Promise<string[]> => {
+  const provider = getTranslationProvider(settings.provider);
+  if (!provider.modelListing) {
+    throw new Error(`${provider.label} does not support listing models.`);
+  }
+
+  const baseUrl = getProviderBaseUrl(provider, settings);
+  let response: Response;
+  try {
+    response = await fetchFn(applyAuthQuery(`${baseUrl}${provider.modelListing.path}`, provider.auth, settings.apiKey), {
+      method: 'GET',
+      headers: buildAuthHeaders(provider.auth, settings.apiKey)
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Unable to reach ${provider.label} at ${baseUrl}: ${message}`);
+  }
+
+  if (!response.ok) {
+    const described = provider.describeHttpError?.(response.status);
+    throw new Error(described?.message ?? `${provider.label} responded with status ${response.status}.`);
+  }
+
+  return provider.modelListing.parse(await response.json());
+};
+
+// Full jitter: a random delay up to the exponential step, so parallel batches do not retry in lockstep
+const computeRetryDelay = (attempt: number): number => Math.round(Math.random() * RETRY_BASE_DELAY_MS * 2 ** attempt);
+
+// Cues the reply left out or tagged with the wrong id are asked for one at a time rather than guessed.
+const requestMissingTranslations = async (
+  provider: TranslationProviderDefinition,
+  batch: TranslationSegment[],
+  translations: Array<string | null>,
+  request: TranslationRequest,
+  settings: TranslationSettings,
+  transport: ProviderTransport
+): Promise<Array<string | null>> => {
+  const missing = batch.filter((_segment, index) => translations[index] === null);
+  if (missing.length === 0) {
+    return translations;
   }
 
-  const normalized = normalizeMessageContent(messageContent);
-  return parseTranslationsJson(normalized, batch.length);
+  log('Re-requesting cues missing from the provider reply.', { provider: provider.id, missing: missing.length });
+  const completed = [...translations];
+  for (const segment of missing) {
+    const { translations: [translation] } = await translateOrAbandon(provider, [segment], request, settings, transport);
+    completed[batch.indexOf(segment)] = translation;
+  }
+  return completed;
+};
+
+// Part of a batch the provider keeps answering unusably resolves to null cues, so only those cues are
+// lost; the error is kept for when no part of the batch could be translated.
+const translateOrAbandon = async (
+  provider: TranslationProviderDefinition,
+  batch: TranslationSegment[],
+  request: TranslationRequest,
+  settings: TranslationSettings,
+  transport: ProviderTransport
+): Promise<{ translations: Array<string | null>; error: unknown }> => {
+  try {
+    return { translations: await translateBatchWithRecovery(provider, batch, request, settings, transport), error: null };
+  } catch (error) {
+    if (getErrorKind(error) !== 'malformed') {
+      throw error;
+    }
+    return { translations: batch.map(() => null), error };
+  }
+};
+
+/**
+ * Translates a batch, retrying transient failures with jittered backoff. When the provider keeps
+ * returning unparseable output the batch is split in half and each half retried, down to single
+ * cues; a cue that still fails resolves to null so only that cue is lost. When every cue fails, the
+ * last malformed-output error is thrown.
+ */
+const translateBatchWithRecovery = async (
+  provider: TranslationProviderDefinition,
+  batch: TranslationSegment[],
+  request: TranslationRequest,
+  settings: TranslationSettings,
+  transport: ProviderTransport
+): Promise<Array<string | null>> => {
+  let transientFailures = 0;
+  let malformedFailures = 0;
+
+  for (;;) {
+    let translations: Array<string | null>;
+    try {
+      translations = await translateBatch(provider, batch, request, settings, transport);
+    } catch (error) {
+      const kind = getErrorKind(error);
+      if (kind === 'transient' && transientFailures < MAX_TRANSIENT_RETRIES) {
+        const delayMs = computeRetryDelay(transientFailures);
+        transientFailures += 1;
+        log('Retrying translation batch after a transient failure.', { provider: provider.id, attempt: transientFailures, delayMs });
+        await transport.sleepFn(delayMs);
+        continue;
+      }
+
+      if (kind !== 'malformed') {
+        throw error;
+      }
+
+      malformedFailures += 1;
+      if (malformedFailures < MAX_MALFORMED_ATTEMPTS) {
+        continue;
+      }
+
+      if (batch.length === 1) {
+        log('Giving up on a cue the provider cannot translate.', { provider: provider.id, index: batch[0].index });
+        throw error;
+      }
+
+      const middle = Math.ceil(batch.length / 2);
+      log('Splitting translation batch after repeated malformed responses.', { provider: provider.id, batchSize: batch.length });
+      const firstHalf = await translateOrAbandon(provider, batch.slice(0, middle), request, settings, transport);
+      const secondHalf = await translateOrAbandon(provider, batch.slice(middle), request, settings, transport);
+      if (firstHalf.error !== null && secondHalf.error !== null) {
+        throw secondHalf.error;
+      }
+      return [...firstHalf.translations, ...secondHalf.translations];
+    }
+
+    return requestMissingTranslations(provider, batch, translations, request, settings, transport);
+  }
 };
 
 const shouldSkipTranslation = (text: string): boolean => text.trim().length === 0;
 
+// Fills slots from the translation memory and returns the segments that still need the provider.
+// Memory failures are logged and treated as misses so they never block a translation.
+const applyTranslationMemory = async (
+  memory: TranslationMemory | undefined,
+  scope: TranslationMemoryScope,
+  segments: TranslationSegment[],
+  translationSlots: string[]
+): Promise<TranslationSegment[]> => {
+  if (!memory) {
+    return segments;
+  }
+
+  try {
+    const remembered = await memory.lookup(scope, segments.map((segment) => segment.text));
+    const misses = segments.filter((segment, position) => {
+      const translation = remembered[position];
+      if (translation === undefined) {
+        return true;
+      }
+      translationSlots[segment.index] = translation;
+      return false;
+    });
+    log('Translation memory consulted.', { hits: segments.length - misses.length, misses: misses.length });
+    return misses;
+  } catch (error) {
+    log('Translation memory lookup failed.', { error: String(error) });
+    return segments;
+  }
+};
+
+const rememberTranslations = async (
+  memory: TranslationMemory | undefined,
+  scope: TranslationMemoryScope,
+  batch: TranslationSegment[],
+  translations: string[]
+): Promise<void> => {
+  if (!memory) {
+    return;
+  }
+
+  try {
+    await memory.store(
+      scope,
+      batch
+        .map((segment, index) => ({ source: segment.text, translation: translations[index] }))
+        .filter((entry) => entry.translation.trim().length > 0)
+    );
+  } catch (error) {
+    log('Translation memory update failed.', { error: String(error) });
+  }
+};
+
 export type TranslateTextsDependencies = {
   fetchFn?: typeof fetch;
   loadSettingsFn?: () => Promise<TranslationSettings>;
   maxBatchSize?: number;
+  translationMemory?: TranslationMemory;
+  /** Called as soon as a group of segments is translated, in playback order, before the full result resolves. */
+  onBatchTranslated?: (segments: TranslatedSegment[]) => void;
+  /** Current playhead in seconds; read before every batch so seeks re-prioritise the remaining work. */
+  getPlaybackPosition?: () => number | undefined;
+  /**
+   * Called once with the indexes of cues that could not be translated and kept their original text,
+   * along with the last batch error. Without a listener, or when no cue could be translated at all, the
+   * batch error is thrown instead.
+   */
+  onSegmentsFailed?: (indexes: number[], error: unknown) => void;
+  /** Called after every provider response with what the request consumed. */
+  onUsage?: (usage: TranslationUsage) => void;
+  /** Spending so far, checked against the configured budget before every batch is dispatched. */
+  usageLedger?: Pick<UsageLedger, 'getSpending'>;
+  /** Called at most once per request when spending has passed the budget's warning threshold. */
+  onBudgetWarning?: (message: string) => void;
+  /** Where the ids of created provider glossaries are kept; extension local storage by default. */
+  glossaryStorage?: StorageAreaLike;
+  rateLimiter?: RateLimiter;
+  sleepFn?: (durationMs: number) => Promise<void>;
+};
+
+const notifyBatchTranslated = (
+  deps: TranslateTextsDependencies,
+  segments: TranslationSegment[],
+  translationSlots: string[],
+  providerId: string
+): void => {
+  if (!deps.onBatchTranslated || segments.length === 0) {
+    return;
+  }
+
+  try {
+    deps.onBatchTranslated(
+      segments.map((segment) => ({ index: segment.index, text: translationSlots[segment.index], provider: providerId }))
+    );
+  } catch (error) {
+    log('Batch progress listener failed.', { error: String(error) });
+  }
 };
 
 export const translateTexts = async (
@@ -248,14 +849,33 @@ export const translateTexts = async (
   const fetchFn = deps.fetchFn ?? fetch;
   const loadSettingsFn = deps.loadSettingsFn ?? loadTranslationSettings;
   const batchSize = sanitizeBatchSize(deps.maxBatchSize);
+  // Condensed translations are only right for one cue's timing, so they are neither reused nor remembered
+  const translationMemory = request.maxCharacters ? undefined : deps.translationMemory;
 
   if (!Array.isArray(request.texts) || request.texts.length === 0) {
     return [];
   }
 
   const settings = await loadSettingsFn();
-  const provider = ensureProvider(settings.provider);
-  ensureApiKey(settings);
+  const glossaryStorage = deps.glossaryStorage ?? findGlossaryStorage();
+  const chain = resolveProviderChain(settings, (provider, entrySettings) => ({
+    fetchFn,
+    limiter:
+      deps.rateLimiter ??
+      getProviderRateLimiter(
+        provider.id,
+        clampSetting(entrySettings.requestsPerMinute, DEFAULT_TRANSLATION_SETTINGS.requestsPerMinute, MAX_REQUESTS_PER_MINUTE)
+      ),
+    sleepFn: deps.sleepFn ?? defaultSleep,
+    onUsage: deps.onUsage,
+    glossaryStorage
+  }));
+  const [primary] = chain;
+  const concurrency = clampSetting(
+    settings.maxConcurrentRequests,
+    DEFAULT_TRANSLATION_SETTINGS.maxConcurrentRequests,
+    MAX_CONCURRENT_REQUESTS
+  );
 
   const translationSlots = request.texts.map(() => '');
   const segments = request.texts.map<TranslationSegment>((text, index) => ({ index, text }));
@@ -272,20 +892,183 @@ export const translateTexts = async (
     return translationSlots;
   }
 
-  const batches = chunkSegments(translatableSegments, batchSize);
+  // Translations are remembered under the provider that produced them; lookups use the primary provider.
+  // Scopes come from the loaded settings, which the pipeline resolves against the programme's profile
+  // just as it does for the cache key, so profiles never share translations made with other settings.
+  const buildMemoryScope = async (entry: ProviderChainEntry): Promise<TranslationMemoryScope> => ({
+    sourceLanguage: request.sourceLanguage,
+    targetLanguage: request.targetLanguage,
+    provider: entry.provider.id,
+    model: resolveTranslationModel(entry.settings),
+    contextWindowSize: resolveProviderContextSize(entry.provider, entry.settings),
+    promptHash: await hashText(resolvePromptTemplate(entry.settings)),
+    glossaryHash: await hashText(JSON.stringify(request.glossary ?? []))
+  });
+  const pendingSegments = await applyTranslationMemory(
+    translationMemory,
+    await buildMemoryScope(primary),
+    translatableSegments,
+    translationSlots
+  );
+  notifyBatchTranslated(
+    deps,
+    translatableSegments.filter((segment) => !pendingSegments.includes(segment)),
+    translationSlots,
+    primary.provider.id
+  );
+
+  // Batches follow cue order, which is playback order, so the opening cues are ready first
+  // unless a playhead is known, in which case the batches nearest to it are translated first.
+  // Batches must fit every provider in the chain, since any of them may end up translating one. Context
+  // cues are budgeted as if each were as long as the longest pending cue.
+  const longestCueTokens = pendingSegments.reduce(
+    (longest, segment) => Math.max(longest, estimateTokens(segment.text)),
+    0
+  );
+  const batches = chunkSegments(
+    pendingSegments,
+    batchSize,
+    chain.flatMap((entry) => buildBatchLimits(entry, longestCueTokens + SEGMENT_OVERHEAD_TOKENS))
+  );
+  const batchTimings = batches.map((batch) =>
+    computeBatchTiming(batch.map((segment) => request.timings?.[segment.index]))
+  );
+  const pendingBatchIndexes = batches.map((_batch, index) => index);
   log('Starting translation request.', {
-    provider,
+    providers: chain.map((entry) => entry.provider.id),
+    concurrency,
     totalSegments: translatableSegments.length,
+    pendingSegments: pendingSegments.length,
     batchCount: batches.length
   });
 
-  for (const batch of batches) {
-    const batchTranslations = await translateBatch(provider, batch, request, settings, fetchFn);
-    batch.forEach((segment, index) => {
-      translationSlots[segment.index] = batchTranslations[index];
+  // Each worker pulls the highest-priority pending batch, so re-prioritisation on seek still applies
+  // while up to `concurrency` requests are in flight. A batch that still fails after recovery keeps
+  // its original text; errors retrying cannot fix (auth, quota, budget, fatal) stop further dispatch, as does
+  // any failure when the caller has no way to hear about partial results.
+  const failedIndexes: number[] = [];
+  let lastError: unknown = null;
+  let stopped = false;
+  const markFailed = (batch: TranslationSegment[]): void => {
+    batch.forEach((segment) => {
+      translationSlots[segment.index] = segment.text;
+      failedIndexes.push(segment.index);
     });
+  };
+
+  // A provider that failed on auth or quota is skipped for the remaining batches; after a transient
+  // failure that outlasted its retries it is still tried first for the next batch.
+  const unavailable = new Map<ProviderChainEntry, unknown>();
+  const translateWithFallback = async (
+    batch: TranslationSegment[]
+  ): Promise<{ entry: ProviderChainEntry; translations: Array<string | null> }> => {
+    let lastProviderError: unknown = null;
+    for (const entry of chain) {
+      if (unavailable.has(entry)) {
+        lastProviderError = lastProviderError ?? unavailable.get(entry);
+        continue;
+      }
+      try {
+        const translations = await translateBatchWithRecovery(
+          entry.provider,
+          batch,
+          request,
+          entry.settings,
+          entry.transport
+        );
+        return { entry, translations };
+      } catch (error) {
+        const kind = getErrorKind(error);
+        if (!FALLBACK_ERROR_KINDS.has(kind)) {
+          throw error;
+        }
+        if (kind !== 'transient') {
+          unavailable.set(entry, error);
+        }
+        lastProviderError = error;
+        log('Translation provider failed; trying the next one.', { provider: entry.provider.id, kind });
+      }
+    }
+    throw lastProviderError;
+  };
+
+  // Usage is booked as responses arrive, so batches already in flight may overshoot the cap slightly.
+  // An unreadable ledger leaves translation running rather than blocking it on an accounting failure.
+  let budgetWarned = false;
+  const enforceBudget = async (): Promise<void> => {
+    if (!deps.usageLedger || !(settings.budgetLimit > 0)) {
+      return;
+    }
+
+    let spending;
+    try {
+      spending = await deps.usageLedger.getSpending(settings.budgetPeriod, settings.priceTable);
+    } catch (error) {
+      log('Unable to read spending; the budget is not enforced for this batch.', { error: String(error) });
+      return;
+    }
+
+    const status = evaluateBudget(settings, spending);
+    if (status.state === 'exceeded') {
+      throw new TranslationProviderError(status.message, 'budget');
+    }
+    if (status.state === 'warning' && !budgetWarned) {
+      budgetWarned = true;
+      log('Translation budget warning.', { message: status.message });
+      try {
+        deps.onBudgetWarning?.(status.message);
+      } catch (error) {
+        log('Budget warning listener failed.', { error: String(error) });
+      }
+    }
+  };
+
+  const runWorker = async (): Promise<void> => {
+    while (!stopped && pendingBatchIndexes.length > 0) {
+      const batchIndex = pickNextBatch(pendingBatchIndexes, batchTimings, deps.getPlaybackPosition?.());
+      pendingBatchIndexes.splice(pendingBatchIndexes.indexOf(batchIndex), 1);
+      const batch = batches[batchIndex];
+      try {
+        await enforceBudget();
+        const { entry, translations: batchTranslations } = await translateWithFallback(batch);
+        // Cues the provider gave up on keep their original text and are not remembered
+        const translatedSegments: TranslationSegment[] = [];
+        batch.forEach((segment, index) => {
+          const translation = batchTranslations[index];
+          if (translation !== null) {
+            translationSlots[segment.index] = translation;
+            translatedSegments.push(segment);
+          }
+        });
+        markFailed(batch.filter((_segment, index) => batchTranslations[index] === null));
+        notifyBatchTranslated(deps, translatedSegments, translationSlots, entry.provider.id);
+        await rememberTranslations(
+          translationMemory,
+          await buildMemoryScope(entry),
+          translatedSegments,
+          translatedSegments.map((segment) => translationSlots[segment.index])
+        );
+      } catch (error) {
+        log('Translation batch failed.', { error: String(error) });
+        lastError = error;
+        markFailed(batch);
+        const kind = getErrorKind(error);
+        stopped = stopped || !deps.onSegmentsFailed || (kind !== 'transient' && kind !== 'malformed');
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, batches.length) }, runWorker));
+  pendingBatchIndexes.forEach((batchIndex) => markFailed(batches[batchIndex]));
+
+  if (failedIndexes.length > 0) {
+    const nothingTranslated = failedIndexes.length === translatableSegments.length;
+    if (lastError !== null && (nothingTranslated || !deps.onSegmentsFailed)) {
+      throw lastError;
+    }
+    deps.onSegmentsFailed?.(failedIndexes.sort((a, b) => a - b), lastError);
   }
 
-  log('Translation completed.', { provider, totalSegments: translatableSegments.length });
+  log('Translation completed.', { provider: primary.provider.id, totalSegments: translatableSegments.length });
   return translationSlots;
 };
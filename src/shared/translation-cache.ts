@@ -0,0 +1,140 @@
+import { getLocalStorageArea, readStorageValue, writeStorageValue, type StorageAreaLike } from './storage';
+
+export const TRANSLATION_CACHE_STORAGE_KEY = 'translationCache';
+
+const DEFAULT_MAX_ENTRIES = 50;
+const DEFAULT_MAX_BYTES = 4 * 1024 * 1024;
+const DEFAULT_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type TranslationCacheKeyParts = {
+  vttText: string;
+  provider: string;
+  model: string;
+  targetLanguage: string;
+  /** Further settings that change the translation; they are hashed together with the VTT. */
+  settings?: Record<string, unknown>;
+};
+
+type TranslationCacheEntry = {
+  translations: string[];
+  createdAt: number;
+  lastAccessedAt: number;
+  size: number;
+};
+
+type TranslationCacheIndex = Record<string, TranslationCacheEntry>;
+
+export type TranslationCacheOptions = {
+  storageArea?: StorageAreaLike;
+  now?: () => number;
+  maxEntries?: number;
+  maxBytes?: number;
+  ttlMs?: number;
+};
+
+export type TranslationCache = {
+  get: (key: string) => Promise<string[] | null>;
+  set: (key: string, translations: string[]) => Promise<void>;
+  clear: () => Promise<void>;
+};
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+export const hashText = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return toHex(digest);
+};
+
+/**
+ * Builds a cache key from the provider configuration and a SHA-256 digest of the source VTT,
+ * so the same subtitle file translated with different settings never collides.
+ */
+export const computeTranslationCacheKey = async (parts: TranslationCacheKeyParts): Promise<string> => {
+  const digest = await hashText(parts.settings ? `${JSON.stringify(parts.settings)}\n${parts.vttText}` : parts.vttText);
+  return [parts.provider, parts.model, parts.targetLanguage, digest].join(':');
+};
+
+const isExpired = (entry: TranslationCacheEntry, now: number, ttlMs: number): boolean =>
+  now - entry.createdAt > ttlMs;
+
+const evictEntries = (
+  index: TranslationCacheIndex,
+  now: number,
+  { maxEntries, maxBytes, ttlMs }: { maxEntries: number; maxBytes: number; ttlMs: number }
+): TranslationCacheIndex => {
+  const liveEntries = Object.entries(index)
+    .filter(([, entry]) => !isExpired(entry, now, ttlMs))
+    .sort(([, left], [, right]) => right.lastAccessedAt - left.lastAccessedAt);
+
+  const retained: TranslationCacheIndex = {};
+  let totalBytes = 0;
+  for (const [key, entry] of liveEntries) {
+    if (Object.keys(retained).length >= maxEntries || totalBytes + entry.size > maxBytes) {
+      continue;
+    }
+    retained[key] = entry;
+    totalBytes += entry.size;
+  }
+  return retained;
+};
+
+export const createTranslationCache = (options: TranslationCacheOptions = {}): TranslationCache => {
+  const now = options.now ?? Date.now;
+  const limits = {
+    maxEntries: options.maxEntries ?? DEFAULT_MAX_ENTRIES,
+    maxBytes: options.maxBytes ?? DEFAULT_MAX_BYTES,
+    ttlMs: options.ttlMs ?? DEFAULT_TTL_MS
+  };
+  const resolveStorageArea = (): StorageAreaLike => options.storageArea ?? getLocalStorageArea();
+
+  const readIndex = (): Promise<TranslationCacheIndex> =>
+    readStorageValue<TranslationCacheIndex>(resolveStorageArea(), TRANSLATION_CACHE_STORAGE_KEY, {});
+
+  const writeIndex = (index: TranslationCacheIndex): Promise<void> =>
+    writeStorageValue(resolveStorageArea(), TRANSLATION_CACHE_STORAGE_KEY, index);
+
+  // Two tabs or a background retry may translate at once; queueing the read-modify-write cycles keeps
+  // one from overwriting another's entries, access times or evictions
+  let pendingWrite: Promise<unknown> = Promise.resolve();
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = pendingWrite.then(task);
+    pendingWrite = result.catch(() => undefined);
+    return result;
+  };
+
+  return {
+    get: (key) => enqueue(async () => {
+      const index = await readIndex();
+      const entry = index[key];
+      if (!entry) {
+        return null;
+      }
+
+      const timestamp = now();
+      if (isExpired(entry, timestamp, limits.ttlMs)) {
+        delete index[key];
+        await writeIndex(index);
+        return null;
+      }
+
+      index[key] = { ...entry, lastAccessedAt: timestamp };
+      await writeIndex(index);
+      return entry.translations;
+    }),
+    set: (key, translations) => enqueue(async () => {
+      const index = await readIndex();
+      const timestamp = now();
+      index[key] = {
+        translations,
+        createdAt: timestamp,
+        lastAccessedAt: timestamp,
+        size: JSON.stringify(translations).length
+      };
+      await writeIndex(evictEntries(index, timestamp, limits));
+    }),
+    clear: () => enqueue(() => writeIndex({}))
+  };
+};
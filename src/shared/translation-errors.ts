@@ -0,0 +1,37 @@
+/**
+ * - `transient`: network failures, timeouts and 5xx responses; worth retrying later.
+ * - `malformed`: the provider answered but its output could not be parsed; worth retrying smaller.
+ * - `auth` / `quota`: credentials or billing problems, including 429s that outlasted every Retry-After
+ *   wait; retrying the same provider will not help.
+ * - `budget`: the user's own spending cap is reached; nothing more is sent until the period resets.
+ * - `fatal`: anything else, e.g. an unexpected 4xx or response shape.
+ */
+export type TranslationErrorKind = 'transient' | 'malformed' | 'auth' | 'quota' | 'budget' | 'fatal';
+
+export class TranslationProviderError extends Error {
+  readonly kind: TranslationErrorKind;
+  readonly status?: number;
+
+  constructor(message: string, kind: TranslationErrorKind, status?: number) {
+    super(message);
+    this.name = 'TranslationProviderError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+export const classifyHttpStatus = (status: number): TranslationErrorKind => {
+  if (status === 401 || status === 403) {
+    return 'auth';
+  }
+  if (status === 402 || status === 429) {
+    return 'quota';
+  }
+  if (status === 408 || status >= 500) {
+    return 'transient';
+  }
+  return 'fatal';
+};
+
+export const getErrorKind = (error: unknown): TranslationErrorKind =>
+  error instanceof TranslationProviderError ? error.kind : 'fatal';
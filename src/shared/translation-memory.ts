@@ -0,0 +1,144 @@
+import { getLocalStorageArea, readStorageValue, writeStorageValue, type StorageAreaLike } from './storage';
+
+export const TRANSLATION_MEMORY_STORAGE_KEY = 'translationMemory';
+export const TRANSLATION_MEMORY_STATS_STORAGE_KEY = 'translationMemoryStats';
+
+const DEFAULT_MAX_ENTRIES = 5000;
+
+export type TranslationMemoryScope = {
+  sourceLanguage: string;
+  targetLanguage: string;
+  provider: string;
+  model: string;
+  /** Neighbouring cues sent as context, which can change how a cue is translated. */
+  contextWindowSize: number;
+  /** Digest of the prompt template the translation was made with. */
+  promptHash: string;
+  /** Digest of the glossary entries that applied to the request. */
+  glossaryHash: string;
+};
+
+export type TranslationMemoryEntry = {
+  source: string;
+  translation: string;
+};
+
+export type TranslationMemoryStats = {
+  hits: number;
+  misses: number;
+};
+
+type StoredMemoryEntry = {
+  translation: string;
+  lastUsedAt: number;
+};
+
+type TranslationMemoryIndex = Record<string, StoredMemoryEntry>;
+
+export type TranslationMemoryOptions = {
+  storageArea?: StorageAreaLike;
+  now?: () => number;
+  maxEntries?: number;
+};
+
+export type TranslationMemory = {
+  /** Resolves one slot per text: the remembered translation, or undefined on a miss. */
+  lookup: (scope: TranslationMemoryScope, texts: string[]) => Promise<Array<string | undefined>>;
+  store: (scope: TranslationMemoryScope, entries: TranslationMemoryEntry[]) => Promise<void>;
+  getStats: () => Promise<TranslationMemoryStats>;
+};
+
+const EMPTY_STATS: TranslationMemoryStats = { hits: 0, misses: 0 };
+
+export const normalizeMemorySource = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const buildMemoryKey = (scope: TranslationMemoryScope, text: string): string => {
+  const languagePair = `${scope.sourceLanguage}>${scope.targetLanguage}`;
+  return [
+    scope.provider,
+    scope.model,
+    languagePair,
+    scope.contextWindowSize,
+    scope.promptHash,
+    scope.glossaryHash,
+    normalizeMemorySource(text)
+  ].join('|');
+};
+
+export const computeHitRate = (stats: TranslationMemoryStats): number => {
+  const lookups = stats.hits + stats.misses;
+  return lookups === 0 ? 0 : stats.hits / lookups;
+};
+
+const trimToLimit = (index: TranslationMemoryIndex, maxEntries: number): TranslationMemoryIndex => {
+  const entries = Object.entries(index);
+  if (entries.length <= maxEntries) {
+    return index;
+  }
+
+  return Object.fromEntries(
+    entries.sort(([, left], [, right]) => right.lastUsedAt - left.lastUsedAt).slice(0, maxEntries)
+  );
+};
+
+export const createTranslationMemory = (options: TranslationMemoryOptions = {}): TranslationMemory => {
+  const now = options.now ?? Date.now;
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const resolveStorageArea = (): StorageAreaLike => options.storageArea ?? getLocalStorageArea();
+
+  const readIndex = (): Promise<TranslationMemoryIndex> =>
+    readStorageValue<TranslationMemoryIndex>(resolveStorageArea(), TRANSLATION_MEMORY_STORAGE_KEY, {});
+
+  const readStats = (): Promise<TranslationMemoryStats> =>
+    readStorageValue<TranslationMemoryStats>(resolveStorageArea(), TRANSLATION_MEMORY_STATS_STORAGE_KEY, EMPTY_STATS);
+
+  // Pipelines and their batches run concurrently; queueing the read-modify-write cycles keeps any of
+  // them from overwriting another's entries or statistics
+  let pendingWrite: Promise<unknown> = Promise.resolve();
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = pendingWrite.then(task);
+    pendingWrite = result.catch(() => undefined);
+    return result;
+  };
+
+  return {
+    lookup: (scope, texts) => enqueue(async () => {
+      const index = await readIndex();
+      const timestamp = now();
+      let hits = 0;
+
+      const results = texts.map((text) => {
+        const entry = index[buildMemoryKey(scope, text)];
+        if (!entry) {
+          return undefined;
+        }
+        entry.lastUsedAt = timestamp;
+        hits += 1;
+        return entry.translation;
+      });
+
+      const stats = await readStats();
+      await writeStorageValue(resolveStorageArea(), TRANSLATION_MEMORY_STATS_STORAGE_KEY, {
+        hits: stats.hits + hits,
+        misses: stats.misses + (texts.length - hits)
+      });
+      if (hits > 0) {
+        await writeStorageValue(resolveStorageArea(), TRANSLATION_MEMORY_STORAGE_KEY, index);
+      }
+      return results;
+    }),
+    store: (scope, entries) => enqueue(async () => {
+      if (entries.length === 0) {
+        return;
+      }
+
+      const index = await readIndex();
+      const timestamp = now();
+      entries.forEach(({ source, translation }) => {
+        index[buildMemoryKey(scope, source)] = { translation, lastUsedAt: timestamp };
+      });
+      await writeStorageValue(resolveStorageArea(), TRANSLATION_MEMORY_STORAGE_KEY, trimToLimit(index, maxEntries));
+    }),
+    getStats: readStats
+  };
+};
@@ -0,0 +1,179 @@
+import { isSupportedLanguage } from './arte-languages';
+import { DEEPL_FORMALITIES, type DeeplFormality } from './providers/deepl';
+import { isPromptTemplateChoice } from './providers/prompt-templates';
+import { isSupportedProvider } from './providers/registry';
+import type { TranslationSettings } from './translation-settings';
+
+/** Settings a profile may override; everything else always comes from the main settings. */
+export const PROFILE_SETTING_KEYS = [
+  'provider',
+  'apiBaseUrl',
+  'apiKey',
+  'model',
+  'targetLanguage',
+  'contextWindowSize',
+  'deeplFormality',
+  'deeplGlossaryId',
+  'promptPreset',
+  'customPromptTemplate',
+  'glossaries'
+] as const;
+
+export type ProfileSettingKey = (typeof PROFILE_SETTING_KEYS)[number];
+
+export type TranslationProfile = {
+  name: string;
+  /**
+   * Programme IDs (`117798-000-A`), programme numbers shared by every episode of a series (`117798`),
+   * collection IDs (`RC-021423`) or fragments of the programme title.
+   */
+  match: string[];
+  /** Replaces the main settings of the same name, e.g. a profile glossary replaces the main glossary. */
+  settings: Partial<Pick<TranslationSettings, ProfileSettingKey>>;
+};
+
+/** What is known about the programme being watched; pages and subtitle URLs each give part of it. */
+export type ArteProgramme = {
+  programmeId?: string;
+  collectionId?: string;
+  title?: string;
+};
+
+// Programme IDs read "117798-002-A": programme number, episode and version. Episodes of a series
+// share the programme number.
+const PROGRAMME_ID_PATTERN = /(?<![\dA-Z])(\d{6}-\d{3}-[A-Z])(?![\dA-Za-z])/;
+const COLLECTION_ID_PATTERN = /(?<![\dA-Z])(RC-\d{6})(?!\d)/;
+
+/** Reads the IDs from an arte.tv page URL or a subtitle URL, which embeds the programme ID. */
+export const extractArteProgramme = (url: string): ArteProgramme => {
+  const programmeId = PROGRAMME_ID_PATTERN.exec(url)?.[1];
+  const collectionId = COLLECTION_ID_PATTERN.exec(url)?.[1];
+  return {
+    ...(programmeId ? { programmeId } : {}),
+    ...(collectionId ? { collectionId } : {})
+  };
+};
+
+// A rule naming the exact programme beats one naming its series or collection, which beats a title match
+const scoreMatchRule = (rule: string, programme: ArteProgramme): number => {
+  const normalized = rule.trim().toUpperCase();
+  if (!normalized) {
+    return 0;
+  }
+
+  const programmeId = programme.programmeId?.toUpperCase();
+  if (programmeId === normalized) {
+    return 3;
+  }
+  if (programmeId?.startsWith(`${normalized}-`) || programme.collectionId?.toUpperCase() === normalized) {
+    return 2;
+  }
+  return programme.title?.toUpperCase().includes(normalized) ? 1 : 0;
+};
+
+/**
+ * The profile whose rules match the programme most specifically, earlier profiles winning ties; the
+ * default profile when none matches, and null when there is no default either.
+ */
+export const findTranslationProfile = (
+  settings: Pick<TranslationSettings, 'translationProfiles' | 'defaultTranslationProfile'>,
+  programme: ArteProgramme
+): TranslationProfile | null => {
+  const profiles = settings.translationProfiles ?? [];
+  let best: TranslationProfile | null = null;
+  let bestScore = 0;
+  for (const profile of profiles) {
+    const score = Math.max(0, ...profile.match.map((rule) => scoreMatchRule(rule, programme)));
+    if (score > bestScore) {
+      best = profile;
+      bestScore = score;
+    }
+  }
+  return best ?? profiles.find((profile) => profile.name === settings.defaultTranslationProfile) ?? null;
+};
+
+// A base URL belongs to one provider's server: a profile switching provider without a base URL of its
+// own uses the new provider's endpoint
+export const applyTranslationProfile = (
+  settings: TranslationSettings,
+  profile: TranslationProfile | null
+): TranslationSettings => {
+  if (!profile) {
+    return settings;
+  }
+
+  const { provider, apiBaseUrl } = profile.settings;
+  const keepsEndpoint = provider === undefined || provider === settings.provider || apiBaseUrl !== undefined;
+  return { ...settings, ...(keepsEndpoint ? {} : { apiBaseUrl: '' }), ...profile.settings };
+};
+
+/** The settings to translate the programme with. */
+export const resolveProgrammeSettings = (settings: TranslationSettings, programme: ArteProgramme): TranslationSettings =>
+  applyTranslationProfile(settings, findTranslationProfile(settings, programme));
+
+const isString = (value: unknown): boolean => typeof value === 'string';
+
+const isGlossaryList = (value: unknown): boolean =>
+  Array.isArray(value) &&
+  value.every(
+    (glossary) =>
+      typeof glossary?.series === 'string' &&
+      Array.isArray(glossary.entries) &&
+      glossary.entries.every(
+        (entry: unknown) =>
+          typeof (entry as { source?: unknown })?.source === 'string' &&
+          typeof (entry as { target?: unknown })?.target === 'string'
+      )
+  );
+
+const PROFILE_SETTING_CHECKS: Record<ProfileSettingKey, (value: unknown) => boolean> = {
+  provider: (value) => typeof value === 'string' && isSupportedProvider(value),
+  apiBaseUrl: isString,
+  apiKey: isString,
+  model: isString,
+  targetLanguage: (value) => typeof value === 'string' && isSupportedLanguage(value),
+  contextWindowSize: (value) => Number.isInteger(value) && (value as number) >= 0,
+  deeplFormality: (value) => DEEPL_FORMALITIES.includes(value as DeeplFormality),
+  deeplGlossaryId: isString,
+  promptPreset: (value) => typeof value === 'string' && isPromptTemplateChoice(value),
+  customPromptTemplate: isString,
+  glossaries: isGlossaryList
+};
+
+/** Explains the first problem in a list of profiles read from the options page; null when it is valid. */
+export const findTranslationProfileError = (value: unknown): string | null => {
+  if (!Array.isArray(value)) {
+    return 'Profiles must be a JSON list';
+  }
+
+  const names = new Set<string>();
+  for (const [position, profile] of value.entries()) {
+    const label = `Profile ${position + 1}`;
+    if (typeof profile !== 'object' || profile === null || Array.isArray(profile)) {
+      return `${label} must be an object with a name, match rules and settings`;
+    }
+    const { name, match, settings } = profile as Record<string, unknown>;
+    if (typeof name !== 'string' || !name.trim()) {
+      return `${label} needs a name`;
+    }
+    if (names.has(name)) {
+      return `Profile name "${name}" is used twice`;
+    }
+    names.add(name);
+    if (!Array.isArray(match) || !match.every(isString)) {
+      return `Profile "${name}" must list its match rules as text`;
+    }
+    if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+      return `Profile "${name}" must have a settings object`;
+    }
+    for (const [key, setting] of Object.entries(settings)) {
+      if (!PROFILE_SETTING_KEYS.includes(key as ProfileSettingKey)) {
+        return `Profile "${name}" cannot override ${key}`;
+      }
+      if (!PROFILE_SETTING_CHECKS[key as ProfileSettingKey](setting)) {
+        return `Profile "${name}" has an invalid ${key}`;
+      }
+    }
+  }
+  return null;
+};
@@ -1,17 +1,123 @@
-export const SUPPORTED_TRANSLATION_PROVIDERS = ['openai', 'mistral', 'demo'] as const;
+import type { DeeplFormality } from './providers/deepl';
+import type { TranslationProvider } from './providers/registry';
+import type { BudgetPeriod, BudgetUnit } from './spending-budget';
+import type { PromptTemplateChoice } from './providers/prompt-templates';
+import type { TranslationGlossary } from './glossary';
+import type { TranslationProfile } from './translation-profiles';
+import { DEFAULT_PRICE_TABLE, type PriceTable } from './usage-pricing';
 
-export type TranslationProvider = (typeof SUPPORTED_TRANSLATION_PROVIDERS)[number];
+export { SUPPORTED_TRANSLATION_PROVIDERS, type TranslationProvider } from './providers/registry';
+
+/** Connection details for one provider; fallbacks share every other setting with the primary provider. */
+export type TranslationProviderConfig = {
+  provider: TranslationProvider;
+  apiBaseUrl: string;
+  apiKey: string;
+  model: string;
+};
 
 export type TranslationSettings = {
   provider: TranslationProvider;
   apiBaseUrl: string;
   apiKey: string;
   model: string;
+  sourceLanguages: string[];
+  targetLanguage: string;
+  maxConcurrentRequests: number;
+  requestsPerMinute: number;
+  /** Neighbouring cues sent on each side of a batch as read-only context; 0 disables context. */
+  contextWindowSize: number;
+  deeplFormality: DeeplFormality;
+  /** Optional DeepL glossary applied to every request; it must match the source and target languages. */
+  deeplGlossaryId: string;
+  /** Google Cloud project and location used by Translation v3. */
+  googleProjectId: string;
+  googleLocation: string;
+  /** Azure resource region; required for regional and multi-service Translator resources. */
+  azureRegion: string;
+  /**
+   * Providers tried in order, per batch, when the primary provider keeps failing with auth, quota or
+   * transient errors.
+   */
+  fallbackProviders: TranslationProviderConfig[];
+  /** Prompt template used by LLM providers: a built-in preset, or `custom` for `customPromptTemplate`. */
+  promptPreset: PromptTemplateChoice;
+  customPromptTemplate: string;
+  /** Terms translated the same way in every cue; series glossaries apply to matching programme titles. */
+  glossaries: TranslationGlossary[];
+  /** Settings overridden for matching programmes, e.g. another model and register for documentaries. */
+  translationProfiles: TranslationProfile[];
+  /** Name of the profile used when no profile matches the programme; empty uses the settings above. */
+  defaultTranslationProfile: string;
+  /** Cues whose translation needs a faster reading speed are translated again, condensed; 0 disables it. */
+  maxCharactersPerSecond: number;
+  /** Translated lines longer than this are re-wrapped; 0 keeps the lines as translated. */
+  maxLineLength: number;
+  /** Prices applied to the recorded usage when showing costs. */
+  priceTable: PriceTable;
+  /** Spending cap per local calendar day or month, in US dollars or tokens; 0 means no cap. */
+  budgetLimit: number;
+  budgetPeriod: BudgetPeriod;
+  budgetUnit: BudgetUnit;
+  /** Share of the cap, in percent, from which translations come back with a warning. */
+  budgetWarningPercent: number;
 };
 
 export const DEFAULT_TRANSLATION_SETTINGS: TranslationSettings = {
   provider: 'mistral',
-  apiBaseUrl: 'https://api.mistral.ai/v1/chat/completions',
+  // Empty means the selected provider's own endpoint
+  apiBaseUrl: '',
   apiKey: '',
-  model: ''
+  model: '',
+  sourceLanguages: ['fr'],
+  targetLanguage: 'en',
+  maxConcurrentRequests: 3,
+  requestsPerMinute: 60,
+  contextWindowSize: 3,
+  deeplFormality: 'default',
+  deeplGlossaryId: '',
+  googleProjectId: '',
+  googleLocation: 'global',
+  azureRegion: '',
+  fallbackProviders: [],
+  promptPreset: 'standard',
+  customPromptTemplate: '',
+  glossaries: [],
+  translationProfiles: [],
+  defaultTranslationProfile: '',
+  maxCharactersPerSecond: 0,
+  maxLineLength: 0,
+  priceTable: DEFAULT_PRICE_TABLE,
+  budgetLimit: 0,
+  budgetPeriod: 'month',
+  budgetUnit: 'usd',
+  budgetWarningPercent: 80
+};
+
+// Earlier versions saved Mistral's endpoint as the default whatever the provider. Both values mean
+// Mistral's own endpoint, which an empty base URL still selects for Mistral.
+const LEGACY_DEFAULT_BASE_URLS = ['https://api.mistral.ai/v1/chat/completions', 'https://api.mistral.ai/v1'];
+
+/** Replaces values saved by earlier versions with what they stand for now. */
+export const migrateStoredSettings = <T extends Partial<TranslationSettings>>(settings: T): T =>
+  LEGACY_DEFAULT_BASE_URLS.includes(settings.apiBaseUrl?.trim() ?? '') ? { ...settings, apiBaseUrl: '' } : settings;
+
+/**
+ * Settings that can outgrow the 8 KB Chrome allows per `storage.sync` item. They are kept in
+ * `storage.local` instead, so they are not synced between browsers.
+ */
+export const LOCAL_SETTING_KEYS = ['customPromptTemplate', 'glossaries', 'translationProfiles', 'priceTable'] as const;
+
+export type LocalSettingKey = (typeof LOCAL_SETTING_KEYS)[number];
+
+/** Splits settings into the part saved in `storage.sync` and the part kept in `storage.local`. */
+export const splitSettingsByArea = (
+  settings: Partial<TranslationSettings>
+): { synced: Partial<TranslationSettings>; local: Partial<TranslationSettings> } => {
+  const entries = Object.entries(settings);
+  const isLocal = ([key]: [string, unknown]): boolean => LOCAL_SETTING_KEYS.includes(key as LocalSettingKey);
+  return {
+    synced: Object.fromEntries(entries.filter((entry) => !isLocal(entry))),
+    local: Object.fromEntries(entries.filter(isLocal))
+  };
 };
@@ -0,0 +1,197 @@
+import { getLocalStorageArea, readStorageValue, writeStorageValue, type StorageAreaLike } from './storage';
+import { computeUsageCost, resolvePrice, type PriceTable } from './usage-pricing';
+import type { BudgetPeriod } from './spending-budget';
+
+export const USAGE_LEDGER_STORAGE_KEY = 'usageLedger';
+
+const DEFAULT_MAX_VIDEOS = 50;
+const DEFAULT_MAX_DAYS = 90;
+
+/** What one provider request consumed. Token counts are zero for providers that bill characters. */
+export type TranslationUsage = {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  characters: number;
+};
+
+export type UsageTotals = {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  characters: number;
+};
+
+// Totals per `provider|model`, kept apart so costs follow the price table whenever it changes
+type UsageBreakdown = Record<string, UsageTotals>;
+
+type StoredUsageLedger = {
+  videos: Record<string, { updatedAt: number; usage: UsageBreakdown }>;
+  days: Record<string, UsageBreakdown>;
+};
+
+export type UsageCostLine = {
+  /** Video key, provider id or day, depending on the list. */
+  key: string;
+  totals: UsageTotals;
+  cost: number;
+};
+
+export type UsageSummary = {
+  today: UsageCostLine;
+  providers: UsageCostLine[];
+  /** Most recently translated first. */
+  videos: UsageCostLine[];
+};
+
+export type UsageLedgerOptions = {
+  storageArea?: StorageAreaLike;
+  now?: () => number;
+  maxVideos?: number;
+  maxDays?: number;
+};
+
+export type UsageLedger = {
+  /** `videoKey` identifies what was translated, e.g. the subtitle file URL. */
+  record: (videoKey: string, usage: TranslationUsage) => Promise<void>;
+  getSummary: (priceTable: PriceTable) => Promise<UsageSummary>;
+  /** Usage so far in the current local day or month, keyed by that day or month. */
+  getSpending: (period: BudgetPeriod, priceTable: PriceTable) => Promise<UsageCostLine>;
+};
+
+const EMPTY_LEDGER: StoredUsageLedger = { videos: {}, days: {} };
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, inputTokens: 0, outputTokens: 0, characters: 0 });
+
+const addTotals = (left: UsageTotals, right: UsageTotals): UsageTotals => ({
+  requests: left.requests + right.requests,
+  inputTokens: left.inputTokens + right.inputTokens,
+  outputTokens: left.outputTokens + right.outputTokens,
+  characters: left.characters + right.characters
+});
+
+const buildBreakdownKey = (provider: string, model: string): string => `${provider}|${model}`;
+
+const splitBreakdownKey = (key: string): { provider: string; model: string } => {
+  const separator = key.indexOf('|');
+  return { provider: key.slice(0, separator), model: key.slice(separator + 1) };
+};
+
+// Local calendar day, so "today" matches what the user sees on their clock
+export const toUsageDay = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const addToBreakdown = (breakdown: UsageBreakdown, usage: TranslationUsage): UsageBreakdown => {
+  const key = buildBreakdownKey(usage.provider, usage.model);
+  return {
+    ...breakdown,
+    [key]: addTotals(breakdown[key] ?? emptyTotals(), {
+      requests: 1,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      characters: usage.characters
+    })
+  };
+};
+
+const mergeBreakdowns = (breakdowns: UsageBreakdown[]): UsageBreakdown =>
+  breakdowns.reduce<UsageBreakdown>((merged, breakdown) => {
+    Object.entries(breakdown).forEach(([key, totals]) => {
+      merged[key] = addTotals(merged[key] ?? emptyTotals(), totals);
+    });
+    return merged;
+  }, {});
+
+const summarizeBreakdown = (key: string, breakdown: UsageBreakdown, priceTable: PriceTable): UsageCostLine =>
+  Object.entries(breakdown).reduce<UsageCostLine>(
+    (line, [breakdownKey, totals]) => {
+      const { provider, model } = splitBreakdownKey(breakdownKey);
+      return {
+        key,
+        totals: addTotals(line.totals, totals),
+        cost: line.cost + computeUsageCost(totals, resolvePrice(priceTable, provider, model))
+      };
+    },
+    { key, totals: emptyTotals(), cost: 0 }
+  );
+
+export const createUsageLedger = (options: UsageLedgerOptions = {}): UsageLedger => {
+  const now = options.now ?? Date.now;
+  const maxVideos = options.maxVideos ?? DEFAULT_MAX_VIDEOS;
+  const maxDays = options.maxDays ?? DEFAULT_MAX_DAYS;
+  const resolveStorageArea = (): StorageAreaLike => options.storageArea ?? getLocalStorageArea();
+
+  const readLedger = (): Promise<StoredUsageLedger> =>
+    readStorageValue<StoredUsageLedger>(resolveStorageArea(), USAGE_LEDGER_STORAGE_KEY, EMPTY_LEDGER);
+
+  // Batches finish concurrently; queueing the read-modify-write cycles keeps any of them from being lost
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  return {
+    record: (videoKey, usage) => {
+      const write = pendingWrite.then(async () => {
+        const ledger = await readLedger();
+        const timestamp = now();
+        const day = toUsageDay(timestamp);
+        const videos = Object.entries({
+          ...ledger.videos,
+          [videoKey]: { updatedAt: timestamp, usage: addToBreakdown(ledger.videos[videoKey]?.usage ?? {}, usage) }
+        });
+        const days = Object.entries({ ...ledger.days, [day]: addToBreakdown(ledger.days[day] ?? {}, usage) });
+
+        // Only the most recent videos and days are kept; day keys sort chronologically as strings
+        await writeStorageValue<StoredUsageLedger>(resolveStorageArea(), USAGE_LEDGER_STORAGE_KEY, {
+          videos: Object.fromEntries(
+            videos.sort(([, left], [, right]) => right.updatedAt - left.updatedAt).slice(0, maxVideos)
+          ),
+          days: Object.fromEntries(days.sort(([left], [right]) => right.localeCompare(left)).slice(0, maxDays))
+        });
+      });
+      pendingWrite = write.catch(() => undefined);
+      return write;
+    },
+    getSummary: async (priceTable) => {
+      const ledger = await readLedger();
+      const today = toUsageDay(now());
+
+      // Provider totals cover the days still kept in the ledger
+      const providerBreakdowns: Record<string, UsageBreakdown> = {};
+      Object.values(ledger.days).forEach((breakdown) => {
+        Object.entries(breakdown).forEach(([key, totals]) => {
+          const { provider } = splitBreakdownKey(key);
+          const providerBreakdown = providerBreakdowns[provider] ?? {};
+          providerBreakdown[key] = addTotals(providerBreakdown[key] ?? emptyTotals(), totals);
+          providerBreakdowns[provider] = providerBreakdown;
+        });
+      });
+
+      return {
+        today: summarizeBreakdown(today, ledger.days[today] ?? {}, priceTable),
+        providers: Object.entries(providerBreakdowns).map(([provider, breakdown]) =>
+          summarizeBreakdown(provider, breakdown, priceTable)
+        ),
+        videos: Object.entries(ledger.videos)
+          .sort(([, left], [, right]) => right.updatedAt - left.updatedAt)
+          .map(([videoKey, video]) => summarizeBreakdown(videoKey, video.usage, priceTable))
+      };
+    },
+    getSpending: async (period, priceTable) => {
+      const ledger = await readLedger();
+      const today = toUsageDay(now());
+      if (period === 'day') {
+        return summarizeBreakdown(today, ledger.days[today] ?? {}, priceTable);
+      }
+
+      // Month keys are the `YYYY-MM` prefix shared by the month's day keys
+      const month = today.slice(0, 7);
+      const breakdowns = Object.entries(ledger.days)
+        .filter(([day]) => day.startsWith(`${month}-`))
+        .map(([, breakdown]) => breakdown);
+      return summarizeBreakdown(month, mergeBreakdowns(breakdowns), priceTable);
+    }
+  };
+};
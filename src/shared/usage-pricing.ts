@@ -0,0 +1,66 @@
+import type { UsageTotals } from './usage-ledger';
+
+/** US dollars per million units; machine translation APIs bill source characters, LLMs bill tokens. */
+export type UsagePrice = {
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+  perMillionCharacters: number;
+};
+
+/** Keyed by provider id, or by `provider:model` to price one model differently from the rest. */
+export type PriceTable = Record<string, UsagePrice>;
+
+const tokenPrice = (input: number, output: number): UsagePrice => ({
+  inputPerMillionTokens: input,
+  outputPerMillionTokens: output,
+  perMillionCharacters: 0
+});
+
+const characterPrice = (perMillionCharacters: number): UsagePrice => ({
+  inputPerMillionTokens: 0,
+  outputPerMillionTokens: 0,
+  perMillionCharacters
+});
+
+// Public list prices of each provider's default tier; local providers are free and left out.
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  openai: tokenPrice(0.15, 0.6),
+  mistral: tokenPrice(2, 6),
+  'mistral:mistral-small-latest': tokenPrice(0.1, 0.3),
+  anthropic: tokenPrice(0.8, 4),
+  deepl: characterPrice(25),
+  google: characterPrice(20),
+  'google-v3': characterPrice(20),
+  azure: characterPrice(10)
+};
+
+const PRICE_FIELDS: Array<keyof UsagePrice> = ['inputPerMillionTokens', 'outputPerMillionTokens', 'perMillionCharacters'];
+
+export const isPriceTable = (value: unknown): value is PriceTable =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Object.values(value).every(
+    (price) =>
+      typeof price === 'object' &&
+      price !== null &&
+      PRICE_FIELDS.every((field) => {
+        const amount = (price as Record<string, unknown>)[field];
+        return typeof amount === 'number' && Number.isFinite(amount) && amount >= 0;
+      })
+  );
+
+export const resolvePrice = (table: PriceTable, provider: string, model: string): UsagePrice | null =>
+  table[`${provider}:${model}`] ?? table[provider] ?? null;
+
+export const computeUsageCost = (totals: UsageTotals, price: UsagePrice | null): number => {
+  if (!price) {
+    return 0;
+  }
+  return (
+    (totals.inputTokens * price.inputPerMillionTokens +
+      totals.outputTokens * price.outputPerMillionTokens +
+      totals.characters * price.perMillionCharacters) /
+    1_000_000
+  );
+};
@@ -16,6 +16,144 @@ const normalizeVttLines = (vttText: string): string[] => {
   return normalized.split('\n');
 };
 
+/**
+ * A cue time in milliseconds. `hasHours` records whether it was written as `hh:mm:ss.ttt` rather than
+ * `mm:ss.ttt`, so formatting a parsed timestamp gives back the same text.
+ */
+export type VttTimestamp = {
+  milliseconds: number;
+  hasHours: boolean;
+};
+
+const TIMESTAMP_PATTERN = /^(?:(\d{2,}):)?([0-5]\d):([0-5]\d)\.(\d{3})$/;
+
+const MS_PER_SECOND = 1000;
+const MS_PER_MINUTE = 60 * MS_PER_SECOND;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+
+/** Reads a cue timestamp (`hh:mm:ss.ttt` or `mm:ss.ttt`); null when it is malformed. */
+export const parseVttTimestamp = (timestamp: string): VttTimestamp | null => {
+  const match = TIMESTAMP_PATTERN.exec(timestamp.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, hours, minutes, seconds, milliseconds] = match;
+  const clockMs = Number(minutes) * MS_PER_MINUTE + Number(seconds) * MS_PER_SECOND + Number(milliseconds);
+  return { milliseconds: Number(hours ?? 0) * MS_PER_HOUR + clockMs, hasHours: hours !== undefined };
+};
+
+const pad = (value: number, length: number): string => String(value).padStart(length, '0');
+
+/** Writes a timestamp back as text; hours are added when the time needs them. */
+export const formatVttTimestamp = ({ milliseconds, hasHours }: VttTimestamp): string => {
+  const total = Math.max(0, Math.round(milliseconds));
+  const hours = Math.floor(total / MS_PER_HOUR);
+  const minutes = Math.floor((total % MS_PER_HOUR) / MS_PER_MINUTE);
+  const seconds = Math.floor((total % MS_PER_MINUTE) / MS_PER_SECOND);
+  const clock = `${pad(minutes, 2)}:${pad(seconds, 2)}.${pad(total % MS_PER_SECOND, 3)}`;
+  return hasHours || hours > 0 ? `${pad(hours, 2)}:${clock}` : clock;
+};
+
+/** Converts a cue timestamp (`hh:mm:ss.ttt` or `mm:ss.ttt`) into seconds, or null when it is malformed. */
+export const vttTimestampToSeconds = (timestamp: string): number | null => {
+  const parsed = parseVttTimestamp(timestamp);
+  return parsed === null ? null : parsed.milliseconds / MS_PER_SECOND;
+};
+
+export type VttCueTiming = {
+  startMs: number;
+  endMs: number;
+};
+
+/** The cue's start and end in milliseconds; null when either timestamp is malformed. */
+export const getCueTiming = (cue: Pick<VttCue, 'start' | 'end'>): VttCueTiming | null => {
+  const start = parseVttTimestamp(cue.start);
+  const end = parseVttTimestamp(cue.end);
+  return start && end ? { startMs: start.milliseconds, endMs: end.milliseconds } : null;
+};
+
+// Malformed timestamps are left as they are; times before the start of the media are clamped to zero
+const retimeTimestamp = (timestamp: string, transform: (milliseconds: number) => number): string => {
+  const parsed = parseVttTimestamp(timestamp);
+  if (!parsed) {
+    return timestamp;
+  }
+  return formatVttTimestamp({ ...parsed, milliseconds: Math.max(0, transform(parsed.milliseconds)) });
+};
+
+const retimeCues = (cues: VttCue[], transform: (milliseconds: number) => number): VttCue[] =>
+  cues.map((cue) => ({
+    ...cue,
+    start: retimeTimestamp(cue.start, transform),
+    end: retimeTimestamp(cue.end, transform)
+  }));
+
+/** Shifts every cue by `offsetMs`, e.g. to resync subtitles that show up late. */
+export const offsetCues = (cues: VttCue[], offsetMs: number): VttCue[] =>
+  retimeCues(cues, (milliseconds) => milliseconds + offsetMs);
+
+/**
+ * Stretches cue times around `originMs` by `factor`, e.g. 25 / 23.976 for subtitles timed for
+ * another frame rate. Times are rounded to the millisecond.
+ */
+export const scaleCues = (cues: VttCue[], factor: number, originMs = 0): VttCue[] => {
+  if (!Number.isFinite(factor) || factor <= 0) {
+    throw new Error('Cue times can only be scaled by a positive factor.');
+  }
+  return retimeCues(cues, (milliseconds) => Math.round(originMs + (milliseconds - originMs) * factor));
+};
+
+/**
+ * Index pairs of cues shown at the same time, the earlier-starting cue first. Overlaps are valid
+ * WebVTT, e.g. for two speakers, so callers decide whether they matter.
+ */
+export const findOverlappingCues = (cues: VttCue[]): Array<[number, number]> => {
+  const timed = cues
+    .map((cue, index) => ({ index, timing: getCueTiming(cue) }))
+    .filter((entry): entry is { index: number; timing: VttCueTiming } => entry.timing !== null)
+    .sort((left, right) => left.timing.startMs - right.timing.startMs || left.index - right.index);
+
+  const overlaps: Array<[number, number]> = [];
+  let active: typeof timed = [];
+  timed.forEach((entry) => {
+    active = active.filter((previous) => previous.timing.endMs > entry.timing.startMs);
+    active.forEach((previous) => overlaps.push([previous.index, entry.index]));
+    active.push(entry);
+  });
+  return overlaps;
+};
+
+export type VttTimingIssue = {
+  index: number;
+  kind: 'malformed' | 'end-before-start' | 'out-of-order';
+};
+
+/**
+ * Checks that every cue has valid timestamps, ends no earlier than it starts and, as WebVTT requires,
+ * starts no earlier than the cue before it.
+ */
+export const validateCueTimings = (cues: VttCue[]): VttTimingIssue[] => {
+  const issues: VttTimingIssue[] = [];
+  let previousStartMs = 0;
+  cues.forEach((cue, index) => {
+    const timing = getCueTiming(cue);
+    if (!timing) {
+      issues.push({ index, kind: 'malformed' });
+      return;
+    }
+    if (timing.endMs < timing.startMs) {
+      issues.push({ index, kind: 'end-before-start' });
+    }
+    if (timing.startMs < previousStartMs) {
+      issues.push({ index, kind: 'out-of-order' });
+    }
+    previousStartMs = Math.max(previousStartMs, timing.startMs);
+  });
+  return issues;
+};
+
+// Rejects time lines whose timestamps are malformed or whose cue would end before it starts
 const parseTimeLine = (line: string): { start: string; end: string; settings?: string } | null => {
   const [startPart, endAndSettings] = line.split('-->');
   if (!startPart || !endAndSettings) {
@@ -32,12 +170,17 @@ const parseTimeLine = (line: string): { start: string; end: string; settings?: s
     return null;
   }
 
-  const firstSpaceIndex = trimmedRemainder.indexOf(' ');
+  const firstSpaceIndex = trimmedRemainder.search(/\s/);
+  const end = firstSpaceIndex === -1 ? trimmedRemainder : trimmedRemainder.slice(0, firstSpaceIndex);
+  const timing = getCueTiming({ start, end });
+  if (!timing || timing.endMs < timing.startMs) {
+    return null;
+  }
+
   if (firstSpaceIndex === -1) {
-    return { start, end: trimmedRemainder };
+    return { start, end };
   }
 
-  const end = trimmedRemainder.slice(0, firstSpaceIndex).trim();
   const settings = trimmedRemainder.slice(firstSpaceIndex + 1).trim();
   return { start, end, settings: settings.length > 0 ? settings : undefined };
 };
@@ -114,9 +257,12 @@ export const parseVtt = (vttText: string): VttCue[] => {
       continue;
     }
 
+    // A cue with a malformed time line is dropped whole, text included
     const parsedTime = parseTimeLine(timeLine);
     if (!parsedTime) {
-      index += 1;
+      while (index < lines.length && lines[index].trim() !== '') {
+        index += 1;
+      }
       continue;
     }
 
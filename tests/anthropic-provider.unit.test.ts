@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from 'vitest';
+import { anthropicProvider } from '../src/shared/providers/anthropic';
+import { translateTexts } from '../src/shared/translation-adapter';
+import { DEFAULT_TRANSLATION_SETTINGS, type TranslationSettings } from '../src/shared/translation-settings';
+
+vi.mock('../src/shared/browser', () => ({
+  extensionBrowser: { runtime: { lastError: undefined }, storage: {} }
+}));
+
+const anthropicSettings: TranslationSettings = {
+  ...DEFAULT_TRANSLATION_SETTINGS,
+  provider: 'anthropic',
+  apiBaseUrl: '',
+  apiKey: 'sk-ant-test',
+  model: ''
+};
+
+const toolResponse = (input: unknown) =>
+  new Response(
+    JSON.stringify({
+      content: [
+        { type: 'text', text: 'Here you go.' },
+        { type: 'tool_use', id: 'toolu_1', name: 'record_translations', input }
+      ]
+    }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+
+const rateLimiter = { reserve: () => 0, pause: () => undefined };
+const noSleep = async () => undefined;
+
+describe('Anthropic provider', () => {
+  it('sends a Messages request that forces the translations tool', async () => {
+    const fetchFn = vi.fn(async () =>
+      toolResponse({
+        translations: [
+          { id: 2, text: 'Hi' },
+          { id: 1, text: 'Hello' }
+        ]
+      })
+    );
+
+    const result = await translateTexts(
+      { texts: ['Bonjour', 'Salut'], sourceLanguage: 'fr', targetLanguage: 'en' },
+      { fetchFn, loadSettingsFn: async () => anthropicSettings, rateLimiter, sleepFn: noSleep }
+    );
+
+    expect(result).toEqual(['Hello', 'Hi']);
+    const [url, init] = fetchFn.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect(init.headers).toMatchObject({ 'x-api-key': 'sk-ant-test', 'anthropic-version': '2023-06-01' });
+    const payload = JSON.parse(String(init.body));
+    expect(payload).toMatchObject({
+      model: 'claude-3-5-haiku-latest',
+      system: expect.stringContaining('subtitle translation engine'),
+      tool_choice: { type: 'tool', name: 'record_translations' }
+    });
+    expect(payload.tools[0].input_schema.properties.translations.items.required).toEqual(['id', 'text']);
+    expect(JSON.parse(payload.messages[0].content).segments).toEqual([
+      { id: 1, text: 'Bonjour' },
+      { id: 2, text: 'Salut' }
+    ]);
+  });
+
+  it('treats a tool call without a translations array as malformed', () => {
+    expect(() =>
+      anthropicProvider.parseResponse({ content: [{ type: 'tool_use', name: 'record_translations', input: {} }] }, 1)
+    ).toThrow(expect.objectContaining({ kind: 'malformed' }));
+  });
+
+  it('treats replies without the tool call as malformed', () => {
+    expect(() => anthropicProvider.parseResponse({ content: [{ type: 'text', text: '{}' }] }, 1)).toThrow(
+      expect.objectContaining({ kind: 'malformed', message: expect.stringMatching(/unsupported response payload/) })
+    );
+    expect(() => anthropicProvider.parseResponse({ content: [] }, 1)).toThrow(
+      expect.objectContaining({ kind: 'malformed', message: expect.stringMatching(/empty response/) })
+    );
+  });
+});
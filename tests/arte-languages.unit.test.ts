@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { detectArteSubtitleLanguage, getLanguageLabel, isSupportedLanguage } from '../src/shared/arte-languages';
+
+const subtitleUrl = (suffix: string): string =>
+  `https://arte-cmafhls.akamaized.net/am/cmaf/117000/117700/117798-000-A/medias/117798-000-A_${suffix}.vtt?CMCD=br%3D4816`;
+
+describe('Arte subtitle languages', () => {
+  it('detects French subtitle files from their VF track codes', () => {
+    expect(detectArteSubtitleLanguage(subtitleUrl('st_VF-MAL'), ['fr'])).toBe('fr');
+    expect(detectArteSubtitleLanguage(subtitleUrl('VF-STF'), ['fr'])).toBe('fr');
+    expect(detectArteSubtitleLanguage(subtitleUrl('st_VOF'), ['fr'])).toBe('fr');
+  });
+
+  it('detects German and bracketed foreign-language track codes', () => {
+    expect(detectArteSubtitleLanguage(subtitleUrl('st_VA-MAL'), ['fr', 'de'])).toBe('de');
+    expect(detectArteSubtitleLanguage(subtitleUrl('st_VE%5BESP%5D'), ['es'])).toBe('es');
+    expect(detectArteSubtitleLanguage(subtitleUrl('st_VE'), ['en'])).toBe('en');
+  });
+
+  it('ignores subtitle files whose language is not selected', () => {
+    expect(detectArteSubtitleLanguage(subtitleUrl('st_VA-MAL'), ['fr'])).toBeNull();
+    expect(detectArteSubtitleLanguage(subtitleUrl('st_VE%5BESP%5D'), ['en'])).toBeNull();
+    expect(detectArteSubtitleLanguage('https://example.com/%E0%A4%A.vtt', ['fr'])).toBeNull();
+  });
+
+  it('exposes language metadata helpers', () => {
+    expect(isSupportedLanguage('pl')).toBe(true);
+    expect(isSupportedLanguage('xx')).toBe(false);
+    expect(getLanguageLabel('it')).toBe('Italian');
+    expect(getLanguageLabel('xx')).toBe('xx');
+  });
+});
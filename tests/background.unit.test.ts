@@ -2,6 +2,9 @@ import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import type { TranslationPipelineRequest } from '../src/background';
 import type { TranslationResponse } from '../src/shared/messages';
 import type { TranslateVttMessage } from '../src/shared/messages';
+import { DEFAULT_TRANSLATION_SETTINGS, type TranslationSettings } from '../src/shared/translation-settings';
+import type { TranslationProfile } from '../src/shared/translation-profiles';
+import type { StorageAreaLike } from '../src/shared/storage';
 
 const installChromeStub = (): void => {
   (globalThis as typeof globalThis & { chrome?: typeof chrome }).chrome = {
@@ -9,6 +12,13 @@ const installChromeStub = (): void => {
       onInstalled: { addListener: vi.fn() },
       onMessage: { addListener: vi.fn() },
       lastError: undefined
+    },
+    webRequest: {
+      onBeforeRequest: { addListener: vi.fn() }
+    },
+    tabs: {
+      query: vi.fn().mockResolvedValue([]),
+      sendMessage: vi.fn().mockResolvedValue(undefined)
     }
   } as unknown as typeof chrome;
 };
@@ -46,17 +56,422 @@ describe('background service worker', () => {
       );
 
       expect(fetchFn).toHaveBeenCalledWith('https://example.com/subs.vtt');
-      expect(translateTextsFn).toHaveBeenCalledWith({
-        texts: ['Bonjour Monde!', 'Salut'],
-        sourceLanguage: 'fr',
-        targetLanguage: 'en'
-      });
+      expect(translateTextsFn).toHaveBeenCalledWith(
+        {
+          texts: ['Bonjour Monde!', 'Salut'],
+          sourceLanguage: 'fr',
+          targetLanguage: 'en',
+          timings: [
+            { start: 1, end: 2 },
+            { start: 3, end: 4 }
+          ]
+        },
+        expect.objectContaining({ onBatchTranslated: expect.any(Function) })
+      );
       expect(response.status).toBe('translated');
       const success = response as Extract<TranslationResponse, { status: 'translated' }>;
       expect(success.translatedVtt).toContain('WEBVTT');
       expect(success.translatedVtt).toContain('EN Bonjour');
     });
 
+    it('serves cached translations without calling the translation adapter', async () => {
+      const fetchFn = vi.fn().mockResolvedValue({
+        ok: true,
+        text: vi.fn().mockResolvedValue(sampleVtt)
+      });
+      const translateTextsFn = vi.fn();
+      const cache = {
+        get: vi.fn().mockResolvedValue(['Cached hello', 'Cached hi']),
+        set: vi.fn(),
+        clear: vi.fn()
+      };
+      const loadSettingsFn = vi.fn().mockResolvedValue({
+        provider: 'openai',
+        apiBaseUrl: '',
+        apiKey: 'key',
+        model: 'gpt-test'
+      });
+      const module = await loadBackgroundModule();
+      const response = await module.runTranslationPipeline(
+        { url: 'https://example.com/subs.vtt', sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn, translateTextsFn, cache, loadSettingsFn }
+      );
+
+      expect(cache.get).toHaveBeenCalledWith(expect.stringMatching(/^openai:gpt-test:en:[0-9a-f]{64}$/));
+      expect(translateTextsFn).not.toHaveBeenCalled();
+      expect(cache.set).not.toHaveBeenCalled();
+      expect((response as Extract<TranslationResponse, { status: 'translated' }>).translatedVtt).toContain('Cached hello');
+    });
+
+    it('stores fresh translations in the cache after a miss', async () => {
+      const fetchFn = vi.fn().mockResolvedValue({
+        ok: true,
+        text: vi.fn().mockResolvedValue(sampleVtt)
+      });
+      const translateTextsFn = vi.fn().mockResolvedValue(['EN Bonjour', 'EN Salut']);
+      const cache = { get: vi.fn().mockResolvedValue(null), set: vi.fn().mockResolvedValue(undefined), clear: vi.fn() };
+      const loadSettingsFn = vi.fn().mockResolvedValue({ provider: 'demo', apiBaseUrl: '', apiKey: '', model: '' });
+      const module = await loadBackgroundModule();
+      await module.runTranslationPipeline(
+        { url: 'https://example.com/subs.vtt', sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn, translateTextsFn, cache, loadSettingsFn }
+      );
+
+      expect(translateTextsFn).toHaveBeenCalledTimes(1);
+      expect(cache.set).toHaveBeenCalledWith(expect.stringMatching(/^demo:demo-model:en:/), ['EN Bonjour', 'EN Salut']);
+    });
+
+    it.each<[string, Partial<TranslationSettings>, Partial<TranslationSettings>]>([
+      ['the number of context cues', { contextWindowSize: 3 }, { contextWindowSize: 0 }],
+      ['the prompt preset', { promptPreset: 'standard' }, { promptPreset: 'formal' }],
+      [
+        'the custom prompt template',
+        { promptPreset: 'custom', customPromptTemplate: 'Translate into {{targetLanguage}}.' },
+        { promptPreset: 'custom', customPromptTemplate: 'Translate into {{targetLanguage}}, formally.' }
+      ],
+      [
+        'a glossary',
+        { glossaries: [{ series: '', entries: [{ source: 'Lucie', target: 'Lucie' }] }] },
+        { glossaries: [{ series: '', entries: [{ source: 'Lucie', target: 'Lucy' }] }] }
+      ],
+      [
+        'the profile applied to the programme',
+        {},
+        {
+          translationProfiles: [{ name: 'Documentaries', match: [], settings: { promptPreset: 'formal' } }],
+          defaultTranslationProfile: 'Documentaries'
+        }
+      ],
+      ['the reading speed', { maxCharactersPerSecond: 0 }, { maxCharactersPerSecond: 17 }],
+      ['the line width', { maxLineLength: 0 }, { maxLineLength: 42 }]
+    ])('misses the cache when %s changes', async (_setting, before, after) => {
+      const fetchFn = vi.fn().mockResolvedValue({ ok: true, text: vi.fn().mockResolvedValue(sampleVtt) });
+      const cache = { get: vi.fn().mockResolvedValue(null), set: vi.fn().mockResolvedValue(undefined), clear: vi.fn() };
+      const module = await loadBackgroundModule();
+      const translate = (overrides: Partial<TranslationSettings>) =>
+        module.runTranslationPipeline(
+          { url: 'https://example.com/subs.vtt', sourceLanguage: 'fr', targetLanguage: 'en' },
+          {
+            fetchFn,
+            translateTextsFn: vi.fn().mockResolvedValue(['Hello', 'Hi']),
+            cache,
+            loadSettingsFn: async () => ({ ...DEFAULT_TRANSLATION_SETTINGS, ...overrides })
+          }
+        );
+
+      await translate(before);
+      await translate(after);
+
+      const [[firstKey], [secondKey]] = cache.get.mock.calls;
+      expect(secondKey).not.toBe(firstKey);
+    });
+
+    it('reports partial mappings as translation batches complete', async () => {
+      const fetchFn = vi.fn().mockResolvedValue({
+        ok: true,
+        text: vi.fn().mockResolvedValue(sampleVtt)
+      });
+      const translateTextsFn = vi.fn(async (_request, deps) => {
+        deps?.onBatchTranslated?.([{ index: 0, text: 'Hello World!', provider: 'openai' }]);
+        deps?.onBatchTranslated?.([{ index: 1, text: 'Hi', provider: 'mistral' }]);
+        return ['Hello World!', 'Hi'];
+      });
+      const onProgress = vi.fn();
+      const module = await loadBackgroundModule();
+      const response = await module.runTranslationPipeline(
+        { url: 'https://example.com/subs.vtt', sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn, translateTextsFn, onProgress, cache: { get: vi.fn(), set: vi.fn(), clear: vi.fn() } }
+      );
+
+      expect(onProgress).toHaveBeenNthCalledWith(1, {
+        mapping: { 'Bonjour Monde!': 'Hello World!' },
+        translatedCount: 1,
+        totalCount: 2
+      });
+      expect(onProgress).toHaveBeenNthCalledWith(2, { mapping: { Salut: 'Hi' }, translatedCount: 2, totalCount: 2 });
+      expect(response).toMatchObject({ status: 'translated', cueProviders: ['openai', 'mistral'] });
+    });
+
+    it('translates sentences split across cues as one unit and shares the result by duration', async () => {
+      const splitVtt = [
+        'WEBVTT',
+        '',
+        '00:00:01.000 --> 00:00:02.000',
+        'Je suis allé au marché...',
+        '',
+        '00:00:02.000 --> 00:00:05.000',
+        '...pour acheter du pain.'
+      ].join('\n');
+      const fetchFn = vi.fn().mockResolvedValue({ ok: true, text: vi.fn().mockResolvedValue(splitVtt) });
+      const translateTextsFn = vi.fn().mockResolvedValue(['I went to the market to buy bread.']);
+      const module = await loadBackgroundModule();
+      const response = await module.runTranslationPipeline(
+        { url: 'https://example.com/split.vtt', sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn, translateTextsFn, cache: { get: vi.fn(), set: vi.fn(), clear: vi.fn() } }
+      );
+
+      expect(translateTextsFn).toHaveBeenCalledWith(
+        expect.objectContaining({
+          texts: ['Je suis allé au marché pour acheter du pain.'],
+          timings: [{ start: 1, end: 5 }]
+        }),
+        expect.anything()
+      );
+      expect(response).toMatchObject({
+        status: 'translated',
+        mapping: {
+          'Je suis allé au marché...': 'I went to',
+          '...pour acheter du pain.': 'the market to buy bread.'
+        }
+      });
+      const success = response as Extract<TranslationResponse, { status: 'translated' }>;
+      expect(success.translatedVtt).toContain('00:00:02.000 --> 00:00:05.000\nthe market to buy bread.');
+    });
+
+    it('returns partial results that keep failed cues in the original language', async () => {
+      const fetchFn = vi.fn().mockResolvedValue({
+        ok: true,
+        text: vi.fn().mockResolvedValue(sampleVtt)
+      });
+      const translateTextsFn = vi.fn(async (_request, deps) => {
+        deps?.onBatchTranslated?.([{ index: 0, text: 'Hello World!', provider: 'mistral' }]);
+        deps?.onSegmentsFailed?.([1]);
+        return ['Hello World!', 'Salut'];
+      });
+      const cache = { get: vi.fn().mockResolvedValue(null), set: vi.fn(), clear: vi.fn() };
+      const module = await loadBackgroundModule();
+      const response = await module.runTranslationPipeline(
+        { url: 'https://example.com/subs.vtt', sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn, translateTextsFn, cache }
+      );
+
+      expect(response).toMatchObject({
+        status: 'partial',
+        mapping: { 'Bonjour Monde!': 'Hello World!' },
+        failedCueIndexes: [1],
+        cueProviders: ['mistral', null],
+        message: '1 of 2 cues could not be translated.'
+      });
+      const partial = response as Extract<TranslationResponse, { status: 'partial' }>;
+      expect(partial.translatedVtt).toContain('Hello World!');
+      expect(partial.translatedVtt).toContain('Salut');
+      expect(cache.set).not.toHaveBeenCalled();
+    });
+
+    it('explains a reached spending cap and passes budget warnings on', async () => {
+      const fetchFn = vi.fn().mockResolvedValue({ ok: true, text: vi.fn().mockResolvedValue(sampleVtt) });
+      const cache = { get: vi.fn().mockResolvedValue(null), set: vi.fn(), clear: vi.fn() };
+      const budgetMessage = 'The daily translation budget of $1.00 is used up ($1.02 spent).';
+      const module = await loadBackgroundModule();
+      const { TranslationProviderError } = await import('../src/shared/translation-errors');
+      const request = { url: 'https://example.com/subs.vtt', sourceLanguage: 'fr', targetLanguage: 'en' };
+
+      const refused = await module.runTranslationPipeline(request, {
+        fetchFn,
+        cache,
+        translateTextsFn: vi.fn().mockRejectedValue(new TranslationProviderError(budgetMessage, 'budget'))
+      });
+      expect(refused).toEqual({ status: 'error', message: budgetMessage });
+
+      const partial = await module.runTranslationPipeline(request, {
+        fetchFn,
+        cache,
+        translateTextsFn: vi.fn(async (_request, deps) => {
+          deps?.onBudgetWarning?.('90% of the daily translation budget is used ($0.90 of $1.00).');
+          deps?.onSegmentsFailed?.([1], new TranslationProviderError(budgetMessage, 'budget'));
+          return ['Hello World!', 'Salut'];
+        })
+      });
+      expect(partial).toMatchObject({
+        status: 'partial',
+        message: `1 of 2 cues could not be translated. ${budgetMessage}`,
+        budgetExceeded: true,
+        budgetWarning: '90% of the daily translation budget is used ($0.90 of $1.00).'
+      });
+    });
+
+    it('sends the glossary of the programme and flags sentences that ignore it', async () => {
+      const fetchFn = vi.fn().mockResolvedValue({ ok: true, text: vi.fn().mockResolvedValue(sampleVtt) });
+      const translateTextsFn = vi.fn().mockResolvedValue(['Hello World!', 'Hi']);
+      const module = await loadBackgroundModule();
+      const response = await module.runTranslationPipeline(
+        { url: 'https://example.com/subs.vtt', sourceLanguage: 'fr', targetLanguage: 'en', showTitle: 'Monde en fête' },
+        {
+          fetchFn,
+          translateTextsFn,
+          cache: { get: vi.fn().mockResolvedValue(null), set: vi.fn(), clear: vi.fn() },
+          loadSettingsFn: async () => ({
+            ...DEFAULT_TRANSLATION_SETTINGS,
+            glossaries: [
+              { series: '', entries: [{ source: 'Salut', target: 'Hi' }] },
+              { series: 'Monde en fête', entries: [{ source: 'Monde', target: 'Earth' }] }
+            ]
+          })
+        }
+      );
+
+      expect(translateTextsFn).toHaveBeenCalledWith(
+        expect.objectContaining({
+          glossary: [
+            { source: 'Salut', target: 'Hi' },
+            { source: 'Monde', target: 'Earth' }
+          ]
+        }),
+        expect.anything()
+      );
+      expect(response).toMatchObject({
+        status: 'translated',
+        glossaryViolations: [{ cueIndexes: [0], terms: ['Monde'] }]
+      });
+    });
+
+    it('translates with the settings of the matching profile or else the default profile', async () => {
+      const fetchFn = vi.fn().mockResolvedValue({ ok: true, text: vi.fn().mockResolvedValue(sampleVtt) });
+      const translateTextsFn = vi.fn().mockResolvedValue(['Hello World!', 'Hi']);
+      const loadSettingsFn = async () => ({
+        ...DEFAULT_TRANSLATION_SETTINGS,
+        translationProfiles: [
+          { name: 'Documentaries', match: ['RC-014036'], settings: { model: 'mistral-small-latest' } },
+          { name: 'Fiction', match: ['Papillons'], settings: { model: 'mistral-large-latest', promptPreset: 'casual' as const } }
+        ],
+        defaultTranslationProfile: 'Documentaries'
+      });
+      const module = await loadBackgroundModule();
+      const readModel = async (call: number) => {
+        const settings = await translateTextsFn.mock.calls[call][1].loadSettingsFn();
+        return [settings.model, settings.promptPreset];
+      };
+
+      for (const showTitle of ['Les Papillons noirs', 'Les Alpes vues du ciel']) {
+        await module.runTranslationPipeline(
+          { url: 'https://example.com/subs.vtt', sourceLanguage: 'fr', targetLanguage: 'en', showTitle },
+          { fetchFn, translateTextsFn, loadSettingsFn, cache: { get: vi.fn().mockResolvedValue(null), set: vi.fn(), clear: vi.fn() } }
+        );
+      }
+
+      expect(await readModel(0)).toEqual(['mistral-large-latest', 'casual']);
+      expect(await readModel(1)).toEqual(['mistral-small-latest', 'standard']);
+    });
+
+    it.each<[string, TranslationProfile['settings']]>([
+      ['prompt preset', { promptPreset: 'casual' }],
+      ['glossary', { glossaries: [{ series: '', entries: [{ source: 'Monde', target: 'Earth' }] }] }]
+    ])('does not reuse translations remembered under a profile with another %s', async (_setting, profileSettings) => {
+      const { translateTexts } = await import('../src/shared/translation-adapter');
+      const { createTranslationMemory } = await import('../src/shared/translation-memory');
+      const data: Record<string, unknown> = {};
+      const storageArea = {
+        get: (defaults: Record<string, unknown>, callback: (items: Record<string, unknown>) => void) =>
+          callback(Object.fromEntries(Object.entries(defaults).map(([key, fallback]) => [key, data[key] ?? fallback]))),
+        set: (items: Record<string, unknown>, callback?: () => void) => {
+          Object.assign(data, structuredClone(items));
+          callback?.();
+        }
+      } as unknown as StorageAreaLike;
+      const translationMemory = createTranslationMemory({ storageArea });
+      const module = await loadBackgroundModule();
+      const translate = (showTitle: string) =>
+        module.runTranslationPipeline(
+          { url: 'https://example.com/subs.vtt', sourceLanguage: 'fr', targetLanguage: 'en', showTitle },
+          {
+            fetchFn: vi.fn().mockResolvedValue({ ok: true, text: vi.fn().mockResolvedValue(sampleVtt) }),
+            translateTextsFn: (request, deps) => translateTexts(request, { ...deps, translationMemory }),
+            cache: { get: vi.fn().mockResolvedValue(null), set: vi.fn(), clear: vi.fn() },
+            loadSettingsFn: async () => ({
+              ...DEFAULT_TRANSLATION_SETTINGS,
+              provider: 'demo',
+              translationProfiles: [{ name: 'Fiction', match: ['Papillons'], settings: profileSettings }]
+            })
+          }
+        );
+
+      await translate('Les Alpes vues du ciel');
+      await translate('Les Papillons noirs');
+      expect((await translationMemory.getStats()).hits).toBe(0);
+
+      await translate('Les Papillons noirs');
+      expect((await translationMemory.getStats()).hits).toBeGreaterThan(0);
+    });
+
+    it('translates cues read too fast again under a length limit and keeps the shorter result', async () => {
+      const fetchFn = vi.fn().mockResolvedValue({ ok: true, text: vi.fn().mockResolvedValue(sampleVtt) });
+      const translateTextsFn = vi
+        .fn()
+        .mockResolvedValueOnce(['Hello to the whole wide wonderful world!', 'Hi'])
+        .mockResolvedValueOnce(['Hello, world!']);
+      const module = await loadBackgroundModule();
+      const response = await module.runTranslationPipeline(
+        { url: 'https://example.com/subs.vtt', sourceLanguage: 'fr', targetLanguage: 'en' },
+        {
+          fetchFn,
+          translateTextsFn,
+          cache: { get: vi.fn().mockResolvedValue(null), set: vi.fn(), clear: vi.fn() },
+          loadSettingsFn: async () => ({ ...DEFAULT_TRANSLATION_SETTINGS, maxCharactersPerSecond: 20 })
+        }
+      );
+
+      expect(translateTextsFn).toHaveBeenLastCalledWith(
+        { texts: ['Bonjour Monde!'], sourceLanguage: 'fr', targetLanguage: 'en', maxCharacters: [20] },
+        expect.objectContaining({ onSegmentsFailed: expect.any(Function) })
+      );
+      const success = response as Extract<TranslationResponse, { status: 'translated' }>;
+      expect(success.translatedVtt).toContain('Hello, world!');
+      expect(success.translatedVtt).not.toContain('wonderful');
+    });
+
+    it('only re-wraps long lines for providers that cannot condense', async () => {
+      const fetchFn = vi.fn().mockResolvedValue({ ok: true, text: vi.fn().mockResolvedValue(sampleVtt) });
+      const translateTextsFn = vi.fn().mockResolvedValue(['Hello to the whole wide wonderful world!', 'Hi']);
+      const module = await loadBackgroundModule();
+      const response = await module.runTranslationPipeline(
+        { url: 'https://example.com/subs.vtt', sourceLanguage: 'fr', targetLanguage: 'en' },
+        {
+          fetchFn,
+          translateTextsFn,
+          cache: { get: vi.fn().mockResolvedValue(null), set: vi.fn(), clear: vi.fn() },
+          loadSettingsFn: async () => ({ ...DEFAULT_TRANSLATION_SETTINGS, provider: 'deepl', maxLineLength: 24 })
+        }
+      );
+
+      expect(translateTextsFn).toHaveBeenCalledTimes(1);
+      const success = response as Extract<TranslationResponse, { status: 'translated' }>;
+      expect(success.translatedVtt).toContain('Hello to the whole wide\nwonderful world!');
+    });
+
+    it('books provider usage against the subtitle file', async () => {
+      const fetchFn = vi.fn().mockResolvedValue({ ok: true, text: vi.fn().mockResolvedValue(sampleVtt) });
+      const usage = { provider: 'mistral', model: 'mistral-large-latest', inputTokens: 10, outputTokens: 5, characters: 19 };
+      const translateTextsFn = vi.fn(async (_request, deps) => {
+        deps?.onUsage?.(usage);
+        return ['Hello World!', 'Hi'];
+      });
+      const usageLedger = { record: vi.fn().mockResolvedValue(undefined), getSummary: vi.fn() };
+      const module = await loadBackgroundModule();
+      await module.runTranslationPipeline(
+        { url: 'https://example.com/subs.vtt', sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn, translateTextsFn, usageLedger, cache: { get: vi.fn(), set: vi.fn(), clear: vi.fn() } }
+      );
+
+      expect(usageLedger.record).toHaveBeenCalledWith('https://example.com/subs.vtt', usage);
+    });
+
+    it('books usage of the same subtitle file together whatever its query string', async () => {
+      const fetchFn = vi.fn().mockResolvedValue({ ok: true, text: vi.fn().mockResolvedValue(sampleVtt) });
+      const usage = { provider: 'mistral', model: 'mistral-large-latest', inputTokens: 10, outputTokens: 5, characters: 19 };
+      const translateTextsFn = vi.fn(async (_request, deps) => {
+        deps?.onUsage?.(usage);
+        return ['Hello World!', 'Hi'];
+      });
+      const usageLedger = { record: vi.fn().mockResolvedValue(undefined), getSummary: vi.fn() };
+      const module = await loadBackgroundModule();
+      await module.runTranslationPipeline(
+        { url: 'https://example.com/subs.vtt?CMCD=bl%3D21300%2Csid%3D%22abc%22', sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn, translateTextsFn, usageLedger, cache: { get: vi.fn(), set: vi.fn(), clear: vi.fn() } }
+      );
+
+      expect(usageLedger.record).toHaveBeenCalledWith('https://example.com/subs.vtt', usage);
+    });
+
     it('propagates HTTP errors with descriptive messages', async () => {
       const fetchFn = vi.fn().mockResolvedValue({ ok: false, status: 403 });
       const module = await loadBackgroundModule();
@@ -96,6 +511,229 @@ describe('background service worker', () => {
     });
   });
 
+  describe('handleSubtitleRequest', () => {
+    const frenchUrl = 'https://arte-cmafhls.akamaized.net/medias/117798-000-A_st_VF-MAL.vtt?CMCD=1';
+    const germanUrl = 'https://arte-cmafhls.akamaized.net/medias/117798-000-A_st_VA-MAL.vtt';
+    const buildSettings = (overrides: Partial<TranslationSettings> = {}) => async (): Promise<TranslationSettings> => ({
+      ...DEFAULT_TRANSLATION_SETTINGS,
+      ...overrides
+    });
+
+    it('translates subtitles in a configured source language into the configured target', async () => {
+      const module = await loadBackgroundModule();
+      const pipeline = vi.fn().mockResolvedValue({ status: 'error', message: 'nope' });
+
+      await module.handleSubtitleRequest(germanUrl, {
+        loadSettingsFn: buildSettings({ sourceLanguages: ['fr', 'de'], targetLanguage: 'pl' }),
+        pipeline
+      });
+
+      expect(pipeline).toHaveBeenCalledWith(
+        { url: germanUrl, sourceLanguage: 'de', targetLanguage: 'pl' },
+        expect.objectContaining({ onProgress: expect.any(Function) })
+      );
+    });
+
+    it('passes the programme title of the tab on to the pipeline', async () => {
+      const module = await loadBackgroundModule();
+      const pipeline = vi.fn().mockResolvedValue({ status: 'error', message: 'nope' });
+
+      await module.handleSubtitleRequest(frenchUrl, {
+        loadSettingsFn: buildSettings(),
+        pipeline,
+        getProgramme: async () => ({ title: 'Les Papillons noirs' })
+      });
+      await module.handleSubtitleRequest(germanUrl, {
+        loadSettingsFn: buildSettings({ sourceLanguages: ['de'] }),
+        pipeline,
+        getProgramme: async () => {
+          throw new Error('No tab');
+        }
+      });
+
+      expect(pipeline).toHaveBeenNthCalledWith(
+        1,
+        { url: frenchUrl, sourceLanguage: 'fr', targetLanguage: 'en', showTitle: 'Les Papillons noirs' },
+        expect.anything()
+      );
+      expect(pipeline).toHaveBeenNthCalledWith(
+        2,
+        { url: germanUrl, sourceLanguage: 'de', targetLanguage: 'en' },
+        expect.anything()
+      );
+    });
+
+    it('applies the translation profile matching the programme of the tab', async () => {
+      const module = await loadBackgroundModule();
+      const pipeline = vi.fn().mockResolvedValue({ status: 'error', message: 'nope' });
+
+      await module.handleSubtitleRequest(frenchUrl, {
+        loadSettingsFn: buildSettings({
+          translationProfiles: [
+            { name: 'Fiction', match: ['Papillons'], settings: { targetLanguage: 'de' } },
+            { name: 'This series', match: ['117798'], settings: { targetLanguage: 'pl' } }
+          ]
+        }),
+        pipeline,
+        getProgramme: async () => ({ collectionId: 'RC-021423', title: 'Les Papillons noirs' })
+      });
+
+      expect(pipeline).toHaveBeenCalledWith(
+        {
+          url: frenchUrl,
+          sourceLanguage: 'fr',
+          targetLanguage: 'pl',
+          showTitle: 'Les Papillons noirs',
+          collectionId: 'RC-021423'
+        },
+        expect.anything()
+      );
+    });
+
+    it('ignores subtitles outside the configured source languages', async () => {
+      const module = await loadBackgroundModule();
+      const pipeline = vi.fn();
+
+      await module.handleSubtitleRequest(germanUrl, { loadSettingsFn: buildSettings(), pipeline });
+      await module.handleSubtitleRequest(frenchUrl, {
+        loadSettingsFn: buildSettings({ targetLanguage: 'fr' }),
+        pipeline
+      });
+
+      expect(pipeline).not.toHaveBeenCalled();
+    });
+
+    it('streams translation progress to Arte tabs', async () => {
+      const module = await loadBackgroundModule();
+      vi.mocked(chrome.tabs.query).mockResolvedValue([{ id: 7 } as chrome.tabs.Tab]);
+      const pipeline = vi.fn(async (_request, deps) => {
+        deps?.onProgress?.({ mapping: { Bonjour: 'Hello' }, translatedCount: 1, totalCount: 3 });
+        return { status: 'error', message: 'stop' } as TranslationResponse;
+      });
+
+      await module.handleSubtitleRequest(frenchUrl, { loadSettingsFn: buildSettings(), pipeline });
+
+      await vi.waitFor(() => {
+        expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(7, {
+          type: 'VTT_TRANSLATION_PROGRESS',
+          url: frenchUrl,
+          mapping: { Bonjour: 'Hello' },
+          translatedCount: 1,
+          totalCount: 3
+        });
+      });
+    });
+
+    it('reuses an in-flight translation for the same subtitle file', async () => {
+      const module = await loadBackgroundModule();
+      const pipeline = vi.fn().mockResolvedValue({ status: 'translated', translatedVtt: 'WEBVTT', mapping: {} });
+
+      await module.handleSubtitleRequest(frenchUrl, { loadSettingsFn: buildSettings(), pipeline });
+      await module.handleSubtitleRequest(`${frenchUrl}&retry=1`, { loadSettingsFn: buildSettings(), pipeline });
+
+      expect(pipeline).toHaveBeenCalledTimes(1);
+    });
+    it('broadcasts partial results and retries the failed cues later', async () => {
+      const module = await loadBackgroundModule();
+      vi.mocked(chrome.tabs.query).mockResolvedValue([{ id: 7 } as chrome.tabs.Tab]);
+      const scheduledRetries: Array<{ callback: () => void; delayMs: number }> = [];
+      const scheduleRetryFn = (callback: () => void, delayMs: number) => {
+        scheduledRetries.push({ callback, delayMs });
+      };
+      const pipeline = vi
+        .fn()
+        .mockResolvedValueOnce({
+          status: 'partial',
+          translatedVtt: 'WEBVTT partial',
+          mapping: { Bonjour: 'Hello' },
+          failedCueIndexes: [1],
+          message: '1 of 2 cues could not be translated.'
+        })
+        .mockResolvedValueOnce({ status: 'translated', translatedVtt: 'WEBVTT full', mapping: { Salut: 'Hi' } });
+
+      await module.handleSubtitleRequest(frenchUrl, { loadSettingsFn: buildSettings(), pipeline, scheduleRetryFn });
+
+      await vi.waitFor(() => expect(scheduledRetries).toHaveLength(1));
+      expect(scheduledRetries[0].delayMs).toBe(60_000);
+      expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(7, expect.objectContaining({ translatedVtt: 'WEBVTT partial' }));
+
+      scheduledRetries[0].callback();
+
+      await vi.waitFor(() => {
+        expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(7, expect.objectContaining({ translatedVtt: 'WEBVTT full' }));
+      });
+      expect(pipeline).toHaveBeenCalledTimes(2);
+      expect(scheduledRetries).toHaveLength(1);
+    });
+
+    it('stops retrying failed cues after the last scheduled attempt', async () => {
+      const module = await loadBackgroundModule();
+      const scheduledDelays: number[] = [];
+      const scheduleRetryFn = (callback: () => void, delayMs: number) => {
+        scheduledDelays.push(delayMs);
+        callback();
+      };
+      const pipeline = vi.fn().mockResolvedValue({
+        status: 'partial',
+        translatedVtt: 'WEBVTT',
+        mapping: {},
+        failedCueIndexes: [0],
+        message: '1 of 1 cues could not be translated.'
+      });
+
+      await module.handleSubtitleRequest(frenchUrl, { loadSettingsFn: buildSettings(), pipeline, scheduleRetryFn });
+
+      await vi.waitFor(() => expect(pipeline).toHaveBeenCalledTimes(4));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(scheduledDelays).toEqual([60_000, 300_000, 900_000]);
+
+      await module.handleSubtitleRequest(frenchUrl, { loadSettingsFn: buildSettings(), pipeline, scheduleRetryFn: vi.fn() });
+      expect(pipeline).toHaveBeenCalledTimes(5);
+    });
+
+    it('does not retry cues that failed because the spending budget ran out', async () => {
+      const module = await loadBackgroundModule();
+      vi.mocked(chrome.tabs.query).mockResolvedValue([{ id: 7 } as chrome.tabs.Tab]);
+      const scheduleRetryFn = vi.fn();
+      const pipeline = vi.fn().mockResolvedValue({
+        status: 'partial',
+        translatedVtt: 'WEBVTT partial',
+        mapping: { Bonjour: 'Hello' },
+        failedCueIndexes: [1],
+        message: '1 of 2 cues could not be translated. The daily translation budget of $1.00 is used up ($1.02 spent).',
+        budgetExceeded: true
+      });
+
+      await module.handleSubtitleRequest(frenchUrl, { loadSettingsFn: buildSettings(), pipeline, scheduleRetryFn });
+
+      await vi.waitFor(() => {
+        expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(7, expect.objectContaining({ translatedVtt: 'WEBVTT partial' }));
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(scheduleRetryFn).not.toHaveBeenCalled();
+
+      await module.handleSubtitleRequest(frenchUrl, { loadSettingsFn: buildSettings(), pipeline, scheduleRetryFn });
+      expect(pipeline).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('createPlaybackPositionHandler', () => {
+    it('records the playhead reported by each tab', async () => {
+      const module = await loadBackgroundModule();
+      const positions = new Map<number, number>();
+      const handler = module.createPlaybackPositionHandler(positions);
+
+      expect(handler({ type: 'PLAYBACK_POSITION', currentTime: 42 }, { tab: { id: 3 } } as chrome.runtime.MessageSender)).toBe(
+        false
+      );
+      handler({ type: 'PLAYBACK_POSITION', currentTime: Number.NaN }, { tab: { id: 3 } } as chrome.runtime.MessageSender);
+      handler({ type: 'PLAYBACK_POSITION', currentTime: 7 }, {} as chrome.runtime.MessageSender);
+
+      expect(positions).toEqual(new Map([[3, 42]]));
+      expect(handler({ type: 'OTHER' }, {} as chrome.runtime.MessageSender)).toBeUndefined();
+    });
+  });
+
   describe('createTranslateMessageHandler', () => {
     const buildRequest = (): TranslationPipelineRequest => ({
       url: 'https://example.com/subs.vtt',
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { computeBatchTiming, pickNextBatch, type CueTiming } from '../src/shared/batch-scheduler';
+
+const timings: Array<CueTiming | null> = [
+  { start: 0, end: 60 },
+  { start: 60, end: 120 },
+  { start: 120, end: 180 },
+  { start: 180, end: 240 },
+  null
+];
+
+describe('batch scheduler', () => {
+  it('spans the timed cues of a batch', () => {
+    expect(computeBatchTiming([{ start: 5, end: 6 }, null, { start: 1, end: 2 }])).toEqual({ start: 1, end: 6 });
+    expect(computeBatchTiming([null, undefined])).toBeNull();
+  });
+
+  it('keeps cue order when the playhead is unknown', () => {
+    expect(pickNextBatch([3, 1, 2], timings)).toBe(1);
+    expect(pickNextBatch([3, 1, 2], timings, Number.NaN)).toBe(1);
+  });
+
+  it('starts with the batch containing the playhead and then the ones just ahead', () => {
+    expect(pickNextBatch([0, 1, 2, 3], timings, 130)).toBe(2);
+    expect(pickNextBatch([0, 1, 3], timings, 130)).toBe(3);
+  });
+
+  it('leaves batches behind the playhead and untimed batches for last', () => {
+    expect(pickNextBatch([0, 1, 4], timings, 130)).toBe(1);
+    expect(pickNextBatch([0, 4], timings, 130)).toBe(0);
+    expect(pickNextBatch([4], timings, 130)).toBe(4);
+  });
+
+  it('breaks ties by cue order', () => {
+    expect(pickNextBatch([4, 3], [null, null, null, null, null], 10)).toBe(3);
+  });
+});
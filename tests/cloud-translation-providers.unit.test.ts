@@ -0,0 +1,158 @@
+import { describe, expect, it, vi } from 'vitest';
+import { azureProvider } from '../src/shared/providers/azure';
+import { googleV3Provider } from '../src/shared/providers/google';
+import { translateTexts } from '../src/shared/translation-adapter';
+import { DEFAULT_TRANSLATION_SETTINGS, type TranslationSettings } from '../src/shared/translation-settings';
+
+vi.mock('../src/shared/browser', () => ({
+  extensionBrowser: { runtime: { lastError: undefined }, storage: {} }
+}));
+
+const buildSettings = (overrides: Partial<TranslationSettings>): TranslationSettings => ({
+  ...DEFAULT_TRANSLATION_SETTINGS,
+  apiBaseUrl: '',
+  apiKey: 'secret',
+  ...overrides
+});
+
+const jsonResponse = (body: unknown) =>
+  new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+
+const readCall = (fetchFn: ReturnType<typeof vi.fn>, index = 0) => {
+  const [url, init] = fetchFn.mock.calls[index] as [string, RequestInit];
+  return { url, headers: init.headers as Record<string, string>, body: JSON.parse(String(init.body)) };
+};
+
+const rateLimiter = { reserve: () => 0, pause: () => undefined };
+const noSleep = async () => undefined;
+
+describe('Google Cloud Translation providers', () => {
+  it('sends v2 batches with the API key in the query string', async () => {
+    const fetchFn = vi.fn(async () =>
+      jsonResponse({ data: { translations: [{ translatedText: 'Hello' }, { translatedText: 'Hi' }] } })
+    );
+
+    const result = await translateTexts(
+      { texts: ['Bonjour', 'Salut'], sourceLanguage: 'fr', targetLanguage: 'en' },
+      { fetchFn, loadSettingsFn: async () => buildSettings({ provider: 'google' }), rateLimiter, sleepFn: noSleep }
+    );
+
+    expect(result).toEqual(['Hello', 'Hi']);
+    const call = readCall(fetchFn);
+    expect(call.url).toBe('https://translation.googleapis.com/language/translate/v2?key=secret');
+    expect(call.body).toEqual({ q: ['Bonjour', 'Salut'], source: 'fr', target: 'en', format: 'text' });
+    expect(call.headers.Authorization).toBeUndefined();
+  });
+
+  it('cuts batches at the character limit', async () => {
+    const fetchFn = vi.fn(async (_url: string, init?: RequestInit) => {
+      const { q } = JSON.parse(String(init?.body)) as { q: string[] };
+      return jsonResponse({ data: { translations: q.map((text) => ({ translatedText: text.toUpperCase() })) } });
+    });
+    const longCue = 'a'.repeat(3000);
+
+    await translateTexts(
+      { texts: [longCue, longCue, 'court'], sourceLanguage: 'fr', targetLanguage: 'en' },
+      {
+        fetchFn,
+        loadSettingsFn: async () => buildSettings({ provider: 'google', maxConcurrentRequests: 1 }),
+        rateLimiter,
+        sleepFn: noSleep
+      }
+    );
+
+    expect(fetchFn.mock.calls.map((_call, index) => readCall(fetchFn, index).body.q.length)).toEqual([1, 2]);
+  });
+
+  it('scopes v3 requests to the configured project and location', () => {
+    const request = googleV3Provider.buildRequest(
+      { segments: ['Bonjour'], contextBefore: [], contextAfter: [], sourceLanguage: 'fr', targetLanguage: 'en' },
+      {
+        baseUrl: 'https://translation.googleapis.com/v3',
+        model: 'general/nmt',
+        settings: buildSettings({ googleProjectId: 'arte-subs', googleLocation: 'europe-west1' })
+      }
+    );
+
+    expect(request.url).toBe(
+      'https://translation.googleapis.com/v3/projects/arte-subs/locations/europe-west1:translateText'
+    );
+    expect(JSON.parse(request.body)).toEqual({
+      contents: ['Bonjour'],
+      sourceLanguageCode: 'fr',
+      targetLanguageCode: 'en',
+      mimeType: 'text/plain',
+      model: 'projects/arte-subs/locations/europe-west1/models/general/nmt'
+    });
+    expect(googleV3Provider.parseResponse({ translations: [{ translatedText: 'Hello' }] }, 1)).toEqual(['Hello']);
+  });
+
+  it('requires a project ID for v3', async () => {
+    const fetchFn = vi.fn();
+
+    await expect(
+      translateTexts(
+        { texts: ['Bonjour'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn, loadSettingsFn: async () => buildSettings({ provider: 'google-v3' }), rateLimiter, sleepFn: noSleep }
+      )
+    ).rejects.toThrow(/project ID is required/);
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+});
+
+describe('Azure Translator provider', () => {
+  it('sends text objects with the subscription key and region headers', async () => {
+    const fetchFn = vi.fn(async () =>
+      jsonResponse([{ translations: [{ text: 'Hello', to: 'en' }] }, { translations: [{ text: 'Hi', to: 'en' }] }])
+    );
+
+    const result = await translateTexts(
+      { texts: ['Bonjour', 'Salut'], sourceLanguage: 'fr', targetLanguage: 'en' },
+      {
+        fetchFn,
+        loadSettingsFn: async () => buildSettings({ provider: 'azure', azureRegion: 'westeurope' }),
+        rateLimiter,
+        sleepFn: noSleep
+      }
+    );
+
+    expect(result).toEqual(['Hello', 'Hi']);
+    const call = readCall(fetchFn);
+    expect(call.url).toBe('https://api.cognitive.microsofttranslator.com/translate?api-version=3.0&from=fr&to=en');
+    expect(call.headers).toMatchObject({
+      'Ocp-Apim-Subscription-Key': 'secret',
+      'Ocp-Apim-Subscription-Region': 'westeurope'
+    });
+    expect(call.body).toEqual([{ Text: 'Bonjour' }, { Text: 'Salut' }]);
+  });
+
+  it('marks glossary terms with a dynamic dictionary', () => {
+    const request = azureProvider.buildRequest(
+      {
+        segments: ['Marc et Marcel vont à la mairie.'],
+        contextBefore: [],
+        contextAfter: [],
+        sourceLanguage: 'fr',
+        targetLanguage: 'en',
+        glossary: [
+          { source: 'Marc', target: 'Mark' },
+          { source: 'mairie', target: 'town "hall"' }
+        ]
+      },
+      { baseUrl: 'https://api.cognitive.microsofttranslator.com', model: 'general', settings: buildSettings({}) }
+    );
+
+    expect(JSON.parse(request.body)).toEqual([
+      {
+        Text:
+          '<mstrans:dictionary translation="Mark">Marc</mstrans:dictionary> et Marcel vont à la ' +
+          '<mstrans:dictionary translation="town hall">mairie</mstrans:dictionary>.'
+      }
+    ]);
+  });
+
+  it('explains exhausted quotas and flags unexpected payloads as malformed', () => {
+    expect(azureProvider.describeHttpError?.(403)).toEqual(expect.objectContaining({ kind: 'quota' }));
+    expect(() => azureProvider.parseResponse({ error: 'nope' }, 1)).toThrow(expect.objectContaining({ kind: 'malformed' }));
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+type MessageListener = (message: unknown) => void;
+
+describe('content script translation mapping', () => {
+  let dispatchMessage: MessageListener;
+  let sendMessage: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    vi.resetModules();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    document.body.innerHTML = '<div class="subtitle"><span>Bonjour tout le monde</span></div><p>Salut</p>';
+    sendMessage = vi.fn((_message: unknown, callback: () => void) => callback());
+    (globalThis as typeof globalThis & { chrome?: typeof chrome }).chrome = {
+      runtime: {
+        sendMessage,
+        onMessage: {
+          addListener: (listener: MessageListener) => {
+            dispatchMessage = listener;
+          }
+        }
+      }
+    } as unknown as typeof chrome;
+    await import('../src/content/index');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  it('applies partial mappings as progress messages arrive', () => {
+    dispatchMessage({
+      type: 'VTT_TRANSLATION_PROGRESS',
+      url: 'https://example.com/subs.vtt',
+      mapping: { 'Bonjour tout le monde': 'Hello <i>everyone</i>' },
+      translatedCount: 1,
+      totalCount: 2
+    });
+
+    expect(document.querySelector('span')?.innerHTML).toBe('Hello <i>everyone</i>');
+    expect(document.querySelector('p')?.textContent).toBe('Salut');
+
+    dispatchMessage({
+      type: 'VTT_TRANSLATION_PROGRESS',
+      url: 'https://example.com/subs.vtt',
+      mapping: { Salut: 'Hi' },
+      translatedCount: 2,
+      totalCount: 2
+    });
+
+    expect(document.querySelector('p')?.textContent).toBe('Hi');
+  });
+
+  it('merges the final mapping from the completed translation', () => {
+    dispatchMessage({
+      type: 'VTT_TRANSLATED',
+      url: 'https://example.com/subs.vtt',
+      translatedVtt: 'WEBVTT',
+      mapping: { 'Bonjour  tout le monde ': 'Hello everyone' }
+    });
+
+    expect(document.querySelector('span')?.textContent).toBe('Hello everyone');
+  });
+
+  it('reports the playhead, throttling playback updates but not seeks', () => {
+    const video = document.createElement('video');
+    document.body.append(video);
+    const setTime = (time: number) => Object.defineProperty(video, 'currentTime', { value: time, configurable: true });
+
+    setTime(1);
+    video.dispatchEvent(new Event('timeupdate'));
+    setTime(3);
+    video.dispatchEvent(new Event('timeupdate'));
+    setTime(7);
+    video.dispatchEvent(new Event('timeupdate'));
+    setTime(3600);
+    video.dispatchEvent(new Event('seeked'));
+    document.body.dispatchEvent(new Event('seeked'));
+
+    expect(sendMessage.mock.calls.map(([message]) => message)).toEqual([
+      { type: 'PLAYBACK_POSITION', currentTime: 1 },
+      { type: 'PLAYBACK_POSITION', currentTime: 7 },
+      { type: 'PLAYBACK_POSITION', currentTime: 3600 }
+    ]);
+  });
+});
@@ -0,0 +1,382 @@
+// @vitest-environment node
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, onTestFinished, vi } from 'vitest';
+import { deeplProvider } from '../src/shared/providers/deepl';
+import { PROVIDER_GLOSSARIES_STORAGE_KEY, translateTexts } from '../src/shared/translation-adapter';
+import type { StorageAreaLike } from '../src/shared/storage';
+import { DEFAULT_TRANSLATION_SETTINGS, type TranslationSettings } from '../src/shared/translation-settings';
+
+vi.mock('../src/shared/browser', () => ({
+  extensionBrowser: { runtime: { lastError: undefined }, storage: {} }
+}));
+
+type RecordedRequest = {
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown>;
+};
+
+// Minimal stand-in for DeepL's /v2/translate and /v2/glossaries endpoints
+let server: Server;
+let baseUrl: string;
+let nextStatus = 200;
+let glossaryStatus = 200;
+let omitGlossaryId = false;
+let deletionStatus = 204;
+const requests: RecordedRequest[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      const body = (raw ? JSON.parse(raw) : {}) as { text: string[] };
+      requests.push({ method: req.method ?? '', url: req.url ?? '', headers: req.headers, body });
+      if (req.method === 'DELETE') {
+        res.statusCode = deletionStatus;
+        res.end();
+        return;
+      }
+      res.setHeader('Content-Type', 'application/json');
+      if (req.url?.endsWith('/glossaries')) {
+        res.statusCode = glossaryStatus;
+        res.end(JSON.stringify(omitGlossaryId ? {} : { glossary_id: `created-${requests.length}` }));
+        return;
+      }
+      res.statusCode = nextStatus;
+      res.end(
+        nextStatus === 200
+          ? JSON.stringify({ translations: body.text.map((text) => ({ detected_source_language: 'FR', text: `EN ${text}` })) })
+          : JSON.stringify({ message: 'error' })
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v2`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  nextStatus = 200;
+  glossaryStatus = 200;
+  omitGlossaryId = false;
+  deletionStatus = 204;
+});
+
+const deeplSettings = (overrides: Partial<TranslationSettings> = {}): TranslationSettings => ({
+  ...DEFAULT_TRANSLATION_SETTINGS,
+  provider: 'deepl',
+  apiBaseUrl: baseUrl,
+  apiKey: 'secret:fx',
+  ...overrides
+});
+
+const rateLimiter = { reserve: () => 0, pause: () => undefined };
+const noSleep = async () => undefined;
+
+const createMemoryStorageArea = (): StorageAreaLike & { data: Record<string, unknown> } => {
+  const data: Record<string, unknown> = {};
+  return {
+    data,
+    get: ((defaults: Record<string, unknown>, callback: (items: Record<string, unknown>) => void) => {
+      const items: Record<string, unknown> = {};
+      Object.entries(defaults).forEach(([key, fallback]) => {
+        items[key] = key in data ? structuredClone(data[key]) : fallback;
+      });
+      callback(items);
+    }) as unknown as StorageAreaLike['get'],
+    set: ((items: Record<string, unknown>, callback?: () => void) => {
+      Object.assign(data, structuredClone(items));
+      callback?.();
+    }) as unknown as StorageAreaLike['set']
+  };
+};
+
+// A fresh module stands in for a restarted service worker, which forgets everything kept in memory
+const loadRestartedAdapter = async () => {
+  vi.resetModules();
+  return import('../src/shared/translation-adapter');
+};
+
+describe('DeepL provider', () => {
+  it('translates batches through the native translate endpoint', async () => {
+    const result = await translateTexts(
+      { texts: ['Bonjour', 'Salut'], sourceLanguage: 'fr', targetLanguage: 'en' },
+      {
+        loadSettingsFn: async () => deeplSettings({ deeplFormality: 'prefer_more', deeplGlossaryId: ' glossary-1 ' }),
+        rateLimiter,
+        sleepFn: noSleep
+      }
+    );
+
+    expect(result).toEqual(['EN Bonjour', 'EN Salut']);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/v2/translate');
+    expect(requests[0].headers.authorization).toBe('DeepL-Auth-Key secret:fx');
+    expect(requests[0].body).toEqual({
+      text: ['Bonjour', 'Salut'],
+      source_lang: 'FR',
+      target_lang: 'EN-GB',
+      formality: 'prefer_more',
+      glossary_id: 'glossary-1'
+    });
+  });
+
+  it('sends neighbouring cues as untranslated context', async () => {
+    await translateTexts(
+      { texts: ['Il était', 'une fois'], sourceLanguage: 'fr', targetLanguage: 'de' },
+      { loadSettingsFn: async () => deeplSettings(), maxBatchSize: 1, rateLimiter, sleepFn: noSleep }
+    );
+
+    expect(requests.map((request) => request.body)).toEqual(
+      expect.arrayContaining([
+        { text: ['Il était'], source_lang: 'FR', target_lang: 'DE', context: 'une fois' },
+        { text: ['une fois'], source_lang: 'FR', target_lang: 'DE', context: 'Il était' }
+      ])
+    );
+  });
+
+  it('creates a glossary from the glossary terms once and references it in every batch', async () => {
+    const glossary = [
+      { source: 'Arte', target: 'Arte' },
+      { source: 'mairie', target: 'town hall' }
+    ];
+
+    const result = await translateTexts(
+      { texts: ['La mairie', 'Arte'], sourceLanguage: 'fr', targetLanguage: 'en', glossary },
+      {
+        loadSettingsFn: async () => deeplSettings({ maxConcurrentRequests: 1 }),
+        maxBatchSize: 1,
+        rateLimiter,
+        sleepFn: noSleep
+      }
+    );
+
+    expect(result).toEqual(['EN La mairie', 'EN Arte']);
+    expect(requests.map((request) => request.url)).toEqual(['/v2/glossaries', '/v2/translate', '/v2/translate']);
+    expect(requests[0].body).toEqual({
+      name: 'Arte Subtitle Translator',
+      source_lang: 'fr',
+      target_lang: 'en',
+      entries: 'Arte\tArte\nmairie\ttown hall',
+      entries_format: 'tsv'
+    });
+    expect(requests.slice(1).map((request) => request.body.glossary_id)).toEqual(['created-1', 'created-1']);
+  });
+
+  it('reuses the glossary saved by an earlier worker while its terms are unchanged', async () => {
+    const glossaryStorage = createMemoryStorageArea();
+    const request = {
+      texts: ['La mairie'],
+      sourceLanguage: 'fr',
+      targetLanguage: 'en',
+      glossary: [{ source: 'mairie', target: 'town hall' }]
+    };
+    const deps = { loadSettingsFn: async () => deeplSettings(), glossaryStorage, rateLimiter, sleepFn: noSleep };
+
+    await (await loadRestartedAdapter()).translateTexts(request, deps);
+    await (await loadRestartedAdapter()).translateTexts(request, deps);
+
+    expect(requests.map((recorded) => recorded.url)).toEqual(['/v2/glossaries', '/v2/translate', '/v2/translate']);
+    expect(requests.slice(1).map((recorded) => recorded.body.glossary_id)).toEqual(['created-1', 'created-1']);
+    expect(Object.values(glossaryStorage.data[PROVIDER_GLOSSARIES_STORAGE_KEY] as object)).toEqual([
+      { termsHash: expect.stringMatching(/^[0-9a-f]{64}$/), glossaryId: 'created-1' }
+    ]);
+  });
+
+  it('saves glossaries in the extension local storage by default', async () => {
+    const { translateTexts: restartedTranslateTexts } = await loadRestartedAdapter();
+    const { extensionBrowser } = await import('../src/shared/browser');
+    const local = createMemoryStorageArea();
+    Object.assign(extensionBrowser.storage, { local });
+    onTestFinished(() => {
+      delete (extensionBrowser.storage as { local?: StorageAreaLike }).local;
+    });
+
+    await restartedTranslateTexts(
+      { texts: ['La mairie'], sourceLanguage: 'fr', targetLanguage: 'en', glossary: [{ source: 'mairie', target: 'town hall' }] },
+      { loadSettingsFn: async () => deeplSettings(), rateLimiter, sleepFn: noSleep }
+    );
+
+    expect(Object.values(local.data[PROVIDER_GLOSSARIES_STORAGE_KEY] as object)).toEqual([
+      { termsHash: expect.any(String), glossaryId: 'created-1' }
+    ]);
+  });
+
+  it('replaces and deletes the saved glossary when its terms change', async () => {
+    const glossaryStorage = createMemoryStorageArea();
+    const deps = { loadSettingsFn: async () => deeplSettings(), glossaryStorage, rateLimiter, sleepFn: noSleep };
+    const translateWith = async (target: string) =>
+      (await loadRestartedAdapter()).translateTexts(
+        { texts: ['La mairie'], sourceLanguage: 'fr', targetLanguage: 'en', glossary: [{ source: 'mairie', target }] },
+        deps
+      );
+
+    await translateWith('town hall');
+    await translateWith('city hall');
+    await translateWith('city hall');
+
+    expect(requests.map((recorded) => `${recorded.method} ${recorded.url}`)).toEqual([
+      'POST /v2/glossaries',
+      'POST /v2/translate',
+      'POST /v2/glossaries',
+      'DELETE /v2/glossaries/created-1',
+      'POST /v2/translate',
+      'POST /v2/translate'
+    ]);
+    expect(requests.filter((recorded) => recorded.url === '/v2/translate').map((recorded) => recorded.body.glossary_id)).toEqual([
+      'created-1',
+      'created-3',
+      'created-3'
+    ]);
+    expect(Object.values(glossaryStorage.data[PROVIDER_GLOSSARIES_STORAGE_KEY] as object)).toEqual([
+      { termsHash: expect.any(String), glossaryId: 'created-3' }
+    ]);
+  });
+
+  it.each([404, 500])('keeps the new glossary when deleting the replaced one answers %i', async (status) => {
+    deletionStatus = status;
+    const glossaryStorage = createMemoryStorageArea();
+    const deps = { loadSettingsFn: async () => deeplSettings(), glossaryStorage, rateLimiter, sleepFn: noSleep };
+    const translateWith = async (target: string) =>
+      (await loadRestartedAdapter()).translateTexts(
+        { texts: ['La mairie'], sourceLanguage: 'fr', targetLanguage: 'en', glossary: [{ source: 'mairie', target }] },
+        deps
+      );
+
+    await translateWith('town hall');
+    await expect(translateWith('city hall')).resolves.toEqual(['EN La mairie']);
+
+    expect(requests.at(-1)?.body.glossary_id).toBe('created-3');
+  });
+
+  it('creates glossaries without remembering them when storage fails', async () => {
+    const glossaryStorage = {
+      get: () => {
+        throw new Error('storage unavailable');
+      },
+      set: () => {
+        throw new Error('storage unavailable');
+      }
+    } as unknown as StorageAreaLike;
+    const { translateTexts: restartedTranslateTexts } = await loadRestartedAdapter();
+
+    const result = await restartedTranslateTexts(
+      { texts: ['La mairie'], sourceLanguage: 'fr', targetLanguage: 'en', glossary: [{ source: 'mairie', target: 'town hall' }] },
+      { loadSettingsFn: async () => deeplSettings(), glossaryStorage, rateLimiter, sleepFn: noSleep }
+    );
+
+    expect(result).toEqual(['EN La mairie']);
+    expect(requests.at(-1)?.body.glossary_id).toBe('created-1');
+  });
+
+  it('translates without the glossary when the provider refuses to create it', async () => {
+    glossaryStatus = 403;
+    const { translateTexts: restartedTranslateTexts } = await loadRestartedAdapter();
+    const request = {
+      texts: ['La mairie', 'Arte'],
+      sourceLanguage: 'fr',
+      targetLanguage: 'en',
+      glossary: [{ source: 'mairie', target: 'town hall' }]
+    };
+
+    const result = await restartedTranslateTexts(request, {
+      loadSettingsFn: async () => deeplSettings({ maxConcurrentRequests: 1 }),
+      maxBatchSize: 1,
+      rateLimiter,
+      sleepFn: noSleep
+    });
+
+    expect(result).toEqual(['EN La mairie', 'EN Arte']);
+    expect(requests.map((recorded) => recorded.url)).toEqual(['/v2/glossaries', '/v2/translate', '/v2/translate']);
+    expect(requests.slice(1).map((recorded) => recorded.body.glossary_id)).toEqual([undefined, undefined]);
+  });
+
+  it('translates without the glossary when its creation reply carries no id', async () => {
+    omitGlossaryId = true;
+    const { translateTexts: restartedTranslateTexts } = await loadRestartedAdapter();
+
+    const result = await restartedTranslateTexts(
+      { texts: ['La mairie'], sourceLanguage: 'fr', targetLanguage: 'en', glossary: [{ source: 'mairie', target: 'town hall' }] },
+      { loadSettingsFn: async () => deeplSettings(), rateLimiter, sleepFn: noSleep }
+    );
+
+    expect(result).toEqual(['EN La mairie']);
+    expect(requests.map((recorded) => recorded.url)).toEqual(['/v2/glossaries', '/v2/translate']);
+    expect(requests[1].body.glossary_id).toBeUndefined();
+  });
+
+  it('tries to create the glossary again after a transient failure', async () => {
+    glossaryStatus = 503;
+    const { translateTexts: restartedTranslateTexts } = await loadRestartedAdapter();
+    const request = {
+      texts: ['La mairie'],
+      sourceLanguage: 'fr',
+      targetLanguage: 'en',
+      glossary: [{ source: 'mairie', target: 'town hall' }]
+    };
+    const deps = { loadSettingsFn: async () => deeplSettings(), rateLimiter, sleepFn: noSleep };
+
+    await restartedTranslateTexts(request, deps);
+    glossaryStatus = 200;
+    await restartedTranslateTexts(request, deps);
+
+    expect(requests.map((recorded) => recorded.url)).toEqual([
+      '/v2/glossaries',
+      '/v2/translate',
+      '/v2/glossaries',
+      '/v2/translate'
+    ]);
+    expect(requests.map((recorded) => recorded.body.glossary_id)).toEqual([undefined, undefined, undefined, 'created-3']);
+  });
+
+  it('prefers a glossary configured by id over the glossary terms', () => {
+    const request = deeplProvider.buildRequest(
+      {
+        segments: ['Bonjour'],
+        contextBefore: [],
+        contextAfter: [],
+        sourceLanguage: 'fr',
+        targetLanguage: 'en',
+        glossaryId: 'created-1'
+      },
+      { baseUrl, model: 'deepl', settings: deeplSettings({ deeplGlossaryId: 'configured' }) }
+    );
+
+    expect(JSON.parse(request.body).glossary_id).toBe('configured');
+  });
+
+  it.each([
+    [403, /DeepL rejected the API key/],
+    [456, /DeepL character quota/]
+  ])('explains HTTP %i without retrying', async (status, message) => {
+    nextStatus = status;
+
+    await expect(
+      translateTexts(
+        { texts: ['Bonjour'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        { loadSettingsFn: async () => deeplSettings(), rateLimiter, sleepFn: noSleep }
+      )
+    ).rejects.toThrow(message);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('picks the Free or Pro host from the key when no base URL is set', () => {
+    expect(deeplProvider.resolveDefaultBaseUrl?.('abc:fx')).toBe('https://api-free.deepl.com/v2');
+    expect(deeplProvider.resolveDefaultBaseUrl?.('abc')).toBe('https://api.deepl.com/v2');
+  });
+
+  it('treats a translation count mismatch as malformed output', () => {
+    expect(() => deeplProvider.parseResponse({ translations: [{ text: 'Hello' }] }, 2)).toThrow(
+      expect.objectContaining({ kind: 'malformed' })
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findGlossaryTerms,
+  findGlossaryViolations,
+  formatGlossaryText,
+  parseGlossaryText,
+  resolveGlossary
+} from '../src/shared/glossary';
+
+describe('glossary text format', () => {
+  it('reads global and series terms, including terms kept as is', () => {
+    const text = ['# Names', 'Arte', 'mairie = town hall', '', '[Les Papillons noirs]', 'Albert = Albert', 'flic=cop'].join(
+      '\n'
+    );
+
+    const { glossaries, errors } = parseGlossaryText(text);
+
+    expect(errors).toEqual([]);
+    expect(glossaries).toEqual([
+      {
+        series: '',
+        entries: [
+          { source: 'Arte', target: 'Arte' },
+          { source: 'mairie', target: 'town hall' }
+        ]
+      },
+      {
+        series: 'Les Papillons noirs',
+        entries: [
+          { source: 'Albert', target: 'Albert' },
+          { source: 'flic', target: 'cop' }
+        ]
+      }
+    ]);
+    expect(formatGlossaryText(glossaries)).toBe(
+      'Arte\nmairie = town hall\n\n[Les Papillons noirs]\nAlbert\nflic = cop'
+    );
+  });
+
+  it('reports lines without a term or translation', () => {
+    expect(parseGlossaryText('mairie =\n[ ]').errors).toEqual([
+      'Line 1: expected "term = translation" or a single term',
+      'Line 2: the series title is empty'
+    ]);
+  });
+});
+
+describe('glossary matching', () => {
+  const glossaries = [
+    { series: '', entries: [{ source: 'flic', target: 'cop' }, { source: 'Arte', target: 'Arte' }] },
+    { series: 'papillons noirs', entries: [{ source: 'Flic', target: 'copper' }] },
+    { series: 'Baron noir', entries: [{ source: 'Rickwaert', target: 'Rickwaert' }] }
+  ];
+
+  it('adds the terms of matching series over the global ones', () => {
+    expect(resolveGlossary(glossaries, 'Les Papillons noirs - Épisode 2')).toEqual([
+      { source: 'Flic', target: 'copper' },
+      { source: 'Arte', target: 'Arte' }
+    ]);
+    expect(resolveGlossary(glossaries)).toEqual(glossaries[0].entries);
+  });
+
+  it('matches whole words regardless of case', () => {
+    const entries = [{ source: 'Marc', target: 'Mark' }];
+
+    expect(findGlossaryTerms(['Marcel arrive.'], entries)).toEqual([]);
+    expect(findGlossaryTerms(['Où est MARC ?'], entries)).toEqual(entries);
+  });
+
+  it('flags terms whose expected translation is missing', () => {
+    const entries = [
+      { source: 'flic', target: 'cop' },
+      { source: 'mairie', target: 'town hall' }
+    ];
+
+    expect(findGlossaryViolations('Le flic est à la mairie.', 'The policeman is at the town hall.', entries)).toEqual([
+      entries[0]
+    ]);
+    expect(findGlossaryViolations('Bonjour.', 'Hello.', entries)).toEqual([]);
+  });
+});
@@ -0,0 +1,163 @@
+// @vitest-environment node
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { listProviderModels, translateTexts } from '../src/shared/translation-adapter';
+import { DEFAULT_TRANSLATION_SETTINGS, type TranslationSettings } from '../src/shared/translation-settings';
+
+vi.mock('../src/shared/browser', () => ({
+  extensionBrowser: { runtime: { lastError: undefined }, storage: {} }
+}));
+
+type RecordedRequest = { method: string; url: string; body: Record<string, unknown> | null };
+
+// One stand-in server answering both Ollama's and LibreTranslate's endpoints
+let server: Server;
+let baseUrl: string;
+const requests: RecordedRequest[] = [];
+
+const translateWithOllama = (body: Record<string, unknown>) => {
+  const messages = body.messages as Array<{ role: string; content: string }>;
+  const { segments } = JSON.parse(messages.find((message) => message.role === 'user')!.content) as {
+    segments: Array<{ id: number; text: string }>;
+  };
+  const translations = segments.map(({ id, text }) => ({ id, text: `LLM ${text}` }));
+  return { message: { role: 'assistant', content: JSON.stringify({ translations }) } };
+};
+
+const routes: Record<string, (body: Record<string, unknown>) => unknown> = {
+  'POST /api/chat': translateWithOllama,
+  'GET /api/tags': () => ({ models: [{ name: 'llama3.1:latest' }, { name: 'mistral-nemo:latest' }] }),
+  'POST /translate': (body) => ({ translatedText: (body.q as string[]).map((text) => `LT ${text}`) }),
+  'GET /languages': () => [
+    { code: 'en', name: 'English', targets: ['fr'] },
+    { code: 'fr', name: 'French', targets: ['en'] }
+  ]
+};
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      const body = raw ? (JSON.parse(raw) as Record<string, unknown>) : null;
+      requests.push({ method: req.method ?? '', url: req.url ?? '', body });
+      const route = routes[`${req.method} ${req.url}`];
+      res.statusCode = route ? 200 : 404;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(route ? route(body ?? {}) : { error: 'not found' }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests.length = 0;
+});
+
+const localSettings = (overrides: Partial<TranslationSettings>): TranslationSettings => ({
+  ...DEFAULT_TRANSLATION_SETTINGS,
+  apiBaseUrl: baseUrl,
+  apiKey: '',
+  ...overrides
+});
+
+const rateLimiter = { reserve: () => 0, pause: () => undefined };
+const noSleep = async () => undefined;
+
+describe('Ollama provider', () => {
+  it('translates through /api/chat with schema-constrained output and no API key', async () => {
+    const result = await translateTexts(
+      { texts: ['Bonjour', 'Salut'], sourceLanguage: 'fr', targetLanguage: 'en' },
+      {
+        loadSettingsFn: async () => localSettings({ provider: 'ollama', model: 'mistral-nemo' }),
+        rateLimiter,
+        sleepFn: noSleep
+      }
+    );
+
+    expect(result).toEqual(['LLM Bonjour', 'LLM Salut']);
+    expect(requests[0]).toMatchObject({
+      method: 'POST',
+      url: '/api/chat',
+      body: { model: 'mistral-nemo', format: { required: ['translations'] }, stream: false, options: { num_ctx: 8192 } }
+    });
+  });
+
+  it('asks again after an empty reply', async () => {
+    const emptyReply = new Response(JSON.stringify({ message: { role: 'assistant', content: '' } }), { status: 200 });
+    const fetchFn = vi.fn<typeof fetch>().mockResolvedValueOnce(emptyReply).mockImplementation(fetch);
+
+    const result = await translateTexts(
+      { texts: ['Bonjour'], sourceLanguage: 'fr', targetLanguage: 'en' },
+      { fetchFn, loadSettingsFn: async () => localSettings({ provider: 'ollama' }), rateLimiter, sleepFn: noSleep }
+    );
+
+    expect(result).toEqual(['LLM Bonjour']);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('lists installed models as a connection test', async () => {
+    await expect(listProviderModels(localSettings({ provider: 'ollama' }))).resolves.toEqual([
+      'llama3.1:latest',
+      'mistral-nemo:latest'
+    ]);
+  });
+});
+
+describe('LibreTranslate provider', () => {
+  it('translates batches through /translate and sends an optional API key in the body', async () => {
+    const result = await translateTexts(
+      { texts: ['Bonjour', 'Salut'], sourceLanguage: 'fr', targetLanguage: 'en' },
+      {
+        loadSettingsFn: async () => localSettings({ provider: 'libretranslate', apiKey: 'lt-key' }),
+        rateLimiter,
+        sleepFn: noSleep
+      }
+    );
+
+    expect(result).toEqual(['LT Bonjour', 'LT Salut']);
+    expect(requests[0].body).toEqual({ q: ['Bonjour', 'Salut'], source: 'fr', target: 'en', format: 'text', api_key: 'lt-key' });
+  });
+
+  it('lists installed languages as a connection test', async () => {
+    await expect(listProviderModels(localSettings({ provider: 'libretranslate' }))).resolves.toEqual(['en', 'fr']);
+  });
+});
+
+describe('listProviderModels', () => {
+  it('reports servers that cannot be reached', async () => {
+    const fetchFn = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+
+    await expect(
+      listProviderModels(localSettings({ provider: 'ollama', apiBaseUrl: '' }), fetchFn)
+    ).rejects.toThrow('Unable to reach Ollama (local) at http://localhost:11434: fetch failed');
+  });
+
+  it('reports rejections that are not errors', async () => {
+    const fetchFn = vi.fn().mockRejectedValue('offline');
+
+    await expect(
+      listProviderModels(localSettings({ provider: 'ollama', apiBaseUrl: '' }), fetchFn)
+    ).rejects.toThrow('Unable to reach Ollama (local) at http://localhost:11434: offline');
+  });
+
+  it('reports the status of refused requests', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(new Response('{}', { status: 500 }));
+
+    await expect(listProviderModels(localSettings({ provider: 'libretranslate' }), fetchFn)).rejects.toThrow(
+      'LibreTranslate (local) responded with status 500.'
+    );
+  });
+
+  it('rejects providers without a model listing', async () => {
+    await expect(listProviderModels(localSettings({ provider: 'demo' }))).rejects.toThrow(/does not support listing models/);
+  });
+});
@@ -6,6 +6,8 @@ import { OptionsPage } from '../src/options/index';
 const mocks = vi.hoisted(() => ({
     storageGet: vi.fn(),
     storageSet: vi.fn(),
+    localStorageGet: vi.fn(),
+    localStorageSet: vi.fn(),
     runtimeLastError: vi.fn(),
     useSync: { value: true }
 }));
@@ -20,8 +22,8 @@ vi.mock('../src/shared/browser', () => ({
                         : undefined;
                 },
                 local: {
-                    get: mocks.storageGet,
-                    set: mocks.storageSet,
+                    get: mocks.localStorageGet,
+                    set: mocks.localStorageSet,
                 }
             };
         },
@@ -39,6 +41,9 @@ describe('Options Page', () => {
         vi.clearAllMocks();
         mocks.runtimeLastError.mockReturnValue(undefined);
         mocks.useSync.value = true;
+        // Local storage behaves like sync storage unless a test tells them apart
+        mocks.localStorageGet.mockImplementation((...args) => mocks.storageGet(...args));
+        mocks.localStorageSet.mockImplementation((...args) => mocks.storageSet(...args));
 
         // Set up DOM
         document.body.innerHTML = `
@@ -51,6 +56,27 @@ describe('Options Page', () => {
         <input name="apiBaseUrl" value="https://api.mistral.ai/v1/chat/completions" />
         <input name="apiKey" />
         <input name="model" />
+        <input type="number" name="maxConcurrentRequests" value="3" />
+        <input type="number" name="requestsPerMinute" value="60" />
+        <input type="number" name="contextWindowSize" value="3" />
+        <fieldset data-fallback-provider>
+          <select name="fallbackProvider"></select>
+          <input name="fallbackApiBaseUrl" />
+          <input name="fallbackApiKey" />
+          <input name="fallbackModel" />
+        </fieldset>
+        <fieldset data-fallback-provider>
+          <select name="fallbackProvider"></select>
+          <input name="fallbackApiBaseUrl" />
+          <input name="fallbackApiKey" />
+          <input name="fallbackModel" />
+        </fieldset>
+        <input type="checkbox" name="sourceLanguages" value="fr" checked />
+        <input type="checkbox" name="sourceLanguages" value="de" />
+        <select name="targetLanguage">
+          <option value="en" selected>English</option>
+          <option value="es">Spanish</option>
+        </select>
         <button type="submit">Save</button>
       </form>
     `;
@@ -192,6 +218,72 @@ describe('Options Page', () => {
         expect(statusEl?.getAttribute('data-state')).toBe('error');
     });
 
+    it('keeps glossaries, profiles, the custom template and prices out of sync storage', async () => {
+        mocks.storageGet.mockImplementation((defaults, callback) => callback(defaults));
+        mocks.storageSet.mockImplementation((items, callback) => callback());
+
+        const form = document.querySelector('form') as HTMLFormElement;
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+        await optionsPage.init();
+        form.dispatchEvent(new Event('submit', { bubbles: true, cancelable: true }));
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        const [[synced], [local]] = mocks.storageSet.mock.calls;
+        expect(synced).toMatchObject({ provider: 'mistral', targetLanguage: 'en' });
+        expect(synced).not.toHaveProperty('glossaries');
+        expect(Object.keys(local).sort()).toEqual(['customPromptTemplate', 'glossaries', 'priceTable', 'translationProfiles']);
+        expect(mocks.localStorageSet).toHaveBeenCalledWith(local, expect.any(Function));
+    });
+
+    it('shows lists saved in sync storage by earlier versions until they are saved locally', async () => {
+        const glossaries = [{ series: '', entries: [{ source: 'Arte', target: 'Arte' }] }];
+        const translationProfiles = [{ name: 'Docs', match: ['RC-014036'], settings: {} }];
+        mocks.storageGet.mockImplementation((defaults, callback) => callback({ ...defaults, glossaries }));
+        mocks.localStorageGet.mockImplementation((defaults, callback) => callback({ ...defaults, translationProfiles }));
+        const form = document.querySelector('form') as HTMLFormElement;
+        form.insertAdjacentHTML('beforeend', '<textarea name="glossary"></textarea><textarea name="translationProfiles"></textarea>');
+
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+        await optionsPage.init();
+
+        expect(form.querySelector<HTMLTextAreaElement>('[name="glossary"]')?.value).toBe('Arte');
+        expect(JSON.parse(form.querySelector<HTMLTextAreaElement>('[name="translationProfiles"]')!.value)).toEqual(
+            translationProfiles
+        );
+    });
+
+    it("clears the Mistral endpoint earlier versions saved as every provider's default", async () => {
+        mocks.storageGet.mockImplementation((defaults, callback) =>
+            callback({ ...defaults, provider: 'openai', apiBaseUrl: 'https://api.mistral.ai/v1/chat/completions' })
+        );
+        const form = document.querySelector('form') as HTMLFormElement;
+
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+        await optionsPage.init();
+
+        expect(form.querySelector<HTMLInputElement>('[name="apiBaseUrl"]')?.value).toBe('');
+        expect(form.querySelector<HTMLSelectElement>('[name="provider"]')?.value).toBe('openai');
+    });
+
+    it('reports a failure to save the locally kept lists', async () => {
+        mocks.storageGet.mockImplementation((defaults, callback) => callback(defaults));
+        mocks.storageSet.mockImplementation((items, callback) => callback());
+        mocks.localStorageSet.mockImplementation((items, callback) => {
+            mocks.runtimeLastError.mockReturnValue(new Error('QUOTA_BYTES quota exceeded'));
+            callback();
+        });
+
+        const form = document.querySelector('form') as HTMLFormElement;
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+        await optionsPage.init();
+        form.dispatchEvent(new Event('submit', { bubbles: true, cancelable: true }));
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        const statusEl = document.querySelector('[data-status]');
+        expect(statusEl?.textContent).toBe('Failed to save options: Error: QUOTA_BYTES quota exceeded');
+        expect(statusEl?.getAttribute('data-state')).toBe('error');
+    });
+
     it('validates provider on submit', async () => {
         mocks.storageGet.mockImplementation((defaults, callback) => {
             callback(DEFAULT_TRANSLATION_SETTINGS);
@@ -221,6 +313,628 @@ describe('Options Page', () => {
         expect(mocks.storageSet).not.toHaveBeenCalled();
     });
 
+    it('populates and saves source and target languages', async () => {
+        mocks.storageGet.mockImplementation((defaults, callback) => {
+            callback({ ...DEFAULT_TRANSLATION_SETTINGS, sourceLanguages: ['de'], targetLanguage: 'es' });
+        });
+        mocks.storageSet.mockImplementation((items, callback) => {
+            callback();
+        });
+
+        const form = document.querySelector('form') as HTMLFormElement;
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+        await optionsPage.init();
+
+        const [french, german] = Array.from(form.querySelectorAll<HTMLInputElement>('[name="sourceLanguages"]'));
+        expect(french.checked).toBe(false);
+        expect(german.checked).toBe(true);
+        expect(form.querySelector<HTMLSelectElement>('[name="targetLanguage"]')?.value).toBe('es');
+
+        french.checked = true;
+        form.dispatchEvent(new Event('submit', { bubbles: true, cancelable: true }));
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        expect(mocks.storageSet).toHaveBeenCalledWith(
+            expect.objectContaining({ sourceLanguages: ['fr', 'de'], targetLanguage: 'es' }),
+            expect.any(Function)
+        );
+    });
+
+    it('populates and saves concurrency and rate limits', async () => {
+        mocks.storageGet.mockImplementation((defaults, callback) => {
+            callback({ ...DEFAULT_TRANSLATION_SETTINGS, maxConcurrentRequests: 5, requestsPerMinute: 120 });
+        });
+        mocks.storageSet.mockImplementation((items, callback) => {
+            callback();
+        });
+
+        const form = document.querySelector('form') as HTMLFormElement;
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+        await optionsPage.init();
+
+        const concurrencyInput = form.querySelector<HTMLInputElement>('[name="maxConcurrentRequests"]')!;
+        expect(concurrencyInput.value).toBe('5');
+        expect(form.querySelector<HTMLInputElement>('[name="requestsPerMinute"]')?.value).toBe('120');
+
+        concurrencyInput.value = '';
+        form.dispatchEvent(new Event('submit', { bubbles: true, cancelable: true }));
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        expect(mocks.storageSet).toHaveBeenCalledWith(
+            expect.objectContaining({
+                maxConcurrentRequests: DEFAULT_TRANSLATION_SETTINGS.maxConcurrentRequests,
+                requestsPerMinute: 120
+            }),
+            expect.any(Function)
+        );
+    });
+
+    it('rejects non-integer rate limits', () => {
+        const form = document.querySelector('form') as HTMLFormElement;
+        form.querySelector<HTMLInputElement>('[name="requestsPerMinute"]')!.value = '1.5';
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+
+        expect(optionsPage.readFormValues()).toBeNull();
+        expect(document.querySelector('[data-status]')?.textContent).toContain('positive whole numbers');
+    });
+
+    it('accepts zero context cues and rejects negative ones', () => {
+        const form = document.querySelector('form') as HTMLFormElement;
+        const contextInput = form.querySelector<HTMLInputElement>('[name="contextWindowSize"]')!;
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+
+        contextInput.value = '0';
+        expect(optionsPage.readFormValues()).toMatchObject({ contextWindowSize: 0 });
+
+        contextInput.value = '-1';
+        expect(optionsPage.readFormValues()).toBeNull();
+        expect(document.querySelector('[data-status]')?.textContent).toContain('Context cues');
+    });
+
+    it('saves reading speed and line width limits and rejects fractional widths', () => {
+        const form = document.querySelector('form') as HTMLFormElement;
+        form.insertAdjacentHTML(
+            'beforeend',
+            '<input type="number" name="maxCharactersPerSecond" /><input type="number" name="maxLineLength" />'
+        );
+        const lineLengthInput = form.querySelector<HTMLInputElement>('[name="maxLineLength"]')!;
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+        optionsPage.populateForm({ ...DEFAULT_TRANSLATION_SETTINGS, maxCharactersPerSecond: 17.5, maxLineLength: 0 });
+
+        expect(optionsPage.readFormValues()).toMatchObject({ maxCharactersPerSecond: 17.5, maxLineLength: 0 });
+
+        lineLengthInput.value = '37.5';
+        expect(optionsPage.readFormValues()).toBeNull();
+        expect(document.querySelector('[data-status]')?.textContent).toContain('Line width must be');
+
+        lineLengthInput.value = '42';
+        form.querySelector<HTMLInputElement>('[name="maxCharactersPerSecond"]')!.value = '-1';
+        expect(optionsPage.readFormValues()).toBeNull();
+        expect(document.querySelector('[data-status]')?.textContent).toBe('Reading speed must be a number of zero or more');
+    });
+
+    it('renders providers from the registry and reflects their capabilities', async () => {
+        mocks.storageGet.mockImplementation((defaults, callback) => {
+            callback({ ...DEFAULT_TRANSLATION_SETTINGS, provider: 'demo' });
+        });
+
+        const form = document.querySelector('form') as HTMLFormElement;
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+        await optionsPage.init();
+
+        const providerSelect = form.querySelector<HTMLSelectElement>('[name="provider"]')!;
+        expect(Array.from(providerSelect.options).map((option) => option.value)).toEqual([
+          'openai',
+          'mistral',
+          'anthropic',
+          'deepl',
+          'google',
+          'google-v3',
+          'azure',
+          'ollama',
+          'libretranslate',
+          'demo'
+        ]);
+        expect(providerSelect.value).toBe('demo');
+        const apiKeyInput = form.querySelector<HTMLInputElement>('[name="apiKey"]')!;
+        expect(apiKeyInput.required).toBe(false);
+
+        providerSelect.value = 'mistral';
+        providerSelect.dispatchEvent(new Event('change'));
+
+        expect(apiKeyInput.required).toBe(true);
+        expect(form.querySelector<HTMLInputElement>('[name="model"]')?.placeholder).toBe('mistral-large-latest');
+    });
+
+    it('clears the base URL when another provider is selected', async () => {
+        mocks.storageGet.mockImplementation((defaults, callback) =>
+            callback({ ...defaults, provider: 'openai', apiBaseUrl: 'https://llm.example.com/v1' })
+        );
+        const form = document.querySelector('form') as HTMLFormElement;
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+        await optionsPage.init();
+        const providerSelect = form.querySelector<HTMLSelectElement>('[name="provider"]')!;
+        const apiBaseUrlInput = form.querySelector<HTMLInputElement>('[name="apiBaseUrl"]')!;
+        expect(apiBaseUrlInput.value).toBe('https://llm.example.com/v1');
+
+        providerSelect.value = 'mistral';
+        providerSelect.dispatchEvent(new Event('change'));
+        expect(apiBaseUrlInput.value).toBe('');
+        expect(apiBaseUrlInput.placeholder).toBe('https://api.mistral.ai/v1');
+
+        apiBaseUrlInput.remove();
+        providerSelect.value = 'openai';
+        providerSelect.dispatchEvent(new Event('change'));
+        expect(optionsPage.readFormValues()).toMatchObject({ provider: 'openai', apiBaseUrl: '' });
+    });
+
+    it('reflects provider capabilities only in the fields the form has', () => {
+        const form = document.createElement('form');
+        const optionsPage = new OptionsPage(form, null);
+
+        optionsPage.renderProviderOptions();
+        optionsPage.renderProviderHints();
+        expect(form.children).toHaveLength(0);
+
+        form.innerHTML = '<select name="provider"><option value="deepl" selected>DeepL</option></select>';
+        optionsPage.renderProviderHints();
+        expect(form.querySelector<HTMLSelectElement>('[name="provider"]')?.value).toBe('deepl');
+    });
+
+    it('shows only the settings of the selected provider and rejects unknown DeepL formalities', () => {
+        const form = document.querySelector('form') as HTMLFormElement;
+        form.insertAdjacentHTML(
+            'beforeend',
+            `<fieldset data-provider-settings="deepl">
+              <select name="deeplFormality"><option value="default">Default</option><option value="casual">Casual</option></select>
+            </fieldset>`
+        );
+        const section = form.querySelector<HTMLElement>('[data-provider-settings]')!;
+        const providerSelect = form.querySelector<HTMLSelectElement>('[name="provider"]')!;
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+        optionsPage.renderProviderOptions();
+
+        providerSelect.value = 'deepl';
+        optionsPage.renderProviderHints();
+        expect(section.hidden).toBe(false);
+
+        providerSelect.value = 'mistral';
+        optionsPage.renderProviderHints();
+        expect(section.hidden).toBe(true);
+
+        form.querySelector<HTMLSelectElement>('[name="deeplFormality"]')!.value = 'casual';
+        expect(optionsPage.readFormValues()).toBeNull();
+        expect(document.querySelector('[data-status]')?.textContent).toBe('DeepL formality is not supported');
+    });
+
+    it('populates and saves the fallback provider chain, dropping empty slots', async () => {
+        const fallbackProviders = [{ provider: 'deepl', apiBaseUrl: '', apiKey: 'deepl-key', model: '' }];
+        mocks.storageGet.mockImplementation((defaults, callback) => {
+            callback({ ...DEFAULT_TRANSLATION_SETTINGS, fallbackProviders });
+        });
+        mocks.storageSet.mockImplementation((items, callback) => {
+            callback();
+        });
+
+        const form = document.querySelector('form') as HTMLFormElement;
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+        await optionsPage.init();
+
+        const [firstSlot, secondSlot] = Array.from(form.querySelectorAll<HTMLElement>('[data-fallback-provider]'));
+        const firstSelect = firstSlot.querySelector<HTMLSelectElement>('[name="fallbackProvider"]')!;
+        expect(firstSelect.options[0].value).toBe('');
+        expect(firstSelect.value).toBe('deepl');
+        expect(firstSlot.querySelector<HTMLInputElement>('[name="fallbackApiKey"]')?.value).toBe('deepl-key');
+        expect(secondSlot.querySelector<HTMLSelectElement>('[name="fallbackProvider"]')?.value).toBe('');
+
+        firstSelect.value = '';
+        secondSlot.querySelector<HTMLSelectElement>('[name="fallbackProvider"]')!.value = 'demo';
+        form.dispatchEvent(new Event('submit', { bubbles: true, cancelable: true }));
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        expect(mocks.storageSet).toHaveBeenCalledWith(
+            expect.objectContaining({
+                fallbackProviders: [{ provider: 'demo', apiBaseUrl: '', apiKey: '', model: '' }]
+            }),
+            expect.any(Function)
+        );
+    });
+
+    it('reads fallback slots that only offer a provider and rejects unknown providers', () => {
+        const form = document.querySelector('form') as HTMLFormElement;
+        form.querySelectorAll('[data-fallback-provider]').forEach((slot) => slot.remove());
+        form.insertAdjacentHTML(
+            'beforeend',
+            '<fieldset data-fallback-provider><select name="fallbackProvider"></select></fieldset>'
+        );
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+        optionsPage.renderProviderOptions();
+        optionsPage.populateForm({
+            ...DEFAULT_TRANSLATION_SETTINGS,
+            fallbackProviders: [{ provider: 'demo', apiBaseUrl: 'https://ignored', apiKey: '', model: '' }]
+        });
+
+        expect(optionsPage.readFormValues()).toMatchObject({
+            fallbackProviders: [{ provider: 'demo', apiBaseUrl: '', apiKey: '', model: '' }]
+        });
+
+        const fallbackSelect = form.querySelector<HTMLSelectElement>('[name="fallbackProvider"]')!;
+        fallbackSelect.add(new Option('Unknown', 'unknown'));
+        fallbackSelect.value = 'unknown';
+        expect(optionsPage.readFormValues()).toBeNull();
+        expect(document.querySelector('[data-status]')?.textContent).toBe('Fallback provider is not supported');
+    });
+
+    it('saves an edited price table and rejects malformed ones', async () => {
+        const form = document.querySelector('form') as HTMLFormElement;
+        const priceTableInput = document.createElement('textarea');
+        priceTableInput.name = 'priceTable';
+        form.append(priceTableInput);
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+        optionsPage.populateForm(DEFAULT_TRANSLATION_SETTINGS);
+
+        expect(JSON.parse(priceTableInput.value)).toEqual(DEFAULT_TRANSLATION_SETTINGS.priceTable);
+
+        const priceTable = { mistral: { inputPerMillionTokens: 1, outputPerMillionTokens: 3, perMillionCharacters: 0 } };
+        priceTableInput.value = JSON.stringify(priceTable);
+        expect(optionsPage.readFormValues()).toMatchObject({ priceTable });
+
+        priceTableInput.value = '{ "mistral": 1 }';
+        expect(optionsPage.readFormValues()).toBeNull();
+        expect(document.querySelector('[data-status]')?.textContent).toContain('Prices must be a JSON object');
+
+        priceTableInput.value = '{ "mistral": ';
+        expect(optionsPage.readFormValues()).toBeNull();
+        expect(document.querySelector('[data-status]')?.textContent).toContain('Prices must be a JSON object');
+    });
+
+    it('saves a spending budget and rejects invalid limits', () => {
+        const form = document.querySelector('form') as HTMLFormElement;
+        form.insertAdjacentHTML(
+            'beforeend',
+            `<input type="number" name="budgetLimit" />
+            <select name="budgetUnit"><option value="usd">US dollars</option><option value="tokens">Tokens</option></select>
+            <select name="budgetPeriod"><option value="day">Per day</option><option value="month">Per month</option></select>
+            <input type="number" name="budgetWarningPercent" />`
+        );
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+        optionsPage.populateForm({ ...DEFAULT_TRANSLATION_SETTINGS, budgetLimit: 2.5, budgetPeriod: 'day' });
+
+        expect(form.querySelector<HTMLInputElement>('[name="budgetLimit"]')!.value).toBe('2.5');
+        expect(optionsPage.readFormValues()).toMatchObject({
+            budgetLimit: 2.5,
+            budgetUnit: 'usd',
+            budgetPeriod: 'day',
+            budgetWarningPercent: 80
+        });
+
+        form.querySelector<HTMLInputElement>('[name="budgetLimit"]')!.value = '-1';
+        expect(optionsPage.readFormValues()).toBeNull();
+        expect(document.querySelector('[data-status]')?.textContent).toContain('Budget must be a number of zero or more');
+
+        form.querySelector<HTMLInputElement>('[name="budgetLimit"]')!.value = '0';
+        form.querySelector<HTMLInputElement>('[name="budgetWarningPercent"]')!.value = '120';
+        expect(optionsPage.readFormValues()).toBeNull();
+        expect(document.querySelector('[data-status]')?.textContent).toContain('Budget warning must be');
+
+        const unitSelect = form.querySelector<HTMLSelectElement>('[name="budgetUnit"]')!;
+        unitSelect.add(new Option('Euros', 'eur'));
+        unitSelect.value = 'eur';
+        form.querySelector<HTMLInputElement>('[name="budgetWarningPercent"]')!.value = '80';
+        expect(optionsPage.readFormValues()).toBeNull();
+        expect(document.querySelector('[data-status]')?.textContent).toBe('Budget period or unit is not supported');
+    });
+
+    it('edits global and series glossaries as text and rejects malformed lines', () => {
+        const form = document.querySelector('form') as HTMLFormElement;
+        form.insertAdjacentHTML('beforeend', '<textarea name="glossary"></textarea>');
+        const glossaryInput = form.querySelector<HTMLTextAreaElement>('[name="glossary"]')!;
+        const glossaries = [
+            { series: '', entries: [{ source: 'Arte', target: 'Arte' }] },
+            { series: 'Les Papillons noirs', entries: [{ source: 'flic', target: 'cop' }] }
+        ];
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+        optionsPage.populateForm({ ...DEFAULT_TRANSLATION_SETTINGS, glossaries });
+
+        expect(glossaryInput.value).toBe('Arte\n\n[Les Papillons noirs]\nflic = cop');
+        expect(optionsPage.readFormValues()).toMatchObject({ glossaries });
+
+        glossaryInput.value = 'mairie =';
+        expect(optionsPage.readFormValues()).toBeNull();
+        expect(document.querySelector('[data-status]')?.textContent).toContain('Glossary: Line 1');
+
+        // @ts-expect-error Settings saved before glossaries existed
+        optionsPage.populateForm({ ...DEFAULT_TRANSLATION_SETTINGS, glossaries: undefined });
+        expect(glossaryInput.value).toBe('');
+    });
+
+    it('saves programme profiles with a default profile and rejects unknown defaults', () => {
+        const form = document.querySelector('form') as HTMLFormElement;
+        form.insertAdjacentHTML(
+            'beforeend',
+            '<textarea name="translationProfiles"></textarea><input type="text" name="defaultTranslationProfile" />'
+        );
+        const profilesInput = form.querySelector<HTMLTextAreaElement>('[name="translationProfiles"]')!;
+        const defaultInput = form.querySelector<HTMLInputElement>('[name="defaultTranslationProfile"]')!;
+        const translationProfiles = [{ name: 'Documentaries', match: ['RC-014036'], settings: { promptPreset: 'formal' as const } }];
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+        optionsPage.populateForm({ ...DEFAULT_TRANSLATION_SETTINGS, translationProfiles, defaultTranslationProfile: 'Documentaries' });
+
+        expect(JSON.parse(profilesInput.value)).toEqual(translationProfiles);
+        expect(defaultInput.value).toBe('Documentaries');
+        expect(optionsPage.readFormValues()).toMatchObject({ translationProfiles, defaultTranslationProfile: 'Documentaries' });
+
+        defaultInput.value = 'Fiction';
+        expect(optionsPage.readFormValues()).toBeNull();
+        expect(document.querySelector('[data-status]')?.textContent).toContain('Default profile must be');
+
+        profilesInput.value = '[{ "name": "Docs" }';
+        expect(optionsPage.readFormValues()).toBeNull();
+        expect(document.querySelector('[data-status]')?.textContent).toContain('Profiles must be a JSON list');
+
+        optionsPage.populateForm({ ...DEFAULT_TRANSLATION_SETTINGS, translationProfiles: [] });
+        expect(profilesInput.value).toBe('');
+    });
+
+    it('shows presets read-only, edits custom templates and previews them with sample cues', async () => {
+        const form = document.querySelector('form') as HTMLFormElement;
+        form.insertAdjacentHTML(
+            'beforeend',
+            '<select name="promptPreset"></select><textarea name="customPromptTemplate"></textarea><pre data-prompt-preview></pre>'
+        );
+        mocks.storageGet.mockImplementation((_defaults, callback) =>
+            callback({ ...DEFAULT_TRANSLATION_SETTINGS, promptPreset: 'formal' })
+        );
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+        await optionsPage.init();
+        const presetSelect = form.querySelector<HTMLSelectElement>('[name="promptPreset"]')!;
+        const editor = form.querySelector<HTMLTextAreaElement>('[name="customPromptTemplate"]')!;
+        const preview = form.querySelector('[data-prompt-preview]')!;
+
+        expect(Array.from(presetSelect.options).map((option) => option.value)).toEqual([
+            'standard',
+            'formal',
+            'casual',
+            'british',
+            'american',
+            'concise',
+            'custom'
+        ]);
+        expect(presetSelect.value).toBe('formal');
+        expect(editor.readOnly).toBe(true);
+        expect(preview.textContent).toContain('Use a formal register');
+        expect(preview.textContent).toContain('The subtitles belong to "Les Papillons noirs".');
+        expect(preview.textContent).toContain('"text": "Tu as vu Lucie ce matin ?"');
+
+        presetSelect.value = 'custom';
+        presetSelect.dispatchEvent(new Event('change'));
+        expect(editor.readOnly).toBe(false);
+        expect(editor.value).toContain('Use a formal register');
+
+        editor.value = 'Traduis en {{targetLanguage}} pour {{publc}}.';
+        editor.dispatchEvent(new Event('input'));
+        expect(preview.textContent).toContain('Unknown variables: publc');
+        expect(preview.textContent).toContain('Traduis en en pour {{publc}}.');
+        expect(optionsPage.readFormValues()).toBeNull();
+        expect(document.querySelector('[data-status]')?.textContent).toContain('Unknown prompt template variables: publc');
+
+        editor.value = 'Traduis en {{targetLanguage}}.';
+        expect(optionsPage.readFormValues()).toMatchObject({
+            promptPreset: 'custom',
+            customPromptTemplate: 'Traduis en {{targetLanguage}}.'
+        });
+    });
+
+    it('previews the template in the chosen languages and rejects empty or unknown styles', async () => {
+        const form = document.querySelector('form') as HTMLFormElement;
+        form.insertAdjacentHTML(
+            'beforeend',
+            '<select name="promptPreset"></select><textarea name="customPromptTemplate"></textarea><pre data-prompt-preview></pre>'
+        );
+        mocks.storageGet.mockImplementation((defaults, callback) => callback(defaults));
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+        await optionsPage.init();
+        const presetSelect = form.querySelector<HTMLSelectElement>('[name="promptPreset"]')!;
+        const targetSelect = form.querySelector<HTMLSelectElement>('[name="targetLanguage"]')!;
+        const preview = form.querySelector('[data-prompt-preview]')!;
+
+        targetSelect.value = 'es';
+        targetSelect.dispatchEvent(new Event('change'));
+        expect(preview.textContent).toContain('"targetLanguage": "es"');
+
+        form.querySelectorAll<HTMLInputElement>('[name="sourceLanguages"]').forEach((checkbox) => {
+            checkbox.checked = checkbox.value === 'de';
+        });
+        targetSelect.value = '';
+        optionsPage.renderPromptPreview();
+        expect(preview.textContent).toContain('"sourceLanguage": "de"');
+        expect(preview.textContent).toContain('"targetLanguage": "en"');
+
+        form.querySelectorAll<HTMLInputElement>('[name="sourceLanguages"]').forEach((checkbox) => {
+            checkbox.checked = false;
+        });
+        optionsPage.renderPromptPreview();
+        expect(preview.textContent).toContain('"sourceLanguage": "fr"');
+
+        targetSelect.value = 'en';
+        form.querySelector<HTMLInputElement>('[name="sourceLanguages"]')!.checked = true;
+        presetSelect.value = 'custom';
+        presetSelect.dispatchEvent(new Event('change'));
+        form.querySelector<HTMLTextAreaElement>('[name="customPromptTemplate"]')!.value = '  ';
+        expect(optionsPage.readFormValues()).toBeNull();
+        expect(document.querySelector('[data-status]')?.textContent).toBe('Custom prompt template cannot be empty');
+
+        form.querySelector('[name="customPromptTemplate"]')!.remove();
+        expect(optionsPage.readFormValues()).toBeNull();
+        expect(document.querySelector('[data-status]')?.textContent).toBe('Custom prompt template cannot be empty');
+        optionsPage.renderPromptPreview();
+
+        presetSelect.add(new Option('Pirate', 'pirate'));
+        presetSelect.value = 'pirate';
+        expect(optionsPage.readFormValues()).toBeNull();
+        expect(document.querySelector('[data-status]')?.textContent).toBe('Translation style is not supported');
+    });
+
+    it('renders usage totals with costs per day, provider and video', () => {
+        const usageSummaryEl = document.createElement('div');
+        const optionsPage = new OptionsPage(null, null, null, usageSummaryEl);
+        const totals = { requests: 2, inputTokens: 1000, outputTokens: 500, characters: 800 };
+
+        optionsPage.renderUsageSummary({
+            today: { key: '2024-03-11', totals, cost: 0.005 },
+            providers: [{ key: 'mistral', totals, cost: 1.5 }],
+            videos: [{ key: 'https://example.com/episode.vtt', totals, cost: 0.005 }]
+        });
+
+        expect(Array.from(usageSummaryEl.querySelectorAll('li')).map((item) => item.textContent)).toEqual([
+            'Today: $0.0050 (2 requests, 1000 input and 500 output tokens, 800 characters)',
+            'Mistral: $1.50 (2 requests, 1000 input and 500 output tokens, 800 characters)',
+            'https://example.com/episode.vtt: $0.0050 (2 requests, 1000 input and 500 output tokens, 800 characters)'
+        ]);
+    });
+
+    it('loads usage from the ledger and names providers no longer offered by their id', async () => {
+        const usageSummaryEl = document.createElement('div');
+        const optionsPage = new OptionsPage(null, null, null, usageSummaryEl);
+        const totals = { requests: 1, inputTokens: 10, outputTokens: 5, characters: 20 };
+        mocks.storageGet.mockImplementation((defaults, callback) => callback(defaults));
+
+        await optionsPage.loadUsageSummary(DEFAULT_TRANSLATION_SETTINGS);
+        expect(usageSummaryEl.querySelector('li')?.textContent).toBe(
+            'Today: $0.00 (0 requests, 0 input and 0 output tokens, 0 characters)'
+        );
+
+        optionsPage.renderUsageSummary({
+            today: { key: '2024-03-11', totals, cost: 0 },
+            providers: [{ key: 'retired', totals, cost: 0 }],
+            videos: []
+        });
+        expect(usageSummaryEl.querySelectorAll('li')[1]?.textContent).toBe(
+            'retired: $0.00 (1 requests, 10 input and 5 output tokens, 20 characters)'
+        );
+
+        mocks.runtimeLastError.mockReturnValue({ message: 'Storage error' });
+        await optionsPage.loadUsageSummary(DEFAULT_TRANSLATION_SETTINGS);
+        expect(usageSummaryEl.textContent).toBe('Unable to load usage: Error: Storage error');
+    });
+
+    it('skips usage when no element is provided', async () => {
+        const optionsPage = new OptionsPage(null, null);
+        const totals = { requests: 0, inputTokens: 0, outputTokens: 0, characters: 0 };
+
+        optionsPage.renderUsageSummary({ today: { key: '2024-03-11', totals, cost: 0 }, providers: [], videos: [] });
+        await optionsPage.loadUsageSummary(DEFAULT_TRANSLATION_SETTINGS);
+
+        expect(mocks.storageGet).not.toHaveBeenCalled();
+    });
+
+    it('lists how much of the budget is used before the usage totals', () => {
+        const usageSummaryEl = document.createElement('div');
+        const optionsPage = new OptionsPage(null, null, null, usageSummaryEl);
+        const totals = { requests: 0, inputTokens: 0, outputTokens: 0, characters: 0 };
+
+        optionsPage.renderUsageSummary(
+            { today: { key: '2024-03-11', totals, cost: 0 }, providers: [], videos: [] },
+            'This month: $3.20 of the $5.00 budget used'
+        );
+
+        expect(usageSummaryEl.querySelector('li')?.textContent).toBe('This month: $3.20 of the $5.00 budget used');
+    });
+
+    it('loads the spending of the budget period before the usage totals', async () => {
+        const usageSummaryEl = document.createElement('div');
+        const optionsPage = new OptionsPage(null, null, null, usageSummaryEl);
+        mocks.storageGet.mockImplementation((defaults, callback) => callback(defaults));
+
+        await optionsPage.loadUsageSummary({
+            ...DEFAULT_TRANSLATION_SETTINGS,
+            budgetLimit: 50000,
+            budgetPeriod: 'day',
+            budgetUnit: 'tokens'
+        });
+
+        expect(usageSummaryEl.querySelector('li')?.textContent).toBe('Today: 0 tokens of the 50,000 tokens budget used');
+    });
+
+    it('tests the connection with the unsaved form values', async () => {
+        const form = document.querySelector('form') as HTMLFormElement;
+        form.insertAdjacentHTML('beforeend', '<button type="button" data-connection-test></button><p data-connection-status></p>');
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+        await optionsPage.init();
+        const providerSelect = form.querySelector<HTMLSelectElement>('[name="provider"]')!;
+        providerSelect.value = 'ollama';
+        form.querySelector<HTMLInputElement>('[name="apiBaseUrl"]')!.value = 'http://localhost:11434';
+        const fetchFn = vi.fn().mockResolvedValue(
+            new Response(JSON.stringify({ models: [{ name: 'llama3.1:latest' }] }), { status: 200 })
+        );
+
+        await optionsPage.testConnection(fetchFn);
+
+        expect(fetchFn).toHaveBeenCalledWith('http://localhost:11434/api/tags', expect.objectContaining({ method: 'GET' }));
+        const resultEl = form.querySelector('[data-connection-status]') as HTMLElement;
+        expect(resultEl.textContent).toBe('Connected. Available: llama3.1:latest');
+        expect(resultEl.dataset.state).toBe('success');
+
+        fetchFn.mockResolvedValue(new Response('{}', { status: 403 }));
+        await optionsPage.testConnection(fetchFn);
+
+        expect(resultEl.textContent).toContain('OLLAMA_ORIGINS');
+        expect(resultEl.dataset.state).toBe('error');
+    });
+
+    it('tests the connection from its button and reports servers without models', async () => {
+        const form = document.querySelector('form') as HTMLFormElement;
+        form.insertAdjacentHTML('beforeend', '<button type="button" data-connection-test></button>');
+        mocks.storageGet.mockImplementation((defaults, callback) => callback(defaults));
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+        const testConnection = vi.spyOn(optionsPage, 'testConnection');
+        await optionsPage.init();
+        form.querySelector<HTMLSelectElement>('[name="provider"]')!.value = 'ollama';
+        form.querySelector<HTMLInputElement>('[name="apiBaseUrl"]')!.value = 'http://localhost:11434';
+        const fetchFn = vi.fn().mockResolvedValue(new Response(JSON.stringify({ models: [] }), { status: 200 }));
+
+        await optionsPage.testConnection(fetchFn);
+        expect(fetchFn).not.toHaveBeenCalled();
+
+        form.insertAdjacentHTML('beforeend', '<p data-connection-status></p>');
+        const resultEl = form.querySelector('[data-connection-status]') as HTMLElement;
+        await optionsPage.testConnection(fetchFn);
+        expect(resultEl.textContent).toBe('Connected, but nothing is installed yet');
+
+        fetchFn.mockResolvedValue({ ok: true, json: () => Promise.reject('not JSON') });
+        await optionsPage.testConnection(fetchFn);
+        expect(resultEl.textContent).toBe('not JSON');
+        expect(resultEl.dataset.state).toBe('error');
+
+        testConnection.mockResolvedValue(undefined);
+        form.querySelector<HTMLButtonElement>('[data-connection-test]')!.click();
+        expect(testConnection).toHaveBeenLastCalledWith();
+    });
+
+    it('requires at least one source language', async () => {
+        const form = document.querySelector('form') as HTMLFormElement;
+        form.querySelectorAll<HTMLInputElement>('[name="sourceLanguages"]').forEach((checkbox) => {
+            checkbox.checked = false;
+        });
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+
+        expect(optionsPage.readFormValues()).toBeNull();
+        expect(document.querySelector('[data-status]')?.textContent).toContain('at least one subtitle language');
+    });
+
+    it('requires a supported target language', async () => {
+        const form = document.querySelector('form') as HTMLFormElement;
+        const targetSelect = form.querySelector<HTMLSelectElement>('[name="targetLanguage"]')!;
+        const option = document.createElement('option');
+        option.value = 'xx';
+        targetSelect.add(option);
+        targetSelect.value = 'xx';
+        const optionsPage = new OptionsPage(form, document.querySelector('[data-status]'));
+
+        expect(optionsPage.readFormValues()).toBeNull();
+        expect(document.querySelector('[data-status]')?.textContent).toContain('Target language is required');
+    });
+
     it('does nothing if form element is missing', async () => {
         document.body.innerHTML = ''; // No form
 
@@ -234,6 +948,48 @@ describe('Options Page', () => {
         expect(mocks.storageGet).not.toHaveBeenCalled();
     });
 
+    describe('Translation memory statistics', () => {
+        it('renders the hit rate after loading settings', async () => {
+            mocks.storageGet.mockImplementation((defaults, callback) => {
+                if ('translationMemoryStats' in defaults) {
+                    callback({ translationMemoryStats: { hits: 3, misses: 1 } });
+                    return;
+                }
+                callback(DEFAULT_TRANSLATION_SETTINGS);
+            });
+
+            const form = document.querySelector('form') as HTMLFormElement;
+            const stats = document.createElement('p');
+            const optionsPage = new OptionsPage(form, null, stats);
+            await optionsPage.init();
+
+            expect(stats.textContent).toBe('3 of 4 cues reused (75% hit rate)');
+        });
+
+        it('reports statistics that cannot be loaded', async () => {
+            mocks.storageGet.mockImplementation((defaults, callback) => {
+                if ('translationMemoryStats' in defaults) {
+                    mocks.runtimeLastError.mockReturnValue({ message: 'Stats error' });
+                }
+                callback(DEFAULT_TRANSLATION_SETTINGS);
+            });
+
+            const stats = document.createElement('p');
+            const optionsPage = new OptionsPage(document.querySelector('form'), null, stats);
+            await optionsPage.init();
+
+            expect(stats.textContent).toContain('Unable to load translation memory statistics');
+        });
+
+        it('skips statistics when no element is provided', async () => {
+            const optionsPage = new OptionsPage(null, null);
+            await optionsPage.loadMemoryStats();
+            optionsPage.renderMemoryStats({ hits: 1, misses: 0 });
+
+            expect(mocks.storageGet).not.toHaveBeenCalled();
+        });
+    });
+
     describe('Edge cases', () => {
         it('does not crash if status element is missing', () => {
             const page = new OptionsPage(document.createElement('form'), null);
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PROMPT_PRESETS,
+  buildPromptVariables,
+  findUnknownPromptVariables,
+  renderPromptTemplate,
+  resolvePromptTemplate
+} from '../src/shared/providers/prompt-templates';
+
+const variables = {
+  sourceLanguage: 'fr',
+  targetLanguage: 'en',
+  showTitle: '',
+  glossary: 'Lucie → Lucie',
+  context: ''
+};
+
+describe('prompt templates', () => {
+  it('fills variables and keeps sections only when their variable has a value', () => {
+    const template = [
+      'From {{sourceLanguage}} to {{ targetLanguage }}.',
+      '{{#showTitle}}Programme: {{showTitle}}{{/showTitle}}',
+      '{{#glossary}}Terms:\n{{glossary}}{{/glossary}}'
+    ].join('\n');
+
+    expect(renderPromptTemplate(template, variables)).toBe('From fr to en.\nTerms:\nLucie → Lucie');
+  });
+
+  it('leaves unknown variables in place and reports them', () => {
+    const template = 'Translate into {{targetLangage}} for {{#audience}}kids{{/audience}}.';
+
+    expect(renderPromptTemplate(template, variables)).toBe(template);
+    expect(findUnknownPromptVariables(template)).toEqual(['targetLangage', 'audience']);
+    expect(findUnknownPromptVariables(PROMPT_PRESETS.concise.template)).toEqual([]);
+  });
+
+  it('resolves presets and falls back to the standard template', () => {
+    expect(resolvePromptTemplate({ promptPreset: 'british', customPromptTemplate: '' })).toBe(
+      PROMPT_PRESETS.british.template
+    );
+    expect(resolvePromptTemplate({ promptPreset: 'custom', customPromptTemplate: 'Mine' })).toBe('Mine');
+    expect(resolvePromptTemplate({ promptPreset: 'custom', customPromptTemplate: '  ' })).toBe(
+      PROMPT_PRESETS.standard.template
+    );
+    expect(resolvePromptTemplate({ promptPreset: 'toString', customPromptTemplate: '' })).toBe(
+      PROMPT_PRESETS.standard.template
+    );
+  });
+
+  it('derives variables from the batch', () => {
+    expect(
+      buildPromptVariables({
+        segments: ['Salut'],
+        contextBefore: ['Avant'],
+        contextAfter: ['Après'],
+        sourceLanguage: 'fr',
+        targetLanguage: 'de',
+        glossary: [{ source: 'Arte', target: 'Arte' }]
+      })
+    ).toEqual({
+      sourceLanguage: 'fr',
+      targetLanguage: 'de',
+      showTitle: '',
+      glossary: 'Arte → Arte',
+      context: 'Avant\nAprès'
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createTokenBucket, getProviderRateLimiter, parseRetryAfter } from '../src/shared/rate-limiter';
+
+describe('rate limiter', () => {
+  it('allows a burst up to capacity and then spaces requests by the refill rate', () => {
+    let clock = 0;
+    const bucket = createTokenBucket({ requestsPerMinute: 60, burst: 2, now: () => clock });
+
+    expect(bucket.reserve()).toBe(0);
+    expect(bucket.reserve()).toBe(0);
+    expect(bucket.reserve()).toBe(1000);
+    expect(bucket.reserve()).toBe(2000);
+
+    clock = 10_000;
+    expect(bucket.reserve()).toBe(0);
+  });
+
+  it('blocks every caller while paused', () => {
+    let clock = 0;
+    const bucket = createTokenBucket({ requestsPerMinute: 600, now: () => clock });
+
+    bucket.pause(5000);
+    clock = 2000;
+    expect(bucket.reserve()).toBe(3000);
+    clock = 6000;
+    expect(bucket.reserve()).toBe(0);
+  });
+
+  it('shares one limiter per provider until its rate changes', () => {
+    const first = getProviderRateLimiter('openai', 60);
+
+    expect(getProviderRateLimiter('openai', 60)).toBe(first);
+    expect(getProviderRateLimiter('mistral', 60)).not.toBe(first);
+    expect(getProviderRateLimiter('openai', 30)).not.toBe(first);
+  });
+
+  it('parses Retry-After delays expressed in seconds or as HTTP dates', () => {
+    const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+
+    expect(parseRetryAfter('2', now)).toBe(2000);
+    expect(parseRetryAfter('0.5', now)).toBe(500);
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:30 GMT', now)).toBe(30_000);
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:27:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeCharacterBudget,
+  computeCharactersPerSecond,
+  countReadableCharacters,
+  wrapSubtitleLines
+} from '../src/shared/reading-speed';
+
+describe('reading speed', () => {
+  it('measures characters per second over the cue duration', () => {
+    expect(countReadableCharacters(' I know.\nYou  told me. ')).toBe(20);
+    expect(computeCharactersPerSecond('I know.\nYou told me.', { start: 10, end: 12 })).toBe(10);
+    expect(computeCharactersPerSecond('I know.', { start: 3, end: 3 })).toBeNull();
+    expect(computeCharactersPerSecond('I know.', null)).toBeNull();
+  });
+
+  it('gives the characters a cue leaves room for at a reading speed', () => {
+    expect(computeCharacterBudget({ start: 1, end: 2.5 }, 17)).toBe(25);
+    expect(computeCharacterBudget({ start: 1, end: 1.01 }, 17)).toBe(1);
+    expect(computeCharacterBudget(null, 17)).toBeNull();
+  });
+});
+
+describe('wrapSubtitleLines', () => {
+  it('re-wraps cues with a line over the width', () => {
+    expect(wrapSubtitleLines('I never thought we would see each other again, Albert.', 30)).toBe(
+      'I never thought we would see\neach other again, Albert.'
+    );
+    expect(wrapSubtitleLines('Hello\nthere', 30)).toBe('Hello\nthere');
+    expect(wrapSubtitleLines('Extraordinarily long', 0)).toBe('Extraordinarily long');
+  });
+
+  it('gives words longer than the width a line of their own', () => {
+    expect(wrapSubtitleLines('An anticonstitutionally long word', 10)).toBe('An\nanticonstitutionally\nlong word');
+  });
+});
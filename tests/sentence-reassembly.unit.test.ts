@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeCueWeights,
+  groupCuesIntoSentences,
+  redistributeTranslation
+} from '../src/shared/sentence-reassembly';
+
+describe('groupCuesIntoSentences', () => {
+  it('merges cues until the sentence ends and strips continuation ellipses', () => {
+    const groups = groupCuesIntoSentences([
+      'Je suis allé au marché...',
+      '...pour acheter du pain',
+      'et des fruits.',
+      'Bonjour !'
+    ]);
+
+    expect(groups).toEqual([
+      { cueIndexes: [0, 1, 2], text: 'Je suis allé au marché pour acheter du pain et des fruits.' },
+      { cueIndexes: [3], text: 'Bonjour !' }
+    ]);
+  });
+
+  it('keeps standalone cues untouched, including their line breaks', () => {
+    expect(groupCuesIntoSentences(['Il pleut.\nEncore.', 'Oui.'])).toEqual([
+      { cueIndexes: [0], text: 'Il pleut.\nEncore.' },
+      { cueIndexes: [1], text: 'Oui.' }
+    ]);
+  });
+
+  it('treats a trailing ellipsis followed by a capitalised cue as a pause, not a continuation', () => {
+    expect(groupCuesIntoSentences(['Je ne sais pas...', 'Tu viens ?']).map((group) => group.cueIndexes)).toEqual([
+      [0],
+      [1]
+    ]);
+  });
+
+  it('does not merge dialogue lines, blank cues or cues separated by a long silence', () => {
+    const groups = groupCuesIntoSentences(
+      ['- Tu viens', '- Non', 'alors', '', 'donc', 'ensuite'],
+      [
+        { start: 0, end: 1 },
+        { start: 1, end: 2 },
+        { start: 2, end: 3 },
+        { start: 3, end: 4 },
+        { start: 4, end: 5 },
+        { start: 10, end: 11 }
+      ]
+    );
+
+    expect(groups.map((group) => group.cueIndexes)).toEqual([[0], [1], [2], [3], [4], [5]]);
+  });
+
+  it('caps how many cues a single sentence may span', () => {
+    const groups = groupCuesIntoSentences(['un', 'deux', 'trois', 'quatre', 'cinq.']);
+
+    expect(groups.map((group) => group.cueIndexes)).toEqual([[0, 1, 2, 3], [4]]);
+  });
+});
+
+describe('computeCueWeights', () => {
+  it('uses cue durations and falls back to text length without timings', () => {
+    const texts = ['court', 'beaucoup plus long'];
+
+    expect(computeCueWeights([0, 1], texts, [{ start: 0, end: 1 }, { start: 1, end: 4 }])).toEqual([1, 3]);
+    expect(computeCueWeights([0, 1], texts, [{ start: 0, end: 1 }, null])).toEqual([5, 18]);
+  });
+});
+
+describe('redistributeTranslation', () => {
+  it('splits on word boundaries in proportion to the weights', () => {
+    expect(redistributeTranslation('I went to the market to buy some bread', [1, 1])).toEqual([
+      'I went to the market',
+      'to buy some bread'
+    ]);
+    expect(redistributeTranslation('one two three four five six seven eight', [1, 3])).toEqual([
+      'one two',
+      'three four five six seven eight'
+    ]);
+  });
+
+  it('gives every cue at least one word when there are enough', () => {
+    expect(redistributeTranslation('Supercalifragilistic yes no', [10, 1, 1])).toEqual([
+      'Supercalifragilistic',
+      'yes',
+      'no'
+    ]);
+    expect(redistributeTranslation('Yes', [1, 1])).toEqual(['Yes', '']);
+  });
+
+  it('returns a single-cue translation unchanged', () => {
+    expect(redistributeTranslation('Hello,\nworld', [2])).toEqual(['Hello,\nworld']);
+  });
+});
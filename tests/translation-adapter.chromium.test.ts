@@ -99,17 +99,21 @@ const extractSegmentsFromPayload = (payload: Record<string, unknown>): string[]
 
   try {
     const parsed = JSON.parse(userMessage.content) as { segments?: unknown };
-    return Array.isArray(parsed.segments) ? (parsed.segments as string[]) : [];
+    return Array.isArray(parsed.segments)
+      ? (parsed.segments as Array<{ text: string }>).map((segment) => segment.text)
+      : [];
   } catch (error) {
     return [];
   }
 };
 
+const tagTranslations = (translations: string[]) => translations.map((text, index) => ({ id: index + 1, text }));
+
 const buildProviderResponse = (
   translations: string[],
   options: { content?: unknown; status?: number } = {}
 ): Response => {
-  const messageContent = options.content ?? JSON.stringify({ translations });
+  const messageContent = options.content ?? JSON.stringify({ translations: tagTranslations(translations) });
   const body = { choices: [{ message: { content: messageContent } }] };
   return new Response(JSON.stringify(body), {
     status: options.status ?? 200,
@@ -257,7 +261,7 @@ describe('translation adapter (chromium)', () => {
       const content = [
         {
           type: 'output_text',
-          text: JSON.stringify({ translations })
+          text: JSON.stringify({ translations: tagTranslations(translations) })
         }
       ];
       return buildProviderResponse([], { content });
@@ -280,7 +284,7 @@ describe('translation adapter (chromium)', () => {
     });
   });
 
-  it('pads missing translations from provider responses', async () => {
+  it('re-requests cues missing from provider responses instead of padding them', async () => {
     const config: TranslationSettings = {
       provider: 'openai',
       apiKey: 'key',
@@ -288,7 +292,10 @@ describe('translation adapter (chromium)', () => {
       model: ''
     };
 
-    const { fetchFn } = createFetchStub((_call) => buildProviderResponse(['only-one']));
+    const { fetchFn, calls } = createFetchStub((call) => {
+      const segments = extractSegmentsFromPayload(call.payload);
+      return buildProviderResponse(segments.length === 1 ? [`EN-${segments[0]}`] : ['EN-a']);
+    });
 
     await withPage(async (page) => {
       const result = await runTranslationInChromium(
@@ -300,11 +307,13 @@ describe('translation adapter (chromium)', () => {
         }
       );
 
-      expect(result).toEqual(['only-one', '']);
+      expect(result).toEqual(['EN-a', 'EN-b']);
     });
+
+    expect(calls.map((call) => extractSegmentsFromPayload(call.payload))).toEqual([['a', 'b'], ['b']]);
   });
 
-  it('truncates extra translations from provider responses', async () => {
+  it('ignores translations for cue ids that were not requested', async () => {
     const config: TranslationSettings = {
       provider: 'openai',
       apiKey: 'key',
@@ -312,7 +321,7 @@ describe('translation adapter (chromium)', () => {
       model: ''
     };
 
-    const { fetchFn } = createFetchStub((_call) => buildProviderResponse(['first', 'second', 'third']));
+    const { fetchFn, calls } = createFetchStub((_call) => buildProviderResponse(['first', 'second', 'third']));
 
     await withPage(async (page) => {
       const result = await runTranslationInChromium(
@@ -326,6 +335,8 @@ describe('translation adapter (chromium)', () => {
 
       expect(result).toEqual(['first', 'second']);
     });
+
+    expect(calls).toHaveLength(1);
   });
 
   it('validates provider configuration and API keys', async () => {
@@ -514,21 +525,23 @@ describe('translation adapter (chromium)', () => {
       await expect(
         runTranslationInChromium(page, { texts: ['bonjour'], sourceLanguage: 'fr', targetLanguage: 'en' }, {
           fetchFn,
-          loadSettingsFn: async () => config
+          loadSettingsFn: async () => config,
+          sleepFn: async () => undefined
         })
       ).rejects.toThrow(/responded with status 429/);
     });
   });
 
-  it('fails when the provider payload cannot be parsed as JSON', async () => {
+  it('throws after retrying a provider payload that cannot be parsed as JSON', async () => {
     const config: TranslationSettings = {
+      ...DEFAULT_TRANSLATION_SETTINGS,
       provider: 'openai',
       apiKey: 'key',
       apiBaseUrl: '',
       model: ''
     };
 
-    const { fetchFn } = createFetchStub((_call) => buildProviderResponse([], { content: '{' }));
+    const { fetchFn, calls } = createFetchStub((_call) => buildProviderResponse([], { content: '{' }));
 
     await withPage(async (page) => {
       await expect(
@@ -538,6 +551,8 @@ describe('translation adapter (chromium)', () => {
         })
       ).rejects.toThrow(/malformed JSON/);
     });
+
+    expect(calls).toHaveLength(2);
   });
 
   it('throws when the provider content array lacks text nodes', async () => {
@@ -563,6 +578,7 @@ describe('translation adapter (chromium)', () => {
 
   it('throws when the provider response omits the translations array', async () => {
     const config: TranslationSettings = {
+      ...DEFAULT_TRANSLATION_SETTINGS,
       provider: 'openai',
       apiKey: 'key',
       apiBaseUrl: '',
@@ -626,7 +642,7 @@ describe('translation adapter (chromium)', () => {
     });
   });
 
-  it('normalizes non-string translations into empty strings', async () => {
+  it('re-requests cues whose translation is not a string', async () => {
     const config: TranslationSettings = {
       provider: 'openai',
       apiKey: 'key',
@@ -634,8 +650,15 @@ describe('translation adapter (chromium)', () => {
       model: ''
     };
 
-    const translations = JSON.stringify({ translations: ['OK', 123] });
-    const { fetchFn } = createFetchStub((_call) => buildProviderResponse([], { content: translations }));
+    const translations = JSON.stringify({
+      translations: [
+        { id: 1, text: 'OK' },
+        { id: 2, text: 123 }
+      ]
+    });
+    const { fetchFn } = createFetchStub((call) =>
+      call.index === 0 ? buildProviderResponse([], { content: translations }) : buildProviderResponse(['TWO'])
+    );
 
     await withPage(async (page) => {
       const result = await runTranslationInChromium(
@@ -643,7 +666,7 @@ describe('translation adapter (chromium)', () => {
         { texts: ['one', 'two'], sourceLanguage: 'fr', targetLanguage: 'en' },
         { fetchFn, loadSettingsFn: async () => config }
       );
-      expect(result).toEqual(['OK', '']);
+      expect(result).toEqual(['OK', 'TWO']);
     });
   });
   it('translates via Demo provider without network calls', async () => {
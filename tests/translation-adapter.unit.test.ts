@@ -0,0 +1,1193 @@
+import { describe, expect, it, onTestFinished, vi } from 'vitest';
+import { loadTranslationSettings, translateTexts } from '../src/shared/translation-adapter';
+import { extensionBrowser } from '../src/shared/browser';
+import { getTranslationProvider } from '../src/shared/providers/registry';
+import type { RemoteProviderDefinition } from '../src/shared/providers/types';
+import { createTranslationMemory, type TranslationMemory } from '../src/shared/translation-memory';
+import type { StorageAreaLike } from '../src/shared/storage';
+import {
+  DEFAULT_TRANSLATION_SETTINGS,
+  type TranslationProviderConfig,
+  type TranslationSettings
+} from '../src/shared/translation-settings';
+
+vi.mock('../src/shared/browser', () => ({
+  extensionBrowser: { runtime: { lastError: undefined }, storage: {} }
+}));
+
+const openAiSettings: TranslationSettings = {
+  ...DEFAULT_TRANSLATION_SETTINGS,
+  provider: 'openai',
+  apiKey: 'key',
+  apiBaseUrl: 'https://llm.example.com/v1',
+  model: 'gpt-test'
+};
+
+const readSegments = (init?: RequestInit): string[] => {
+  const payload = JSON.parse(String(init?.body));
+  const userMessage = payload.messages.find((message: { role: string }) => message.role === 'user');
+  return JSON.parse(userMessage.content).segments.map((segment: { text: string }) => segment.text);
+};
+
+const tagTranslations = (translations: string[]) => translations.map((text, index) => ({ id: index + 1, text }));
+
+const createProviderFetch = (translate: (segments: string[]) => string[]) =>
+  vi.fn(async (_url: string, init?: RequestInit) => {
+    const translations = translate(readSegments(init));
+    return new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify({ translations: tagTranslations(translations) }) } }] }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  });
+
+const createMemoryStub = (remembered: Record<string, string> = {}): TranslationMemory => ({
+  lookup: vi.fn(async (_scope, texts: string[]) => texts.map((text) => remembered[text])),
+  store: vi.fn(async () => undefined),
+  getStats: vi.fn(async () => ({ hits: 0, misses: 0 }))
+});
+
+const createMemoryStorageArea = (): StorageAreaLike => {
+  const data: Record<string, unknown> = {};
+  return {
+    get: (defaults: Record<string, unknown>, callback: (items: Record<string, unknown>) => void) => {
+      const items = Object.fromEntries(
+        Object.entries(defaults).map(([key, fallback]) => [key, key in data ? structuredClone(data[key]) : fallback])
+      );
+      setTimeout(() => callback(items), 0);
+    },
+    set: (items: Record<string, unknown>, callback?: () => void) => {
+      Object.assign(data, structuredClone(items));
+      setTimeout(() => callback?.(), 0);
+    }
+  } as unknown as StorageAreaLike;
+};
+
+describe('translateTexts', () => {
+  describe('blank input', () => {
+    it('returns nothing for an empty request without loading the settings', async () => {
+      const loadSettingsFn = vi.fn(async () => openAiSettings);
+
+      expect(await translateTexts({ texts: [], sourceLanguage: 'fr', targetLanguage: 'en' }, { loadSettingsFn })).toEqual([]);
+      expect(loadSettingsFn).not.toHaveBeenCalled();
+    });
+
+    it('returns blank cues without calling the provider', async () => {
+      const fetchFn = createProviderFetch((segments) => segments);
+
+      const result = await translateTexts(
+        { texts: ['', '  '], sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn, loadSettingsFn: async () => openAiSettings }
+      );
+
+      expect(result).toEqual(['', '']);
+      expect(fetchFn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('translation memory', () => {
+    it('only sends memory misses to the provider and stores their translations', async () => {
+      const translationMemory = createMemoryStub({ 'Générique': 'Credits' });
+      const fetchFn = createProviderFetch((segments) => segments.map((text) => `EN ${text}`));
+
+      const result = await translateTexts(
+        { texts: ['Générique', 'Bonjour', ''], sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn, loadSettingsFn: async () => openAiSettings, translationMemory }
+      );
+
+      expect(result).toEqual(['Credits', 'EN Bonjour', '']);
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+      expect(readSegments(fetchFn.mock.calls[0][1])).toEqual(['Bonjour']);
+      expect(translationMemory.lookup).toHaveBeenCalledWith(
+        {
+          sourceLanguage: 'fr',
+          targetLanguage: 'en',
+          provider: 'openai',
+          model: 'gpt-test',
+          contextWindowSize: 3,
+          promptHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+          glossaryHash: expect.stringMatching(/^[0-9a-f]{64}$/)
+        },
+        ['Générique', 'Bonjour']
+      );
+      expect(translationMemory.store).toHaveBeenCalledWith(expect.objectContaining({ provider: 'openai' }), [
+        { source: 'Bonjour', translation: 'EN Bonjour' }
+      ]);
+    });
+
+    it('does not reuse translations made with another number of context cues', async () => {
+      const translationMemory = createTranslationMemory({ storageArea: createMemoryStorageArea() });
+      const fetchFn = createProviderFetch((segments) => segments.map((text) => `EN ${text}`));
+      const request = { texts: ['Bonjour'], sourceLanguage: 'fr', targetLanguage: 'en' };
+
+      await translateTexts(request, { fetchFn, loadSettingsFn: async () => openAiSettings, translationMemory });
+      await translateTexts(request, {
+        fetchFn,
+        loadSettingsFn: async () => ({ ...openAiSettings, contextWindowSize: 0 }),
+        translationMemory
+      });
+
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+    });
+
+    it.each([
+      ['another preset', { promptPreset: 'formal' }],
+      ['a custom template', { promptPreset: 'custom', customPromptTemplate: 'Translate {{sourceLanguage}} plainly.' }]
+    ] as const)('does not reuse translations made with %s', async (_label, overrides) => {
+      const translationMemory = createTranslationMemory({ storageArea: createMemoryStorageArea() });
+      const fetchFn = createProviderFetch((segments) => segments.map((text) => `EN ${text}`));
+      const request = { texts: ['Bonjour'], sourceLanguage: 'fr', targetLanguage: 'en' };
+
+      await translateTexts(request, { fetchFn, loadSettingsFn: async () => openAiSettings, translationMemory });
+      await translateTexts(request, {
+        fetchFn,
+        loadSettingsFn: async () => ({ ...openAiSettings, ...overrides }),
+        translationMemory
+      });
+
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not reuse translations made with other glossary entries', async () => {
+      const translationMemory = createTranslationMemory({ storageArea: createMemoryStorageArea() });
+      const fetchFn = createProviderFetch((segments) => segments.map((text) => `EN ${text}`));
+      const request = { texts: ['La mairie ferme.'], sourceLanguage: 'fr', targetLanguage: 'en' };
+      const deps = { fetchFn, loadSettingsFn: async () => openAiSettings, translationMemory };
+
+      await translateTexts({ ...request, glossary: [{ source: 'mairie', target: 'town hall' }] }, deps);
+      await translateTexts({ ...request, glossary: [{ source: 'mairie', target: 'city hall' }] }, deps);
+      await translateTexts({ ...request, glossary: [{ source: 'mairie', target: 'city hall' }] }, deps);
+
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+    });
+
+    it('skips the provider entirely when every cue is remembered', async () => {
+      const translationMemory = createMemoryStub({ un: 'one', deux: 'two' });
+      const fetchFn = createProviderFetch(() => []);
+
+      const result = await translateTexts(
+        { texts: ['un', 'deux'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn, loadSettingsFn: async () => openAiSettings, translationMemory }
+      );
+
+      expect(result).toEqual(['one', 'two']);
+      expect(fetchFn).not.toHaveBeenCalled();
+    });
+
+    it('falls back to the provider when the memory is unavailable', async () => {
+      const translationMemory = createMemoryStub();
+      vi.mocked(translationMemory.lookup).mockRejectedValue(new Error('quota'));
+      vi.mocked(translationMemory.store).mockRejectedValue(new Error('quota'));
+      const fetchFn = createProviderFetch((segments) => segments.map((text) => `EN ${text}`));
+
+      const result = await translateTexts(
+        { texts: ['Bonjour'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn, loadSettingsFn: async () => openAiSettings, translationMemory }
+      );
+
+      expect(result).toEqual(['EN Bonjour']);
+    });
+
+    it('remembers every batch when concurrent batches store their translations', async () => {
+      const translationMemory = createTranslationMemory({ storageArea: createMemoryStorageArea() });
+      const texts = Array.from({ length: 12 }, (_value, index) => `Réplique ${index + 1}`);
+      const request = { texts, sourceLanguage: 'fr', targetLanguage: 'en' };
+      const deps = {
+        loadSettingsFn: async () => ({ ...DEFAULT_TRANSLATION_SETTINGS, provider: 'demo' as const, maxConcurrentRequests: 3 }),
+        translationMemory,
+        maxBatchSize: 2
+      };
+
+      await translateTexts(request, deps);
+      await translateTexts(request, deps);
+
+      expect(await translationMemory.getStats()).toEqual({ hits: 12, misses: 12 });
+    });
+
+    it('asks for condensed translations within their length limit without using the memory', async () => {
+      const translationMemory = createMemoryStub({ 'Je ne sais pas du tout': 'I have no idea at all' });
+      const fetchFn = createProviderFetch(() => ['No idea']);
+
+      const result = await translateTexts(
+        { texts: ['Je ne sais pas du tout'], sourceLanguage: 'fr', targetLanguage: 'en', maxCharacters: [12] },
+        { fetchFn, loadSettingsFn: async () => openAiSettings, translationMemory }
+      );
+
+      const payload = JSON.parse(String(fetchFn.mock.calls[0][1]?.body));
+      expect(result).toEqual(['No idea']);
+      expect(payload.messages[0].content).toContain('maxCharacters');
+      expect(JSON.parse(payload.messages[1].content).segments).toEqual([
+        { id: 1, text: 'Je ne sais pas du tout', maxCharacters: 12 }
+      ]);
+      expect(translationMemory.lookup).not.toHaveBeenCalled();
+      expect(translationMemory.store).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('progressive results', () => {
+    it('reports remembered cues first and then each batch in playback order', async () => {
+      const translationMemory = createMemoryStub({ deux: 'two' });
+      const fetchFn = createProviderFetch((segments) => segments.map((text) => `EN ${text}`));
+      const onBatchTranslated = vi.fn();
+
+      await translateTexts(
+        { texts: ['un', 'deux', 'trois', 'quatre'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        {
+          fetchFn,
+          loadSettingsFn: async () => ({ ...openAiSettings, maxConcurrentRequests: 1 }),
+          translationMemory,
+          maxBatchSize: 2,
+          onBatchTranslated
+        }
+      );
+
+      expect(onBatchTranslated.mock.calls).toEqual([
+        [[{ index: 1, text: 'two', provider: 'openai' }]],
+        [
+          [
+            { index: 0, text: 'EN un', provider: 'openai' },
+            { index: 2, text: 'EN trois', provider: 'openai' }
+          ]
+        ],
+        [[{ index: 3, text: 'EN quatre', provider: 'openai' }]]
+      ]);
+    });
+
+    it('keeps translating when a progress listener throws', async () => {
+      const fetchFn = createProviderFetch((segments) => segments.map((text) => `EN ${text}`));
+
+      const result = await translateTexts(
+        { texts: ['un'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        {
+          fetchFn,
+          loadSettingsFn: async () => openAiSettings,
+          onBatchTranslated: () => {
+            throw new Error('listener failed');
+          }
+        }
+      );
+
+      expect(result).toEqual(['EN un']);
+    });
+  });
+
+  describe('playback prioritisation', () => {
+    const texts = ['un', 'deux', 'trois', 'quatre'];
+    const timings = [
+      { start: 0, end: 10 },
+      { start: 10, end: 20 },
+      { start: 20, end: 30 },
+      { start: 30, end: 40 }
+    ];
+
+    it('translates the batch around the playhead first and follows seeks', async () => {
+      const fetchFn = createProviderFetch((segments) => segments.map((text) => `EN ${text}`));
+      const positions = [25, 25, 0];
+      const getPlaybackPosition = vi.fn(() => positions.shift());
+
+      const result = await translateTexts(
+        { texts, timings, sourceLanguage: 'fr', targetLanguage: 'en' },
+        {
+          fetchFn,
+          loadSettingsFn: async () => ({ ...openAiSettings, maxConcurrentRequests: 1 }),
+          maxBatchSize: 1,
+          getPlaybackPosition
+        }
+      );
+
+      expect(result).toEqual(['EN un', 'EN deux', 'EN trois', 'EN quatre']);
+      expect(fetchFn.mock.calls.map(([, init]) => readSegments(init)[0])).toEqual(['trois', 'quatre', 'un', 'deux']);
+    });
+  });
+
+  describe('concurrency and rate limiting', () => {
+    const providerResponse = (translations: string[], init: ResponseInit = {}) =>
+      new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify({ translations: tagTranslations(translations) }) } }] }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+        ...init
+      });
+
+    // Answers after a short delay and records the most requests in flight at once
+    const createConcurrencyFetch = () => {
+      const tracker = { inFlight: 0, maxInFlight: 0 };
+      const fetchFn = vi.fn(async (_url: string, init?: RequestInit) => {
+        tracker.inFlight += 1;
+        tracker.maxInFlight = Math.max(tracker.maxInFlight, tracker.inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        tracker.inFlight -= 1;
+        return providerResponse(readSegments(init).map((text) => `EN ${text}`));
+      });
+      return { fetchFn, tracker };
+    };
+
+    it('dispatches batches concurrently up to the configured limit', async () => {
+      const { fetchFn, tracker } = createConcurrencyFetch();
+
+      const result = await translateTexts(
+        { texts: ['a', 'b', 'c', 'd', 'e'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        {
+          fetchFn,
+          loadSettingsFn: async () => ({ ...openAiSettings, maxConcurrentRequests: 2 }),
+          maxBatchSize: 1
+        }
+      );
+
+      expect(result).toEqual(['EN a', 'EN b', 'EN c', 'EN d', 'EN e']);
+      expect(fetchFn).toHaveBeenCalledTimes(5);
+      expect(tracker.maxInFlight).toBe(2);
+    });
+
+    it('falls back to the default limit when the configured one is below one', async () => {
+      const { fetchFn, tracker } = createConcurrencyFetch();
+
+      await translateTexts(
+        { texts: ['a', 'b', 'c', 'd', 'e'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        {
+          fetchFn,
+          loadSettingsFn: async () => ({ ...openAiSettings, maxConcurrentRequests: 0 }),
+          maxBatchSize: 1
+        }
+      );
+
+      expect(tracker.maxInFlight).toBe(DEFAULT_TRANSLATION_SETTINGS.maxConcurrentRequests);
+    });
+
+    it('waits for the rate limiter before each request', async () => {
+      const rateLimiter = { reserve: vi.fn().mockReturnValueOnce(0).mockReturnValue(250), pause: vi.fn() };
+      const sleepFn = vi.fn(async () => undefined);
+      const fetchFn = createProviderFetch((segments) => segments.map((text) => `EN ${text}`));
+
+      await translateTexts(
+        { texts: ['a', 'b'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn, loadSettingsFn: async () => openAiSettings, maxBatchSize: 1, rateLimiter, sleepFn }
+      );
+
+      expect(sleepFn.mock.calls).toEqual([[0], [250]]);
+    });
+
+    it('retries HTTP 429 responses after the Retry-After delay', async () => {
+      const rateLimiter = { reserve: vi.fn().mockReturnValue(0), pause: vi.fn() };
+      const sleepFn = vi.fn(async () => undefined);
+      const fetchFn = vi
+        .fn()
+        .mockResolvedValueOnce(new Response('{}', { status: 429, headers: { 'Retry-After': '3' } }))
+        .mockResolvedValueOnce(new Response('{}', { status: 429 }))
+        .mockResolvedValueOnce(providerResponse(['Hello']));
+
+      const result = await translateTexts(
+        { texts: ['Bonjour'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn, loadSettingsFn: async () => openAiSettings, rateLimiter, sleepFn }
+      );
+
+      expect(result).toEqual(['Hello']);
+      expect(rateLimiter.pause.mock.calls).toEqual([[3000], [2000]]);
+    });
+
+    it('gives up once the provider keeps answering HTTP 429', async () => {
+      const rateLimiter = { reserve: vi.fn().mockReturnValue(0), pause: vi.fn() };
+      const fetchFn = vi.fn(async () => new Response('{}', { status: 429 }));
+
+      await expect(
+        translateTexts(
+          { texts: ['Bonjour'], sourceLanguage: 'fr', targetLanguage: 'en' },
+          { fetchFn, loadSettingsFn: async () => openAiSettings, rateLimiter, sleepFn: async () => undefined }
+        )
+      ).rejects.toThrow(/responded with status 429/);
+      expect(fetchFn).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('usage accounting', () => {
+    it('reports the usage block of every provider response', async () => {
+      const fetchFn = vi.fn(async (_url: string, init?: RequestInit) => {
+        const translations = tagTranslations(readSegments(init).map((text) => `EN ${text}`));
+        const body = {
+          choices: [{ message: { content: JSON.stringify({ translations }) } }],
+          usage: { prompt_tokens: 120, completion_tokens: 30 }
+        };
+        return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+      });
+      const onUsage = vi.fn();
+
+      await translateTexts(
+        { texts: ['Bonjour', 'Salut'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn, loadSettingsFn: async () => openAiSettings, onUsage }
+      );
+
+      expect(onUsage).toHaveBeenCalledWith({
+        provider: 'openai',
+        model: 'gpt-test',
+        inputTokens: 120,
+        outputTokens: 30,
+        characters: 12
+      });
+    });
+
+    it('estimates tokens when the response carries no usage block', async () => {
+      const onUsage = vi.fn();
+
+      await translateTexts(
+        { texts: ['Bonjour'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn: createProviderFetch((segments) => segments), loadSettingsFn: async () => openAiSettings, onUsage }
+      );
+
+      const [usage] = onUsage.mock.calls[0];
+      expect(usage.inputTokens).toBeGreaterThan(0);
+      expect(usage.outputTokens).toBeGreaterThan(0);
+      expect(usage.characters).toBe(7);
+    });
+
+    it('keeps translating when the usage listener throws', async () => {
+      const onUsage = vi.fn(() => {
+        throw new Error('ledger is full');
+      });
+
+      const result = await translateTexts(
+        { texts: ['Bonjour'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn: createProviderFetch(() => ['Hello']), loadSettingsFn: async () => openAiSettings, onUsage }
+      );
+
+      expect(result).toEqual(['Hello']);
+      expect(onUsage).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('spending budget', () => {
+    const budgetSettings: TranslationSettings = { ...openAiSettings, budgetLimit: 1, maxConcurrentRequests: 1 };
+    const createLedgerStub = (...costs: number[]) => {
+      const getSpending = vi.fn(async () => ({
+        key: '2024-03',
+        totals: { requests: 0, inputTokens: 0, outputTokens: 0, characters: 0 },
+        cost: costs.length > 1 ? costs.shift()! : costs[0]
+      }));
+      return { getSpending };
+    };
+
+    it('refuses to dispatch once the cap is reached', async () => {
+      const fetchFn = createProviderFetch((segments) => segments);
+      const usageLedger = createLedgerStub(1.2);
+
+      await expect(
+        translateTexts(
+          { texts: ['Bonjour'], sourceLanguage: 'fr', targetLanguage: 'en' },
+          { fetchFn, loadSettingsFn: async () => budgetSettings, usageLedger }
+        )
+      ).rejects.toMatchObject({ kind: 'budget', message: expect.stringContaining('budget of $1.00 is used up') });
+      expect(fetchFn).not.toHaveBeenCalled();
+      expect(usageLedger.getSpending).toHaveBeenCalledWith('month', budgetSettings.priceTable);
+    });
+
+    it('stops the remaining batches when the cap is reached mid-request', async () => {
+      const fetchFn = createProviderFetch((segments) => segments.map((text) => `EN ${text}`));
+      const onSegmentsFailed = vi.fn();
+
+      const result = await translateTexts(
+        { texts: ['un', 'deux', 'trois'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        {
+          fetchFn,
+          loadSettingsFn: async () => budgetSettings,
+          maxBatchSize: 1,
+          usageLedger: createLedgerStub(0.5, 1),
+          onSegmentsFailed
+        }
+      );
+
+      expect(result).toEqual(['EN un', 'deux', 'trois']);
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+      expect(onSegmentsFailed).toHaveBeenCalledWith([1, 2], expect.objectContaining({ kind: 'budget' }));
+    });
+
+    it('warns once when spending passes the warning threshold', async () => {
+      const onBudgetWarning = vi.fn();
+
+      await translateTexts(
+        { texts: ['un', 'deux'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        {
+          fetchFn: createProviderFetch((segments) => segments),
+          loadSettingsFn: async () => budgetSettings,
+          maxBatchSize: 1,
+          usageLedger: createLedgerStub(0.85),
+          onBudgetWarning
+        }
+      );
+
+      expect(onBudgetWarning).toHaveBeenCalledTimes(1);
+      expect(onBudgetWarning).toHaveBeenCalledWith('85% of the monthly translation budget is used ($0.85 of $1.00).');
+    });
+
+    it('keeps translating when the warning listener throws', async () => {
+      const onBudgetWarning = vi.fn(() => {
+        throw new Error('popup closed');
+      });
+
+      const result = await translateTexts(
+        { texts: ['Bonjour'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        {
+          fetchFn: createProviderFetch(() => ['Hello']),
+          loadSettingsFn: async () => budgetSettings,
+          usageLedger: createLedgerStub(0.85),
+          onBudgetWarning
+        }
+      );
+
+      expect(result).toEqual(['Hello']);
+      expect(onBudgetWarning).toHaveBeenCalledTimes(1);
+    });
+
+    it('translates without enforcing the cap when spending cannot be read', async () => {
+      const fetchFn = createProviderFetch(() => ['Hello']);
+      const usageLedger = { getSpending: vi.fn(async () => Promise.reject(new Error('ledger unreadable'))) };
+
+      const result = await translateTexts(
+        { texts: ['Bonjour'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn, loadSettingsFn: async () => budgetSettings, usageLedger }
+      );
+
+      expect(result).toEqual(['Hello']);
+      expect(usageLedger.getSpending).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not read spending without a cap', async () => {
+      const usageLedger = createLedgerStub(100);
+
+      await translateTexts(
+        { texts: ['Bonjour'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn: createProviderFetch((segments) => segments), loadSettingsFn: async () => openAiSettings, usageLedger }
+      );
+
+      expect(usageLedger.getSpending).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('token-aware batching', () => {
+    const batchSizes = (fetchFn: ReturnType<typeof createProviderFetch>) =>
+      fetchFn.mock.calls.map(([, init]) => readSegments(init).length);
+    const longCue = (index: number) => `${index} ${'une réplique assez longue '.repeat(23)}`;
+
+    it('packs short cues up to the segment cap', async () => {
+      const fetchFn = createProviderFetch((segments) => segments.map((text) => `EN ${text}`));
+
+      await translateTexts(
+        { texts: Array.from({ length: 45 }, (_value, index) => `mot${index}`), sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn, loadSettingsFn: async () => openAiSettings }
+      );
+
+      expect(batchSizes(fetchFn)).toEqual([40, 5]);
+    });
+
+    it("cuts batches of long cues to fit the model's output limit", async () => {
+      const fetchFn = createProviderFetch((segments) => segments.map((text) => `EN ${text}`));
+      const texts = Array.from({ length: 20 }, (_value, index) => longCue(index));
+
+      await translateTexts(
+        { texts, sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn, loadSettingsFn: async () => ({ ...openAiSettings, maxConcurrentRequests: 1 }) }
+      );
+      expect(batchSizes(fetchFn)).toEqual([13, 7]);
+
+      fetchFn.mockClear();
+      await translateTexts(
+        { texts, sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn, loadSettingsFn: async () => ({ ...openAiSettings, model: 'gpt-4o-mini' }) }
+      );
+      expect(batchSizes(fetchFn)).toEqual([20]);
+    });
+  });
+
+  describe('neighbouring cue context', () => {
+    const readUserPayload = (init?: RequestInit) => {
+      const payload = JSON.parse(String(init?.body));
+      const userMessage = payload.messages.find((message: { role: string }) => message.role === 'user');
+      return JSON.parse(userMessage.content);
+    };
+
+    it('sends read-only cues around each batch, skipping blank cues', async () => {
+      const fetchFn = createProviderFetch((segments) => segments.map((text) => `EN ${text}`));
+
+      const result = await translateTexts(
+        { texts: ['Il était', '', 'une fois', 'un roi', 'très', 'vieux'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        {
+          fetchFn,
+          loadSettingsFn: async () => ({ ...openAiSettings, maxConcurrentRequests: 1, contextWindowSize: 1 }),
+          maxBatchSize: 2
+        }
+      );
+
+      expect(result).toEqual(['EN Il était', '', 'EN une fois', 'EN un roi', 'EN très', 'EN vieux']);
+      expect(fetchFn.mock.calls.map(([, init]) => readUserPayload(init))).toEqual([
+        expect.objectContaining({ contextBefore: [], segments: tagTranslations(['Il était', 'une fois']), contextAfter: ['un roi'] }),
+        expect.objectContaining({ contextBefore: ['une fois'], segments: tagTranslations(['un roi', 'très']), contextAfter: ['vieux'] }),
+        expect.objectContaining({ contextBefore: ['très'], segments: tagTranslations(['vieux']), contextAfter: [] })
+      ]);
+    });
+
+    it('omits context when the window size is zero', async () => {
+      const fetchFn = createProviderFetch((segments) => segments.map((text) => `EN ${text}`));
+
+      await translateTexts(
+        { texts: ['un', 'deux', 'trois'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        {
+          fetchFn,
+          loadSettingsFn: async () => ({ ...openAiSettings, maxConcurrentRequests: 1, contextWindowSize: 0 }),
+          maxBatchSize: 1
+        }
+      );
+
+      const payload = readUserPayload(fetchFn.mock.calls[1][1]);
+      expect(payload).toMatchObject({ contextBefore: [], segments: [{ id: 1, text: 'deux' }], contextAfter: [] });
+    });
+
+    it('sends the default number of context cues when the window size is invalid', async () => {
+      const fetchFn = createProviderFetch((segments) => segments.map((text) => `EN ${text}`));
+
+      await translateTexts(
+        { texts: ['un', 'deux', 'trois', 'quatre', 'cinq'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        {
+          fetchFn,
+          loadSettingsFn: async () => ({ ...openAiSettings, maxConcurrentRequests: 1, contextWindowSize: -1 }),
+          maxBatchSize: 1
+        }
+      );
+
+      expect(readUserPayload(fetchFn.mock.calls[0][1]).contextAfter).toEqual(['deux', 'trois', 'quatre']);
+    });
+  });
+
+  describe('glossary', () => {
+    it('lists only the glossary terms found in each batch in the prompt', async () => {
+      const fetchFn = createProviderFetch((segments) => segments.map((text) => `EN ${text}`));
+      const readSystemPrompt = (init?: RequestInit) =>
+        JSON.parse(String(init?.body)).messages.find((message: { role: string }) => message.role === 'system').content;
+
+      await translateTexts(
+        {
+          texts: ['Le flic arrive.', 'Il va à la mairie.'],
+          sourceLanguage: 'fr',
+          targetLanguage: 'en',
+          glossary: [
+            { source: 'flic', target: 'cop' },
+            { source: 'mairie', target: 'town hall' }
+          ]
+        },
+        { fetchFn, loadSettingsFn: async () => ({ ...openAiSettings, maxConcurrentRequests: 1 }), maxBatchSize: 1 }
+      );
+
+      const prompts = fetchFn.mock.calls.map(([, init]) => readSystemPrompt(init));
+      expect(prompts[0]).toContain('flic → cop');
+      expect(prompts[0]).not.toContain('mairie');
+      expect(prompts[1]).toContain('mairie → town hall');
+    });
+  });
+
+  describe('failure recovery', () => {
+    const noSleep = async () => undefined;
+    const rateLimiter = { reserve: () => 0, pause: () => undefined };
+    const providerResponse = (content: string, status = 200) =>
+      new Response(JSON.stringify({ choices: [{ message: { content } }] }), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+      });
+
+    it('retries transient HTTP and network failures with jittered backoff', async () => {
+      const sleepFn = vi.fn(noSleep);
+      const fetchFn = vi
+        .fn()
+        .mockResolvedValueOnce(new Response('{}', { status: 503 }))
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(providerResponse(JSON.stringify({ translations: tagTranslations(['Hello']) })));
+
+      const result = await translateTexts(
+        { texts: ['Bonjour'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn, loadSettingsFn: async () => openAiSettings, rateLimiter, sleepFn }
+      );
+
+      expect(result).toEqual(['Hello']);
+      expect(fetchFn).toHaveBeenCalledTimes(3);
+      const backoffDelays = sleepFn.mock.calls.map(([delay]) => delay).filter((delay) => delay > 0);
+      backoffDelays.forEach((delay, attempt) => expect(delay).toBeLessThanOrEqual(500 * 2 ** attempt));
+    });
+
+    it('reports network failures that are not errors', async () => {
+      const fetchFn = vi.fn(async () => Promise.reject('offline'));
+
+      await expect(
+        translateTexts(
+          { texts: ['Bonjour'], sourceLanguage: 'fr', targetLanguage: 'en' },
+          { fetchFn, loadSettingsFn: async () => openAiSettings, rateLimiter, sleepFn: noSleep }
+        )
+      ).rejects.toThrow('Translation provider request failed: offline');
+      expect(fetchFn).toHaveBeenCalledTimes(4);
+    });
+
+    it('stops retrying transient failures after the retry budget', async () => {
+      const fetchFn = vi.fn(async () => new Response('{}', { status: 500 }));
+
+      await expect(
+        translateTexts(
+          { texts: ['Bonjour'], sourceLanguage: 'fr', targetLanguage: 'en' },
+          { fetchFn, loadSettingsFn: async () => openAiSettings, rateLimiter, sleepFn: noSleep }
+        )
+      ).rejects.toThrow(/responded with status 500/);
+      expect(fetchFn).toHaveBeenCalledTimes(4);
+    });
+
+    it('does not retry authentication failures', async () => {
+      const fetchFn = vi.fn(async () => new Response('{}', { status: 401 }));
+
+      await expect(
+        translateTexts(
+          { texts: ['Bonjour'], sourceLanguage: 'fr', targetLanguage: 'en' },
+          { fetchFn, loadSettingsFn: async () => openAiSettings, rateLimiter, sleepFn: noSleep }
+        )
+      ).rejects.toThrow(/responded with status 401/);
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+    });
+
+    it('splits batches with malformed output down to the single cue that keeps failing', async () => {
+      const fetchFn = vi.fn(async (_url: string, init?: RequestInit) => {
+        const segments = readSegments(init);
+        if (segments.includes('cassé')) {
+          return providerResponse('{ not json');
+        }
+        return providerResponse(JSON.stringify({ translations: tagTranslations(segments.map((text) => `EN ${text}`)) }));
+      });
+      const translationMemory = createMemoryStub();
+
+      const result = await translateTexts(
+        { texts: ['un', 'deux', 'cassé', 'quatre'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn, loadSettingsFn: async () => openAiSettings, rateLimiter, sleepFn: noSleep, translationMemory }
+      );
+
+      expect(result).toEqual(['EN un', 'EN deux', 'cassé', 'EN quatre']);
+      expect(fetchFn.mock.calls.map(([, init]) => readSegments(init))).toEqual([
+        ['un', 'deux', 'cassé', 'quatre'],
+        ['un', 'deux', 'cassé', 'quatre'],
+        ['un', 'deux'],
+        ['cassé', 'quatre'],
+        ['cassé', 'quatre'],
+        ['cassé'],
+        ['cassé'],
+        ['quatre']
+      ]);
+      const storedSources = vi
+        .mocked(translationMemory.store)
+        .mock.calls.flatMap(([, entries]) => entries.map((entry) => entry.source));
+      expect(storedSources).toEqual(['un', 'deux', 'quatre']);
+    });
+
+    it('passes on errors other than malformed output while translating the halves of a split batch', async () => {
+      const fetchFn = vi.fn(async (_url: string, init?: RequestInit) =>
+        readSegments(init).length > 1 ? providerResponse('{ not json') : new Response('{}', { status: 401 })
+      );
+
+      await expect(
+        translateTexts(
+          { texts: ['un', 'deux'], sourceLanguage: 'fr', targetLanguage: 'en' },
+          { fetchFn, loadSettingsFn: async () => openAiSettings, rateLimiter, sleepFn: noSleep }
+        )
+      ).rejects.toThrow(/responded with status 401/);
+      expect(fetchFn).toHaveBeenCalledTimes(3);
+    });
+
+    it('re-requests cues whose ids are missing or garbled instead of shifting the rest', async () => {
+      const fetchFn = vi.fn(async (_url: string, init?: RequestInit) => {
+        const segments = readSegments(init);
+        if (segments.length === 1) {
+          return providerResponse(JSON.stringify({ translations: [{ id: '1', text: `EN ${segments[0]}` }] }));
+        }
+        // Skips "deux", answers "trois" twice and invents a fifth cue
+        const translations = [
+          { id: 1, text: 'EN un' },
+          { id: 3, text: 'EN trois' },
+          { id: 3, text: 'EN trois bis' },
+          { id: 4, text: 'EN quatre' },
+          { id: 5, text: 'EN cinq' }
+        ];
+        return providerResponse(JSON.stringify({ translations }));
+      });
+
+      const result = await translateTexts(
+        { texts: ['un', 'deux', 'trois', 'quatre'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn, loadSettingsFn: async () => openAiSettings, rateLimiter, sleepFn: noSleep }
+      );
+
+      expect(result).toEqual(['EN un', 'EN deux', 'EN trois', 'EN quatre']);
+      expect(fetchFn.mock.calls.map(([, init]) => readSegments(init))).toEqual([
+        ['un', 'deux', 'trois', 'quatre'],
+        ['deux'],
+        ['trois']
+      ]);
+    });
+
+    it('treats a reply leaving out the only cue of a batch as malformed', async () => {
+      const provider = getTranslationProvider('openai') as RemoteProviderDefinition;
+      const parseResponse = vi.spyOn(provider, 'parseResponse').mockReturnValue([null]);
+      onTestFinished(() => parseResponse.mockRestore());
+      const fetchFn = createProviderFetch((segments) => segments);
+
+      await expect(
+        translateTexts(
+          { texts: ['Bonjour'], sourceLanguage: 'fr', targetLanguage: 'en' },
+          { fetchFn, loadSettingsFn: async () => openAiSettings, rateLimiter, sleepFn: noSleep }
+        )
+      ).rejects.toMatchObject({ kind: 'malformed', message: 'Translation provider did not return the requested cue.' });
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+    });
+
+    it('treats replies without ids as malformed rather than trusting their order', async () => {
+      const fetchFn = vi.fn(async () => providerResponse(JSON.stringify({ translations: ['Hello'] })));
+
+      await expect(
+        translateTexts(
+          { texts: ['Bonjour'], sourceLanguage: 'fr', targetLanguage: 'en' },
+          { fetchFn, loadSettingsFn: async () => openAiSettings, rateLimiter, sleepFn: noSleep }
+        )
+      ).rejects.toThrow(/does not match any requested cue id/);
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps translating after a batch the provider gave up on and reports its error', async () => {
+      const fetchFn = vi.fn(async (_url: string, init?: RequestInit) => {
+        const segments = readSegments(init);
+        if (segments.includes('cassé')) {
+          return providerResponse('{ not json');
+        }
+        return providerResponse(JSON.stringify({ translations: tagTranslations(segments.map((text) => `EN ${text}`)) }));
+      });
+      const onSegmentsFailed = vi.fn();
+
+      const result = await translateTexts(
+        { texts: ['cassé', 'un'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        {
+          fetchFn,
+          loadSettingsFn: async () => ({ ...openAiSettings, maxConcurrentRequests: 1 }),
+          maxBatchSize: 1,
+          rateLimiter,
+          sleepFn: noSleep,
+          onSegmentsFailed
+        }
+      );
+
+      expect(result).toEqual(['cassé', 'EN un']);
+      expect(onSegmentsFailed).toHaveBeenCalledWith([0], expect.objectContaining({ kind: 'malformed' }));
+      expect(fetchFn).toHaveBeenCalledTimes(3);
+    });
+
+    it('reports failed cues and keeps the batches that succeeded', async () => {
+      const fetchFn = vi.fn(async (_url: string, init?: RequestInit) => {
+        const segments = readSegments(init);
+        if (segments.includes('trois')) {
+          return new Response('{}', { status: 503 });
+        }
+        return providerResponse(JSON.stringify({ translations: tagTranslations(segments.map((text) => `EN ${text}`)) }));
+      });
+      const onSegmentsFailed = vi.fn();
+
+      const result = await translateTexts(
+        { texts: ['un', 'deux', 'trois', 'quatre'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        {
+          fetchFn,
+          loadSettingsFn: async () => ({ ...openAiSettings, maxConcurrentRequests: 1 }),
+          maxBatchSize: 2,
+          rateLimiter,
+          sleepFn: noSleep,
+          onSegmentsFailed
+        }
+      );
+
+      expect(result).toEqual(['EN un', 'EN deux', 'trois', 'quatre']);
+      expect(onSegmentsFailed).toHaveBeenCalledWith([2, 3], expect.any(Error));
+    });
+
+    it('stops dispatching after an authentication failure and reports the remaining cues', async () => {
+      const translationMemory = createMemoryStub({ un: 'one' });
+      const fetchFn = vi.fn(async () => new Response('{}', { status: 401 }));
+      const onSegmentsFailed = vi.fn();
+
+      const result = await translateTexts(
+        { texts: ['un', 'deux', 'trois'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        {
+          fetchFn,
+          loadSettingsFn: async () => ({ ...openAiSettings, maxConcurrentRequests: 1 }),
+          maxBatchSize: 1,
+          rateLimiter,
+          sleepFn: noSleep,
+          translationMemory,
+          onSegmentsFailed
+        }
+      );
+
+      expect(result).toEqual(['one', 'deux', 'trois']);
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+      expect(onSegmentsFailed).toHaveBeenCalledWith([1, 2], expect.any(Error));
+    });
+
+    it('throws when no cue could be translated even with a failure listener', async () => {
+      const fetchFn = vi.fn(async () => new Response('{}', { status: 401 }));
+      const onSegmentsFailed = vi.fn();
+
+      await expect(
+        translateTexts(
+          { texts: ['un', 'deux'], sourceLanguage: 'fr', targetLanguage: 'en' },
+          { fetchFn, loadSettingsFn: async () => openAiSettings, rateLimiter, sleepFn: noSleep, onSegmentsFailed }
+        )
+      ).rejects.toThrow(/responded with status 401/);
+      expect(onSegmentsFailed).not.toHaveBeenCalled();
+    });
+
+    it('throws when the provider gave up on every cue even with a failure listener', async () => {
+      const fetchFn = vi.fn(async () => providerResponse('{ not json'));
+      const onSegmentsFailed = vi.fn();
+
+      await expect(
+        translateTexts(
+          { texts: ['un', 'deux'], sourceLanguage: 'fr', targetLanguage: 'en' },
+          { fetchFn, loadSettingsFn: async () => openAiSettings, rateLimiter, sleepFn: noSleep, onSegmentsFailed }
+        )
+      ).rejects.toThrow(expect.objectContaining({ kind: 'malformed' }));
+      expect(onSegmentsFailed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('provider fallback', () => {
+    const noSleep = async () => undefined;
+    const rateLimiter = { reserve: () => 0, pause: () => undefined };
+    const chainSettings: TranslationSettings = {
+      ...openAiSettings,
+      maxConcurrentRequests: 1,
+      fallbackProviders: [
+        { provider: 'mistral', apiBaseUrl: 'https://fallback.example.com/v1', apiKey: 'mistral-key', model: '' }
+      ]
+    };
+    // The primary provider answers with `primaryStatus`; the fallback translates everything
+    const createChainFetch = (primaryStatus: (segments: string[]) => number) =>
+      vi.fn(async (url: string, init?: RequestInit) => {
+        const segments = readSegments(init);
+        const prefix = url.startsWith('https://fallback.example.com') ? 'MISTRAL' : 'OPENAI';
+        const status = prefix === 'OPENAI' ? primaryStatus(segments) : 200;
+        if (status !== 200) {
+          return new Response('{}', { status });
+        }
+        const translations = segments.map((text) => `${prefix} ${text}`);
+        return new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify({ translations: tagTranslations(translations) }) } }] }), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      });
+
+    it('hands a batch to the next provider on quota errors and skips the exhausted one afterwards', async () => {
+      const fetchFn = createChainFetch(() => 429);
+      const onBatchTranslated = vi.fn();
+      const translationMemory = createMemoryStub();
+
+      const result = await translateTexts(
+        { texts: ['un', 'deux'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        {
+          fetchFn,
+          loadSettingsFn: async () => chainSettings,
+          maxBatchSize: 1,
+          rateLimiter,
+          sleepFn: noSleep,
+          translationMemory,
+          onBatchTranslated
+        }
+      );
+
+      expect(result).toEqual(['MISTRAL un', 'MISTRAL deux']);
+      expect(fetchFn.mock.calls.map(([url]) => new URL(url).host)).toEqual([
+        'llm.example.com',
+        'llm.example.com',
+        'llm.example.com',
+        'llm.example.com',
+        'fallback.example.com',
+        'fallback.example.com'
+      ]);
+      expect(onBatchTranslated.mock.calls.flatMap(([segments]) => segments)).toEqual([
+        { index: 0, text: 'MISTRAL un', provider: 'mistral' },
+        { index: 1, text: 'MISTRAL deux', provider: 'mistral' }
+      ]);
+      expect(translationMemory.store).toHaveBeenCalledWith(
+        expect.objectContaining({ provider: 'mistral', model: 'mistral-large-latest' }),
+        [{ source: 'un', translation: 'MISTRAL un' }]
+      );
+    });
+
+    it('falls back after repeated transient errors but keeps trying the primary provider', async () => {
+      const fetchFn = createChainFetch((segments) => (segments.includes('un') ? 503 : 200));
+
+      const result = await translateTexts(
+        { texts: ['un', 'deux'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        { fetchFn, loadSettingsFn: async () => chainSettings, maxBatchSize: 1, rateLimiter, sleepFn: noSleep }
+      );
+
+      expect(result).toEqual(['MISTRAL un', 'OPENAI deux']);
+    });
+
+    it('does not fall back on errors another provider would not fix', async () => {
+      const fetchFn = createChainFetch(() => 400);
+
+      await expect(
+        translateTexts(
+          { texts: ['un'], sourceLanguage: 'fr', targetLanguage: 'en' },
+          { fetchFn, loadSettingsFn: async () => chainSettings, rateLimiter, sleepFn: noSleep }
+        )
+      ).rejects.toThrow(/responded with status 400/);
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+    });
+
+    it('skips providers without a key and uses the fallback when the primary one has none', async () => {
+      const fetchFn = createChainFetch(() => 200);
+
+      const result = await translateTexts(
+        { texts: ['un'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        {
+          fetchFn,
+          loadSettingsFn: async () => ({
+            ...chainSettings,
+            apiKey: '',
+            fallbackProviders: [
+              { provider: 'anthropic', apiBaseUrl: '', apiKey: '', model: '' },
+              ...chainSettings.fallbackProviders
+            ]
+          }),
+          rateLimiter,
+          sleepFn: noSleep
+        }
+      );
+
+      expect(result).toEqual(['MISTRAL un']);
+    });
+
+    it('reports the primary provider error when no provider in the chain is usable', async () => {
+      await expect(
+        translateTexts(
+          { texts: ['un'], sourceLanguage: 'fr', targetLanguage: 'en' },
+          {
+            fetchFn: createChainFetch(() => 200),
+            loadSettingsFn: async () => ({ ...openAiSettings, apiKey: '' })
+          }
+        )
+      ).rejects.toThrow('Translation provider API key is required.');
+    });
+
+    it('fills in the connection details a fallback entry leaves out', async () => {
+      const result = await translateTexts(
+        { texts: ['un'], sourceLanguage: 'fr', targetLanguage: 'en' },
+        {
+          fetchFn: createChainFetch(() => 401),
+          loadSettingsFn: async () => ({
+            ...chainSettings,
+            fallbackProviders: [{ provider: 'demo' } as TranslationProviderConfig]
+          }),
+          rateLimiter,
+          sleepFn: noSleep
+        }
+      );
+
+      expect(result).toEqual(['DEMO TRANSLATION: UN']);
+    });
+
+    it('uses the primary provider alone when settings saved by earlier versions list no fallbacks', async () => {
+      const fetchFn = createChainFetch(() => 401);
+
+      await expect(
+        translateTexts(
+          { texts: ['un'], sourceLanguage: 'fr', targetLanguage: 'en' },
+          {
+            fetchFn,
+            loadSettingsFn: async () => ({ ...openAiSettings, fallbackProviders: undefined }) as unknown as TranslationSettings,
+            rateLimiter,
+            sleepFn: noSleep
+          }
+        )
+      ).rejects.toThrow(/responded with status 401/);
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('stored settings', () => {
+    const createStorageArea = (stored: Partial<TranslationSettings>) =>
+      ({
+        get: (defaults: Record<string, unknown>, callback: (items: Record<string, unknown>) => void) =>
+          callback({ ...defaults, ...stored })
+      }) as unknown as StorageAreaLike;
+
+    const installStorage = (areas: { sync?: StorageAreaLike; local?: StorageAreaLike }) => {
+      Object.assign(extensionBrowser.storage, areas);
+      onTestFinished(() => {
+        delete (extensionBrowser.storage as { sync?: StorageAreaLike }).sync;
+        delete (extensionBrowser.storage as { local?: StorageAreaLike }).local;
+      });
+    };
+
+    it('reads the lists kept in local storage over those synced by earlier versions', async () => {
+      const glossaries = [{ series: '', entries: [{ source: 'Arte', target: 'Arte' }] }];
+      const translationProfiles = [{ name: 'Docs', match: ['RC-014036'], settings: {} }];
+      installStorage({
+        sync: createStorageArea({ provider: 'deepl', glossaries, customPromptTemplate: 'Old template' }),
+        local: createStorageArea({ translationProfiles, customPromptTemplate: 'New template' })
+      });
+
+      expect(await loadTranslationSettings()).toMatchObject({
+        provider: 'deepl',
+        glossaries,
+        translationProfiles,
+        customPromptTemplate: 'New template'
+      });
+    });
+
+    it('clears the Mistral endpoint earlier versions saved as the default for every provider', async () => {
+      installStorage({ sync: createStorageArea({ provider: 'deepl', apiBaseUrl: 'https://api.mistral.ai/v1/chat/completions' }) });
+
+      expect(await loadTranslationSettings()).toMatchObject({ provider: 'deepl', apiBaseUrl: '' });
+    });
+
+    it('keeps base URLs chosen by the user', async () => {
+      installStorage({ sync: createStorageArea({ provider: 'ollama', apiBaseUrl: 'http://192.168.1.20:11434' }) });
+
+      expect(await loadTranslationSettings()).toMatchObject({ apiBaseUrl: 'http://192.168.1.20:11434' });
+    });
+
+    it('reads every setting from sync storage when there is no local storage', async () => {
+      installStorage({ sync: createStorageArea({ provider: 'deepl', customPromptTemplate: 'Synced template' }) });
+
+      expect(await loadTranslationSettings()).toMatchObject({ provider: 'deepl', customPromptTemplate: 'Synced template' });
+    });
+
+    it('reads every setting from local storage when there is no sync storage', async () => {
+      installStorage({ local: createStorageArea({ provider: 'deepl', glossaries: [] }) });
+
+      expect(await loadTranslationSettings()).toMatchObject({ provider: 'deepl', glossaries: [] });
+    });
+
+    it('throws when the browser offers no storage', async () => {
+      await expect(loadTranslationSettings()).rejects.toThrow('Translation preferences storage is unavailable.');
+    });
+
+    it.each([
+      [{ message: 'QUOTA_BYTES quota exceeded' }, 'QUOTA_BYTES quota exceeded'],
+      [{}, 'Unable to read translation preferences.']
+    ])('rejects with the error the browser reports while reading', async (lastError, message) => {
+      const runtime = extensionBrowser.runtime as { lastError?: { message?: string } };
+      installStorage({
+        sync: {
+          get: (_defaults: Record<string, unknown>, callback: (items: Record<string, unknown>) => void) => {
+            runtime.lastError = lastError;
+            callback({});
+            runtime.lastError = undefined;
+          }
+        } as unknown as StorageAreaLike
+      });
+
+      await expect(loadTranslationSettings()).rejects.toThrow(message);
+    });
+
+    it('translates with the stored settings unless others are passed', async () => {
+      installStorage({ sync: createStorageArea({ provider: 'demo' }) });
+
+      expect(await translateTexts({ texts: ['Bonjour'], sourceLanguage: 'fr', targetLanguage: 'en' })).toEqual([
+        'DEMO TRANSLATION: BONJOUR'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  TRANSLATION_CACHE_STORAGE_KEY,
+  computeTranslationCacheKey,
+  createTranslationCache
+} from '../src/shared/translation-cache';
+import type { StorageAreaLike } from '../src/shared/storage';
+
+vi.mock('../src/shared/browser', () => ({
+  extensionBrowser: { runtime: { lastError: undefined } }
+}));
+
+const createMemoryStorageArea = (): StorageAreaLike & { data: Record<string, unknown> } => {
+  const data: Record<string, unknown> = {};
+  return {
+    data,
+    get: ((defaults: Record<string, unknown>, callback: (items: Record<string, unknown>) => void) => {
+      const items: Record<string, unknown> = {};
+      Object.entries(defaults).forEach(([key, fallback]) => {
+        items[key] = key in data ? structuredClone(data[key]) : fallback;
+      });
+      setTimeout(() => callback(items), 0);
+    }) as unknown as StorageAreaLike['get'],
+    set: ((items: Record<string, unknown>, callback?: () => void) => {
+      Object.assign(data, structuredClone(items));
+      setTimeout(() => callback?.(), 0);
+    }) as unknown as StorageAreaLike['set']
+  };
+};
+
+describe('translation cache', () => {
+  it('derives distinct keys from the VTT content and provider configuration', async () => {
+    const base = { vttText: 'WEBVTT', provider: 'openai', model: 'gpt', targetLanguage: 'en' };
+    const key = await computeTranslationCacheKey(base);
+
+    expect(key).toMatch(/^openai:gpt:en:[0-9a-f]{64}$/);
+    expect(await computeTranslationCacheKey(base)).toBe(key);
+    expect(await computeTranslationCacheKey({ ...base, vttText: 'WEBVTT\n' })).not.toBe(key);
+    expect(await computeTranslationCacheKey({ ...base, targetLanguage: 'de' })).not.toBe(key);
+  });
+
+  it('folds further translation settings into the VTT digest', async () => {
+    const base = { vttText: 'WEBVTT', provider: 'openai', model: 'gpt', targetLanguage: 'en', settings: { contextWindowSize: 2 } };
+    const key = await computeTranslationCacheKey(base);
+
+    expect(key).toMatch(/^openai:gpt:en:[0-9a-f]{64}$/);
+    expect(await computeTranslationCacheKey({ ...base, settings: { contextWindowSize: 2 } })).toBe(key);
+    expect(await computeTranslationCacheKey({ ...base, settings: { contextWindowSize: 0 } })).not.toBe(key);
+  });
+
+  it('returns stored translations and misses unknown keys', async () => {
+    const storageArea = createMemoryStorageArea();
+    const cache = createTranslationCache({ storageArea });
+
+    await cache.set('a', ['Hello']);
+
+    expect(await cache.get('a')).toEqual(['Hello']);
+    expect(await cache.get('b')).toBeNull();
+  });
+
+  it('expires entries older than the TTL', async () => {
+    const storageArea = createMemoryStorageArea();
+    const now = vi.fn().mockReturnValue(1_000);
+    const cache = createTranslationCache({ storageArea, now, ttlMs: 500 });
+
+    await cache.set('a', ['Hello']);
+    now.mockReturnValue(1_600);
+
+    expect(await cache.get('a')).toBeNull();
+    expect(storageArea.data[TRANSLATION_CACHE_STORAGE_KEY]).toEqual({});
+  });
+
+  it('evicts the least recently used entries beyond the entry limit', async () => {
+    const storageArea = createMemoryStorageArea();
+    let clock = 0;
+    const cache = createTranslationCache({ storageArea, now: () => (clock += 1), maxEntries: 2 });
+
+    await cache.set('a', ['A']);
+    await cache.set('b', ['B']);
+    await cache.get('a');
+    await cache.set('c', ['C']);
+
+    expect(await cache.get('a')).toEqual(['A']);
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.get('c')).toEqual(['C']);
+  });
+
+  it('evicts entries once the byte budget is exceeded', async () => {
+    const storageArea = createMemoryStorageArea();
+    let clock = 0;
+    const cache = createTranslationCache({ storageArea, now: () => (clock += 1), maxBytes: 20 });
+
+    await cache.set('a', ['0123456789']);
+    await cache.set('b', ['abcdefghij']);
+
+    expect(await cache.get('a')).toBeNull();
+    expect(await cache.get('b')).toEqual(['abcdefghij']);
+  });
+
+  it('keeps every entry when gets and sets overlap', async () => {
+    const storageArea = createMemoryStorageArea();
+    let clock = 0;
+    const cache = createTranslationCache({ storageArea, now: () => (clock += 1) });
+    await cache.set('a', ['A']);
+
+    await Promise.all([cache.set('b', ['B']), cache.get('a'), cache.set('c', ['C']), cache.get('a')]);
+
+    expect(await cache.get('a')).toEqual(['A']);
+    expect(await cache.get('b')).toEqual(['B']);
+    expect(await cache.get('c')).toEqual(['C']);
+  });
+
+  it('clears every entry', async () => {
+    const storageArea = createMemoryStorageArea();
+    const cache = createTranslationCache({ storageArea });
+
+    await cache.set('a', ['A']);
+    await cache.clear();
+
+    expect(await cache.get('a')).toBeNull();
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { TranslationProviderError, classifyHttpStatus, getErrorKind } from '../src/shared/translation-errors';
+
+describe('translation errors', () => {
+  it('classifies provider HTTP statuses', () => {
+    expect(classifyHttpStatus(401)).toBe('auth');
+    expect(classifyHttpStatus(403)).toBe('auth');
+    expect(classifyHttpStatus(402)).toBe('quota');
+    expect(classifyHttpStatus(429)).toBe('quota');
+    expect(classifyHttpStatus(408)).toBe('transient');
+    expect(classifyHttpStatus(502)).toBe('transient');
+    expect(classifyHttpStatus(400)).toBe('fatal');
+  });
+
+  it('treats unknown errors as fatal', () => {
+    expect(getErrorKind(new TranslationProviderError('boom', 'malformed', 200))).toBe('malformed');
+    expect(getErrorKind(new Error('boom'))).toBe('fatal');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  TRANSLATION_MEMORY_STORAGE_KEY,
+  computeHitRate,
+  createTranslationMemory,
+  type TranslationMemoryScope
+} from '../src/shared/translation-memory';
+import type { StorageAreaLike } from '../src/shared/storage';
+
+vi.mock('../src/shared/browser', () => ({
+  extensionBrowser: { runtime: { lastError: undefined } }
+}));
+
+const createMemoryStorageArea = (): StorageAreaLike & { data: Record<string, unknown> } => {
+  const data: Record<string, unknown> = {};
+  return {
+    data,
+    get: ((defaults: Record<string, unknown>, callback: (items: Record<string, unknown>) => void) => {
+      const items: Record<string, unknown> = {};
+      Object.entries(defaults).forEach(([key, fallback]) => {
+        items[key] = key in data ? structuredClone(data[key]) : fallback;
+      });
+      setTimeout(() => callback(items), 0);
+    }) as unknown as StorageAreaLike['get'],
+    set: ((items: Record<string, unknown>, callback?: () => void) => {
+      Object.assign(data, structuredClone(items));
+      setTimeout(() => callback?.(), 0);
+    }) as unknown as StorageAreaLike['set']
+  };
+};
+
+const scope: TranslationMemoryScope = {
+  sourceLanguage: 'fr',
+  targetLanguage: 'en',
+  provider: 'mistral',
+  model: 'mistral-large-latest',
+  contextWindowSize: 3,
+  promptHash: 'standard',
+  glossaryHash: 'none'
+};
+
+describe('translation memory', () => {
+  it('reuses translations for normalized source text within the same scope', async () => {
+    const memory = createTranslationMemory({ storageArea: createMemoryStorageArea() });
+
+    await memory.store(scope, [{ source: 'Sous-titrage :  ARTE', translation: 'Subtitles: ARTE' }]);
+
+    expect(await memory.lookup(scope, [' Sous-titrage : ARTE ', 'Bonjour'])).toEqual(['Subtitles: ARTE', undefined]);
+    expect(await memory.lookup({ ...scope, targetLanguage: 'de' }, ['Sous-titrage : ARTE'])).toEqual([undefined]);
+    expect(await memory.lookup({ ...scope, model: 'other' }, ['Sous-titrage : ARTE'])).toEqual([undefined]);
+    expect(await memory.lookup({ ...scope, contextWindowSize: 0 }, ['Sous-titrage : ARTE'])).toEqual([undefined]);
+    expect(await memory.lookup({ ...scope, promptHash: 'formal' }, ['Sous-titrage : ARTE'])).toEqual([undefined]);
+    expect(await memory.lookup({ ...scope, glossaryHash: 'series' }, ['Sous-titrage : ARTE'])).toEqual([undefined]);
+  });
+
+  it('accumulates hit and miss statistics across lookups', async () => {
+    const memory = createTranslationMemory({ storageArea: createMemoryStorageArea() });
+
+    await memory.store(scope, [{ source: 'Générique', translation: 'Credits' }]);
+    await memory.lookup(scope, ['Générique', 'Bonjour']);
+    await memory.lookup(scope, ['Générique']);
+
+    const stats = await memory.getStats();
+    expect(stats).toEqual({ hits: 2, misses: 1 });
+    expect(computeHitRate(stats)).toBeCloseTo(2 / 3);
+    expect(computeHitRate({ hits: 0, misses: 0 })).toBe(0);
+  });
+
+  it('drops the least recently used entries beyond the size limit', async () => {
+    const storageArea = createMemoryStorageArea();
+    let clock = 0;
+    const memory = createTranslationMemory({ storageArea, now: () => (clock += 1), maxEntries: 2 });
+
+    await memory.store(scope, [{ source: 'un', translation: 'one' }]);
+    await memory.store(scope, [{ source: 'deux', translation: 'two' }]);
+    await memory.lookup(scope, ['un']);
+    await memory.store(scope, [{ source: 'trois', translation: 'three' }]);
+
+    expect(Object.keys(storageArea.data[TRANSLATION_MEMORY_STORAGE_KEY] as object)).toHaveLength(2);
+    expect(await memory.lookup(scope, ['un', 'deux', 'trois'])).toEqual(['one', undefined, 'three']);
+  });
+
+  it('keeps every entry and statistic when lookups and stores overlap', async () => {
+    const memory = createTranslationMemory({ storageArea: createMemoryStorageArea() });
+    const sources = ['un', 'deux', 'trois', 'quatre', 'cinq', 'six'];
+
+    await Promise.all([
+      ...sources.map((source) => memory.store(scope, [{ source, translation: source.toUpperCase() }])),
+      memory.lookup(scope, ['sept']),
+      memory.lookup(scope, ['huit'])
+    ]);
+
+    expect(await memory.lookup(scope, sources)).toEqual(sources.map((source) => source.toUpperCase()));
+    expect(await memory.getStats()).toEqual({ hits: 6, misses: 2 });
+  });
+
+  it('ignores empty store calls', async () => {
+    const storageArea = createMemoryStorageArea();
+    const memory = createTranslationMemory({ storageArea });
+
+    await memory.store(scope, []);
+
+    expect(storageArea.data).toEqual({});
+  });
+});
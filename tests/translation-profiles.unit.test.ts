@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TRANSLATION_SETTINGS } from '../src/shared/translation-settings';
+import {
+  extractArteProgramme,
+  findTranslationProfile,
+  findTranslationProfileError,
+  resolveProgrammeSettings,
+  type TranslationProfile
+} from '../src/shared/translation-profiles';
+
+describe('extractArteProgramme', () => {
+  it('reads programme and collection IDs from page and subtitle URLs', () => {
+    expect(extractArteProgramme('https://www.arte.tv/fr/videos/117798-002-A/les-papillons-noirs-2-6/')).toEqual({
+      programmeId: '117798-002-A'
+    });
+    expect(extractArteProgramme('https://www.arte.tv/de/videos/RC-021423/die-schwarzen-schmetterlinge/')).toEqual({
+      collectionId: 'RC-021423'
+    });
+    expect(extractArteProgramme('https://arte-cmafhls.akamaized.net/medias/117798-000-A_st_VF-MAL.vtt')).toEqual({
+      programmeId: '117798-000-A'
+    });
+    expect(extractArteProgramme('https://www.arte.tv/fr/')).toEqual({});
+  });
+});
+
+describe('findTranslationProfile', () => {
+  const profiles: TranslationProfile[] = [
+    { name: 'Fiction', match: ['papillons'], settings: { promptPreset: 'casual' } },
+    { name: 'Series', match: ['117798', 'RC-021423'], settings: { model: 'mistral-large-latest' } },
+    { name: 'Pilot', match: ['117798-001-A'], settings: { model: 'mistral-medium-latest' } },
+    { name: 'Documentaries', match: [], settings: { promptPreset: 'formal' } }
+  ];
+  const settings = { ...DEFAULT_TRANSLATION_SETTINGS, translationProfiles: profiles };
+
+  it('prefers the most specific match rule', () => {
+    expect(findTranslationProfile(settings, { programmeId: '117798-001-A', title: 'Les Papillons noirs' })?.name).toBe(
+      'Pilot'
+    );
+    expect(findTranslationProfile(settings, { programmeId: '117798-002-A', title: 'Les Papillons noirs' })?.name).toBe(
+      'Series'
+    );
+    expect(findTranslationProfile(settings, { collectionId: 'rc-021423' })?.name).toBe('Series');
+    expect(findTranslationProfile(settings, { title: 'Les Papillons noirs' })?.name).toBe('Fiction');
+  });
+
+  it('falls back to the default profile and then to the main settings', () => {
+    expect(findTranslationProfile(settings, { title: 'Le Dessous des cartes' })).toBeNull();
+    expect(
+      resolveProgrammeSettings({ ...settings, defaultTranslationProfile: 'Documentaries' }, { title: 'Le Dessous des cartes' })
+    ).toMatchObject({ promptPreset: 'formal', model: '' });
+  });
+});
+
+describe('resolveProgrammeSettings', () => {
+  const settings = { ...DEFAULT_TRANSLATION_SETTINGS, provider: 'openai' as const, apiBaseUrl: 'https://llm.example.com/v1' };
+  const resolve = (profileSettings: TranslationProfile['settings']) =>
+    resolveProgrammeSettings(
+      { ...settings, translationProfiles: [{ name: 'Docs', match: ['RC-014036'], settings: profileSettings }] },
+      { collectionId: 'RC-014036' }
+    );
+
+  it("uses the endpoint of the profile's provider unless the profile sets a base URL", () => {
+    expect(resolve({ provider: 'deepl' })).toMatchObject({ provider: 'deepl', apiBaseUrl: '' });
+    expect(resolve({ provider: 'ollama', apiBaseUrl: 'http://nas:11434' })).toMatchObject({ apiBaseUrl: 'http://nas:11434' });
+    expect(resolve({ provider: 'openai', model: 'gpt-4.1' })).toMatchObject({ apiBaseUrl: 'https://llm.example.com/v1' });
+    expect(resolve({ promptPreset: 'formal' })).toMatchObject({ apiBaseUrl: 'https://llm.example.com/v1' });
+  });
+});
+
+describe('findTranslationProfileError', () => {
+  it('accepts valid profiles and explains invalid ones', () => {
+    expect(findTranslationProfileError([{ name: 'Docs', match: ['RC-014036'], settings: { provider: 'deepl' } }])).toBeNull();
+    expect(findTranslationProfileError({})).toBe('Profiles must be a JSON list');
+    expect(findTranslationProfileError([{ name: '', match: [], settings: {} }])).toBe('Profile 1 needs a name');
+    expect(findTranslationProfileError([{ name: 'Docs', match: [], settings: { budgetLimit: 3 } }])).toBe(
+      'Profile "Docs" cannot override budgetLimit'
+    );
+    expect(findTranslationProfileError([{ name: 'Docs', match: [], settings: { provider: 'babelfish' } }])).toBe(
+      'Profile "Docs" has an invalid provider'
+    );
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getTranslationProvider,
+  isSupportedProvider,
+  listTranslationProviders,
+  SUPPORTED_TRANSLATION_PROVIDERS
+} from '../src/shared/providers/registry';
+import type { ProviderBatch, RemoteProviderDefinition } from '../src/shared/providers/types';
+import { DEFAULT_TRANSLATION_SETTINGS } from '../src/shared/translation-settings';
+
+const batch: ProviderBatch = {
+  segments: ['Bonjour', 'Salut'],
+  contextBefore: ['Avant'],
+  contextAfter: [],
+  sourceLanguage: 'fr',
+  targetLanguage: 'en'
+};
+
+const chatResponse = (content: unknown) => ({ choices: [{ message: { content } }] });
+
+describe('provider registry', () => {
+  it('lists every registered provider in options order', () => {
+    expect(SUPPORTED_TRANSLATION_PROVIDERS).toEqual([
+      'openai',
+      'mistral',
+      'anthropic',
+      'deepl',
+      'google',
+      'google-v3',
+      'azure',
+      'ollama',
+      'libretranslate',
+      'demo'
+    ]);
+    expect(listTranslationProviders().map((provider) => provider.label)).toEqual([
+      'OpenAI',
+      'Mistral',
+      'Anthropic',
+      'DeepL',
+      'Google Cloud Translation (v2)',
+      'Google Cloud Translation (v3)',
+      'Azure Translator',
+      'Ollama (local)',
+      'LibreTranslate (local)',
+      'Demo'
+    ]);
+    expect(isSupportedProvider('mistral')).toBe(true);
+    expect(isSupportedProvider('toString')).toBe(false);
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() => getTranslationProvider('babelfish')).toThrow(/Unsupported translation provider: babelfish/);
+  });
+
+  it('translates demo batches locally without an API key', () => {
+    const demo = getTranslationProvider('demo');
+
+    expect(demo.capabilities.requiresApiKey).toBe(false);
+    expect('translateLocally' in demo && demo.translateLocally(batch)).toEqual([
+      'DEMO TRANSLATION: BONJOUR',
+      'DEMO TRANSLATION: SALUT'
+    ]);
+  });
+});
+
+describe('chat completions providers', () => {
+  const openai = getTranslationProvider('openai') as RemoteProviderDefinition;
+
+  it('builds a JSON chat request with context kept apart from the segments', () => {
+    const request = openai.buildRequest(batch, {
+      baseUrl: 'https://llm.example.com/v1',
+      model: 'gpt-test',
+      settings: DEFAULT_TRANSLATION_SETTINGS
+    });
+    const payload = JSON.parse(request.body);
+    const userPayload = JSON.parse(payload.messages[1].content);
+
+    expect(request.url).toBe('https://llm.example.com/v1/chat/completions');
+    expect(payload.model).toBe('gpt-test');
+    expect(userPayload).toMatchObject({
+      contextBefore: ['Avant'],
+      segments: [
+        { id: 1, text: 'Bonjour' },
+        { id: 2, text: 'Salut' }
+      ],
+      contextAfter: []
+    });
+    expect(payload.response_format).toMatchObject({ type: 'json_schema', json_schema: { strict: true } });
+    expect(openai.auth).toEqual({ type: 'header', name: 'Authorization', prefix: 'Bearer ' });
+  });
+
+  it('keeps base URLs that already point at the completions endpoint', () => {
+    const request = openai.buildRequest(batch, {
+      baseUrl: 'https://api.mistral.ai/v1/chat/completions',
+      model: 'm',
+      settings: DEFAULT_TRANSLATION_SETTINGS
+    });
+
+    expect(request.url).toBe('https://api.mistral.ai/v1/chat/completions');
+  });
+
+  it('renders the selected prompt template into the system message, followed by the reply format', () => {
+    const request = openai.buildRequest(
+      { ...batch, showTitle: 'Les Papillons noirs' },
+      {
+        baseUrl: 'https://llm.example.com/v1',
+        model: 'gpt-test',
+        settings: {
+          ...DEFAULT_TRANSLATION_SETTINGS,
+          promptPreset: 'custom',
+          customPromptTemplate: 'Translate {{sourceLanguage}} into casual {{targetLanguage}} for "{{showTitle}}".'
+        }
+      }
+    );
+    const systemPrompt: string = JSON.parse(request.body).messages[0].content;
+
+    expect(systemPrompt).toMatch(/^Translate fr into casual en for "Les Papillons noirs"\.\n/);
+    expect(systemPrompt).toContain('Reply with JSON: {"translations":[{"id":1,"text":"string"}]}.');
+  });
+
+  it('parses string and multi-part message content', () => {
+    const translations = JSON.stringify({
+      translations: [
+        { id: 1, text: 'Hello' },
+        { id: 2, text: 'Hi' }
+      ]
+    });
+
+    expect(openai.parseResponse(chatResponse(translations), 2)).toEqual(['Hello', 'Hi']);
+    expect(openai.parseResponse(chatResponse([{ type: 'text', text: translations }]), 2)).toEqual(['Hello', 'Hi']);
+  });
+
+  it('matches replies by id and leaves cues with missing or repeated ids empty', () => {
+    const translations = JSON.stringify({
+      translations: [
+        { id: 3, text: 'Three' },
+        { id: 1, text: 'One' },
+        { id: 4, text: 'Four' },
+        { id: 4, text: 'Four again' },
+        { id: 9, text: 'Nine' }
+      ]
+    });
+
+    expect(openai.parseResponse(chatResponse(translations), 4)).toEqual(['One', null, 'Three', null]);
+  });
+
+  it('flags unparseable replies as malformed', () => {
+    expect(() => openai.parseResponse(chatResponse('{ nope'), 1)).toThrow(
+      expect.objectContaining({ kind: 'malformed' })
+    );
+    expect(() => openai.parseResponse({ choices: [] }, 1)).toThrow(
+      expect.objectContaining({ kind: 'malformed', message: expect.stringMatching(/empty response/) })
+    );
+    expect(() => openai.parseResponse(chatResponse([{ type: 'image_url' }]), 1)).toThrow(
+      expect.objectContaining({ kind: 'malformed', message: expect.stringMatching(/unsupported response payload/) })
+    );
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, expect, it, vi } from 'vitest';
+import { USAGE_LEDGER_STORAGE_KEY, createUsageLedger, type TranslationUsage } from '../src/shared/usage-ledger';
+import { DEFAULT_PRICE_TABLE, computeUsageCost, isPriceTable, resolvePrice } from '../src/shared/usage-pricing';
+import type { StorageAreaLike } from '../src/shared/storage';
+import { evaluateBudget } from '../src/shared/spending-budget';
+import { DEFAULT_TRANSLATION_SETTINGS } from '../src/shared/translation-settings';
+
+vi.mock('../src/shared/browser', () => ({
+  extensionBrowser: { runtime: { lastError: undefined } }
+}));
+
+const createMemoryStorageArea = (): StorageAreaLike & { data: Record<string, unknown> } => {
+  const data: Record<string, unknown> = {};
+  return {
+    data,
+    get: ((defaults: Record<string, unknown>, callback: (items: Record<string, unknown>) => void) => {
+      const items: Record<string, unknown> = {};
+      Object.entries(defaults).forEach(([key, fallback]) => {
+        items[key] = key in data ? structuredClone(data[key]) : fallback;
+      });
+      // Answer asynchronously, like chrome.storage, so overlapping writes would race
+      setTimeout(() => callback(items), 0);
+    }) as unknown as StorageAreaLike['get'],
+    set: ((items: Record<string, unknown>, callback?: () => void) => {
+      Object.assign(data, structuredClone(items));
+      setTimeout(() => callback?.(), 0);
+    }) as unknown as StorageAreaLike['set']
+  };
+};
+
+const mistralUsage: TranslationUsage = {
+  provider: 'mistral',
+  model: 'mistral-large-latest',
+  inputTokens: 1_000,
+  outputTokens: 500,
+  characters: 800
+};
+const deeplUsage: TranslationUsage = { provider: 'deepl', model: '', inputTokens: 0, outputTokens: 0, characters: 2_000 };
+
+// 2024-03-10 and 2024-03-11 at noon local time
+const DAY_ONE = new Date(2024, 2, 10, 12).getTime();
+const DAY_TWO = new Date(2024, 2, 11, 12).getTime();
+
+describe('usage ledger', () => {
+  it('aggregates usage per video, per day and per provider and prices it', async () => {
+    const storageArea = createMemoryStorageArea();
+    let clock = DAY_ONE;
+    const ledger = createUsageLedger({ storageArea, now: () => clock });
+
+    await ledger.record('https://example.com/episode-1.vtt', mistralUsage);
+    await ledger.record('https://example.com/episode-1.vtt', deeplUsage);
+    clock = DAY_TWO;
+    await ledger.record('https://example.com/episode-2.vtt', mistralUsage);
+
+    const summary = await ledger.getSummary(DEFAULT_PRICE_TABLE);
+
+    // Mistral large: 1000 × $2/M + 500 × $6/M; DeepL: 2000 × $25/M
+    expect(summary.today).toEqual({
+      key: '2024-03-11',
+      totals: { requests: 1, inputTokens: 1_000, outputTokens: 500, characters: 800 },
+      cost: 0.005
+    });
+    expect(summary.providers).toEqual([
+      expect.objectContaining({ key: 'mistral', totals: expect.objectContaining({ requests: 2 }), cost: 0.01 }),
+      expect.objectContaining({ key: 'deepl', cost: 0.05 })
+    ]);
+    expect(summary.videos.map((line) => [line.key, line.cost])).toEqual([
+      ['https://example.com/episode-2.vtt', 0.005],
+      ['https://example.com/episode-1.vtt', 0.055]
+    ]);
+  });
+
+  it('does not lose usage recorded by batches finishing at the same time', async () => {
+    const ledger = createUsageLedger({ storageArea: createMemoryStorageArea(), now: () => DAY_ONE });
+
+    await Promise.all(Array.from({ length: 5 }, () => ledger.record('episode', mistralUsage)));
+
+    const summary = await ledger.getSummary({});
+    expect(summary.today.totals.requests).toBe(5);
+    expect(summary.today.cost).toBe(0);
+  });
+
+  it('sums spending over the current day or month', async () => {
+    const storageArea = createMemoryStorageArea();
+    let clock = new Date(2024, 1, 29, 12).getTime();
+    const ledger = createUsageLedger({ storageArea, now: () => clock });
+
+    await ledger.record('https://example.com/episode-1.vtt', mistralUsage);
+    clock = DAY_ONE;
+    await ledger.record('https://example.com/episode-1.vtt', deeplUsage);
+    clock = DAY_TWO;
+    await ledger.record('https://example.com/episode-2.vtt', mistralUsage);
+
+    expect(await ledger.getSpending('day', DEFAULT_PRICE_TABLE)).toMatchObject({ key: '2024-03-11', cost: 0.005 });
+    expect(await ledger.getSpending('month', DEFAULT_PRICE_TABLE)).toEqual({
+      key: '2024-03',
+      totals: { requests: 2, inputTokens: 1_000, outputTokens: 500, characters: 2_800 },
+      cost: 0.055
+    });
+  });
+
+  it('keeps only the most recent videos', async () => {
+    const storageArea = createMemoryStorageArea();
+    let clock = DAY_ONE;
+    const ledger = createUsageLedger({ storageArea, now: () => (clock += 1), maxVideos: 2 });
+
+    await ledger.record('first', deeplUsage);
+    await ledger.record('second', deeplUsage);
+    await ledger.record('third', deeplUsage);
+
+    const stored = storageArea.data[USAGE_LEDGER_STORAGE_KEY] as { videos: Record<string, unknown> };
+    expect(Object.keys(stored.videos).sort()).toEqual(['second', 'third']);
+  });
+});
+
+describe('usage pricing', () => {
+  it('prefers a model-specific price over the provider price', () => {
+    expect(resolvePrice(DEFAULT_PRICE_TABLE, 'mistral', 'mistral-small-latest')).toEqual(
+      DEFAULT_PRICE_TABLE['mistral:mistral-small-latest']
+    );
+    expect(resolvePrice(DEFAULT_PRICE_TABLE, 'mistral', 'open-mistral-nemo')).toEqual(DEFAULT_PRICE_TABLE.mistral);
+    expect(resolvePrice(DEFAULT_PRICE_TABLE, 'ollama', 'llama3.1')).toBeNull();
+    expect(computeUsageCost({ requests: 1, inputTokens: 10, outputTokens: 10, characters: 10 }, null)).toBe(0);
+  });
+
+  it('validates price tables', () => {
+    expect(isPriceTable(DEFAULT_PRICE_TABLE)).toBe(true);
+    expect(isPriceTable({ openai: { inputPerMillionTokens: 1 } })).toBe(false);
+    expect(isPriceTable({ openai: { inputPerMillionTokens: -1, outputPerMillionTokens: 0, perMillionCharacters: 0 } })).toBe(
+      false
+    );
+    expect(isPriceTable([])).toBe(false);
+  });
+});
+
+describe('spending budget', () => {
+  const spending = (cost: number, inputTokens = 0) => ({
+    key: '2024-03',
+    totals: { requests: 1, inputTokens, outputTokens: 0, characters: 0 },
+    cost
+  });
+  const budget = { ...DEFAULT_TRANSLATION_SETTINGS, budgetLimit: 5 };
+
+  it('treats a limit of zero as no cap', () => {
+    expect(evaluateBudget(DEFAULT_TRANSLATION_SETTINGS, spending(1_000))).toEqual({ state: 'unlimited' });
+  });
+
+  it('warns past the threshold and refuses once the cap is reached', () => {
+    expect(evaluateBudget(budget, spending(3.99)).state).toBe('ok');
+    expect(evaluateBudget(budget, spending(4.2))).toMatchObject({
+      state: 'warning',
+      message: '84% of the monthly translation budget is used ($4.20 of $5.00).'
+    });
+    expect(evaluateBudget(budget, spending(5))).toMatchObject({
+      state: 'exceeded',
+      message:
+        'The monthly translation budget of $5.00 is used up ($5.00 spent). Raise it on the options page or wait until next month.'
+    });
+  });
+
+  it('counts tokens for token budgets', () => {
+    const tokenBudget = { ...budget, budgetLimit: 10_000, budgetUnit: 'tokens' as const, budgetPeriod: 'day' as const };
+
+    expect(evaluateBudget(tokenBudget, spending(100, 9_000)).state).toBe('warning');
+    expect(evaluateBudget(tokenBudget, spending(0, 12_000))).toMatchObject({
+      state: 'exceeded',
+      message: expect.stringContaining('daily translation budget of 10,000 tokens is used up (12,000 tokens spent)')
+    });
+  });
+});
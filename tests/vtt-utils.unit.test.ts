@@ -1,5 +1,16 @@
 import { describe, expect, it } from 'vitest';
-import { parseVtt, rebuildVtt, type VttCue } from '../src/shared/vtt';
+import {
+  findOverlappingCues,
+  formatVttTimestamp,
+  offsetCues,
+  parseVtt,
+  parseVttTimestamp,
+  rebuildVtt,
+  scaleCues,
+  validateCueTimings,
+  vttTimestampToSeconds,
+  type VttCue
+} from '../src/shared/vtt';
 
 describe('VTT utilities', () => {
   it('parses cue identifiers, timings, settings, and multi-line text', () => {
@@ -109,4 +120,75 @@ describe('VTT utilities', () => {
 
     expect(reparsed).toEqual(cues);
   });
+
+  it('converts cue timestamps into seconds', () => {
+    expect(vttTimestampToSeconds('01:02:03.450')).toBeCloseTo(3723.45);
+    expect(vttTimestampToSeconds('02:03.004')).toBeCloseTo(123.004);
+    expect(vttTimestampToSeconds('2:03')).toBeNull();
+  });
+
+  it('parses timestamps into milliseconds and formats them back unchanged', () => {
+    expect(parseVttTimestamp('01:02:03.450')).toEqual({ milliseconds: 3_723_450, hasHours: true });
+    expect(parseVttTimestamp('02:03.004')).toEqual({ milliseconds: 123_004, hasHours: false });
+    ['00:00:01.000', '02:03.004', '100:00:00.001'].forEach((timestamp) => {
+      expect(formatVttTimestamp(parseVttTimestamp(timestamp)!)).toBe(timestamp);
+    });
+    expect(formatVttTimestamp({ milliseconds: 3_600_000, hasHours: false })).toBe('01:00:00.000');
+    ['00:61.000', '1:00:00.000', '00:01.5', '00:01,000'].forEach((timestamp) => {
+      expect(parseVttTimestamp(timestamp)).toBeNull();
+    });
+  });
+
+  it('drops cues whose time line is malformed or ends before it starts', () => {
+    const vttText = [
+      'WEBVTT',
+      '',
+      '1',
+      '00:00:01.000 --> 00:00:0x.000',
+      'Mauvaise fin',
+      '',
+      '00:00:05.000 --> 00:00:04.000',
+      'À rebours',
+      '',
+      '00:06.000 --> 00:07.500 align:start',
+      'Correcte'
+    ].join('\n');
+
+    expect(parseVtt(vttText)).toEqual([{ start: '00:06.000', end: '00:07.500', settings: 'align:start', text: 'Correcte' }]);
+  });
+
+  it('shifts and scales cue times, keeping the timestamp style', () => {
+    const cues: VttCue[] = [
+      { start: '00:01.000', end: '00:02.500', text: 'Un' },
+      { start: '00:59:59.000', end: '01:00:01.000', text: 'Deux' }
+    ];
+
+    expect(offsetCues(cues, 1500)).toEqual([
+      { start: '00:02.500', end: '00:04.000', text: 'Un' },
+      { start: '01:00:00.500', end: '01:00:02.500', text: 'Deux' }
+    ]);
+    expect(offsetCues(cues, -2000)[0]).toMatchObject({ start: '00:00.000', end: '00:00.500' });
+    expect(scaleCues(cues.slice(0, 1), 2, 1000)).toEqual([{ start: '00:01.000', end: '00:04.000', text: 'Un' }]);
+    expect(() => scaleCues(cues, 0)).toThrow('positive factor');
+  });
+
+  it('finds overlapping cues and cues out of order', () => {
+    const cues: VttCue[] = [
+      { start: '00:00:01.000', end: '00:00:04.000', text: 'A' },
+      { start: '00:00:03.000', end: '00:00:05.000', text: 'B' },
+      { start: '00:00:02.000', end: '00:00:02.500', text: 'C' },
+      { start: '00:00:06.000', end: '00:00:05.000', text: 'D' },
+      { start: 'soon', end: '00:00:07.000', text: 'E' }
+    ];
+
+    expect(findOverlappingCues(cues)).toEqual([
+      [0, 2],
+      [0, 1]
+    ]);
+    expect(validateCueTimings(cues)).toEqual([
+      { index: 2, kind: 'out-of-order' },
+      { index: 3, kind: 'end-before-start' },
+      { index: 4, kind: 'malformed' }
+    ]);
+  });
 });